@@ -0,0 +1,168 @@
+// apps/web/src/app/account/page.tsx
+'use client';
+
+import React, { useState } from 'react';
+import { useAccount } from '@/contexts/AccountContext';
+import { useLikedPapers, type LibrarySyncStatus } from '@/contexts/LikedPapersContext';
+import LibraryOwnerConflictNotice from '@/components/LibraryOwnerConflictNotice';
+import styles from './account.module.css';
+import { UserCircleIcon, ArrowPathIcon, CloudIcon } from '@heroicons/react/24/outline';
+
+type AuthMode = 'login' | 'register';
+
+const SYNC_STATUS_LABELS: Record<LibrarySyncStatus, string> = {
+  local: 'この端末のみに保存',
+  syncing: '同期中...',
+  synced: '同期済み',
+  error: '同期に失敗しました',
+  paused: '同期を一時停止中',
+};
+
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleString('ja-JP', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export default function AccountPage() {
+  const { user, isAccountsAvailable, register, login, logout, isLoadingAccount } = useAccount();
+  const { likedPapers, collections, syncStatus, lastSyncedAt, lastPulledCount, syncError, syncNow, hasLibraryOwnerConflict } = useLikedPapers();
+  const [mode, setMode] = useState<AuthMode>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    setFormError(null);
+    try {
+      if (mode === 'register') {
+        await register(username.trim(), password);
+      } else {
+        await login(username.trim(), password);
+      }
+      setPassword('');
+    } catch (submitError) {
+      console.error('AccountPage: Failed to authenticate:', submitError);
+      setFormError(submitError instanceof Error ? submitError.message : '不明なエラーが発生しました。');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    if (!confirm('ログアウトしますか？この端末のライブラリはそのまま残りますが、同期は停止します。')) return;
+    await logout();
+  };
+
+  if (isLoadingAccount) {
+    return (
+      <div className={styles.loadingContainer}>
+        <div className={styles.spinner}></div>
+        <p>アカウント情報を確認中...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.accountPageContainer}>
+      <header className={styles.header}>
+        <h1 className={styles.pageTitle}>アカウント</h1>
+        <p className={styles.pageSubtitle}>
+          ログインすると、ライブラリ (論文・コレクション・タグ・メモ・AI要約) を複数の端末で同期できます。
+        </p>
+      </header>
+
+      {!isAccountsAvailable ? (
+        <div className={styles.card}>
+          <CloudIcon className={styles.cardIcon} />
+          <p className={styles.unavailableText}>
+            このサーバーではアカウント機能が無効になっています。ライブラリはこの端末のブラウザにのみ保存されます。
+          </p>
+        </div>
+      ) : user ? (
+        <div className={styles.card}>
+          <div className={styles.userRow}>
+            <UserCircleIcon className={styles.cardIcon} />
+            <div>
+              <p className={styles.username}>{user.username}</p>
+              <p className={styles.libraryCount}>論文 {likedPapers.length} 件・コレクション {collections.length} 件</p>
+            </div>
+          </div>
+
+          <div className={styles.syncStatusRow}>
+            <span className={`${styles.syncBadge} ${styles[`sync_${syncStatus}`]}`}>{SYNC_STATUS_LABELS[syncStatus]}</span>
+            {lastSyncedAt && (
+              <span className={styles.syncMeta}>
+                最終同期: {formatTimestamp(lastSyncedAt)}
+                {lastPulledCount > 0 && ` (他の端末から ${lastPulledCount} 件を取り込みました)`}
+              </span>
+            )}
+          </div>
+          {syncError && <p className={styles.errorText}>{syncError}</p>}
+          <LibraryOwnerConflictNotice />
+
+          <div className={styles.actions}>
+            <button type="button" onClick={() => syncNow()} disabled={syncStatus === 'syncing' || hasLibraryOwnerConflict} className={styles.primaryButton}>
+              <ArrowPathIcon className={styles.buttonIcon} />
+              今すぐ同期
+            </button>
+            <button type="button" onClick={handleLogout} className={styles.secondaryButton}>ログアウト</button>
+          </div>
+        </div>
+      ) : (
+        <div className={styles.card}>
+          <div className={styles.modeTabs}>
+            <button
+              type="button"
+              onClick={() => { setMode('login'); setFormError(null); }}
+              className={`${styles.modeTab} ${mode === 'login' ? styles.modeTabActive : ''}`}
+            >
+              ログイン
+            </button>
+            <button
+              type="button"
+              onClick={() => { setMode('register'); setFormError(null); }}
+              className={`${styles.modeTab} ${mode === 'register' ? styles.modeTabActive : ''}`}
+            >
+              新規登録
+            </button>
+          </div>
+          <form onSubmit={handleSubmit} className={styles.form}>
+            <label className={styles.field}>
+              <span className={styles.fieldLabel}>ユーザー名</span>
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                className={styles.input}
+                required
+              />
+            </label>
+            <label className={styles.field}>
+              <span className={styles.fieldLabel}>パスワード</span>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+                className={styles.input}
+                required
+              />
+            </label>
+            {formError && <p className={styles.errorText}>{formError}</p>}
+            <button type="submit" disabled={isSubmitting} className={styles.primaryButton}>
+              {isSubmitting ? '送信中...' : mode === 'register' ? '登録して同期を開始' : 'ログインして同期を開始'}
+            </button>
+          </form>
+          <p className={styles.formHint}>
+            この端末のライブラリ ({likedPapers.length} 件) はアカウントのライブラリと統合されます。
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
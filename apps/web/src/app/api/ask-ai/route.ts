@@ -1,39 +1,78 @@
 // apps/web/src/app/api/ask-ai/route.ts
 import { NextResponse } from 'next/server';
-import { GoogleGenAI } from '@google/genai';
-import fs from 'fs/promises';
-import path from 'path';
-import os from 'os';
+import { createAiStreamResponse } from '@/lib/aiStream';
+import { generateWithLlm, LlmError, resolveLlmRouteConfig, type LlmMessage, type LlmRouteConfig } from '@/lib/llm';
 
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+const MAX_HISTORY_MESSAGES = 40; // これより古いやり取りは送らない
+const MAX_MESSAGE_LENGTH = 20000;
 
-if (!GEMINI_API_KEY) {
-  console.error('FATAL ERROR: ASK-AI - GEMINI_API_KEY environment variable is not set.');
+// これまでの会話 (クライアントの PaperChatMessage から role と content だけを受け取る)
+interface ChatTurn {
+  role: 'user' | 'ai';
+  content: string;
 }
 
-const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY! });
+function parseHistory(value: unknown): ChatTurn[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return null;
+  const turns: ChatTurn[] = [];
+  for (const item of value) {
+    if (typeof item !== 'object' || item === null) return null;
+    const { role, content } = item as Partial<ChatTurn>;
+    if ((role !== 'user' && role !== 'ai') || typeof content !== 'string') return null;
+    if (content.trim()) turns.push({ role, content: content.slice(0, MAX_MESSAGE_LENGTH) });
+  }
+  return turns.slice(-MAX_HISTORY_MESSAGES);
+}
 
-async function downloadFile(url: string, outputPath: string): Promise<void> {
-  console.log(`ask-ai/downloadFile: Attempting to download from ${url} to ${outputPath}`);
-  const response = await fetch(url);
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`ask-ai/downloadFile: Failed to download file (${response.status}): ${errorText} from ${url}`);
-    throw new Error(`Failed to download file: ${response.status} ${response.statusText}`);
+// LLM に渡す会話は user から始まり user と assistant が交互に並ぶ必要があるので、
+// 先頭の AI の発言を除き、同じ話者が続く場合 (エラーで回答が無かった質問など) はまとめる
+function buildConversation(history: ChatTurn[], question: string): LlmMessage[] {
+  const conversation: LlmMessage[] = [];
+  for (const turn of [...history, { role: 'user' as const, content: question }]) {
+    const role = turn.role === 'user' ? 'user' : 'assistant';
+    const last = conversation[conversation.length - 1];
+    if (last?.role === role) last.text += `\n\n${turn.content}`;
+    else if (conversation.length > 0 || role === 'user') conversation.push({ role, text: turn.content });
   }
-  const buffer = await response.arrayBuffer();
-  await fs.writeFile(outputPath, Buffer.from(buffer));
-  console.log(`ask-ai/downloadFile: File downloaded successfully to ${outputPath}`);
+  return conversation;
 }
 
-export async function POST(request: Request) {
-  if (!GEMINI_API_KEY) {
-    console.error('ASK-AI API Error: GEMINI_API_KEY is not set at request time.');
-    return NextResponse.json({ error: 'サーバー設定エラー: APIキーが設定されていません。' }, { status: 500 });
+function buildSystemInstruction(paperTitle: string): string {
+  return `あなたは提供された学術論文の内容を深く理解し、それに関するユーザーからの質問に、論文中の情報に基づいて正確かつ具体的に回答するAIアシスタントです。論文「${paperTitle}」の内容を踏まえて、ユーザーの質問に答えてください。それまでの会話の流れも踏まえ、「さっきの2点目」のような質問は直前のやり取りを参照して解釈してください。\n\n回答は、質問の意図を正確に捉え、論文中の該当箇所を適切に参照しながら、明確かつ簡潔にお願いします。もし論文中に直接的な答えが見つからない場合は、その旨を正直に伝えてください。憶測や論文外の情報に基づく回答は避けてください。`;
+}
+
+async function generateAnswer(
+  llm: LlmRouteConfig,
+  pdfUrl: string,
+  paperTitle: string,
+  question: string,
+  history: ChatTurn[],
+  onDelta: (text: string) => void,
+  signal?: AbortSignal,
+): Promise<string> {
+  // 論文PDFは最初の質問と一緒に渡す
+  const messages = buildConversation(history, question);
+  console.log(`ask-ai API: Generating answer with ${llm.provider.label} (${llm.model}, ${messages.length} turns).`);
+  const answer = await generateWithLlm(
+    llm,
+    { systemInstruction: buildSystemInstruction(paperTitle), messages, pdfUrl, signal },
+    onDelta,
+  );
+  console.log(`ask-ai API: Answer generation completed.`);
+
+  if (!answer) {
+    console.error('ask-ai API: LLM returned no answer text.');
+    throw new Error('AIからの回答が空でした。');
   }
 
+  console.log(`ask-ai API: Answer generated (first 100 chars): ${answer.substring(0, 100)}...`);
+  return answer;
+}
+
+export async function POST(request: Request) {
   try {
-    const { question, pdfUrl, paperTitle } = await request.json();
+    const { question, pdfUrl, paperTitle, history: rawHistory, stream } = await request.json();
 
     if (!question || typeof question !== 'string') {
       console.warn('ask-ai API: Invalid request - question is missing or not a string.');
@@ -44,88 +83,38 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: '質問対象の論文PDF URLが必要です。' }, { status: 400 });
     }
     const safePaperTitle = typeof paperTitle === 'string' ? paperTitle : '提示された論文';
+    const history = parseHistory(rawHistory);
+    if (!history) {
+      console.warn('ask-ai API: Invalid request - history is malformed.');
+      return NextResponse.json({ error: '会話履歴の形式が正しくありません。' }, { status: 400 });
+    }
 
-    console.log(`ask-ai API: Received question "${question}" for PDF: ${pdfUrl} (Title: ${safePaperTitle})`);
-
-    const modelName = "gemini-2.0-flash";
-
-    const tempDir = os.tmpdir();
-    const uniqueFileName = `ask_paper_${Date.now()}_${path.basename(new URL(pdfUrl).pathname) || 'downloaded.pdf'}`.replace(/[^a-zA-Z0-9_.-]/g, '_');
-    const tempFilePath = path.join(tempDir, uniqueFileName);
-    
-    let uploadedFileResponse;
-
-    try {
-      console.log(`ask-ai API: Downloading PDF to temporary path: ${tempFilePath}`);
-      await downloadFile(pdfUrl, tempFilePath);
-
-      console.log(`ask-ai API: Uploading file "${tempFilePath}" to Gemini.`);
-      uploadedFileResponse = await ai.files.upload({
-        file: tempFilePath,
-        config: { mimeType: 'application/pdf' },
-      });
-      console.log(`ask-ai API: File uploaded to Gemini. Name: ${uploadedFileResponse.name}, URI: ${uploadedFileResponse.uri}`);
-
-      const contents = [
-        { 
-          fileData: {
-            mimeType: uploadedFileResponse.mimeType,
-            fileUri: uploadedFileResponse.uri,
-          }
-        },
-        { 
-          text: `あなたは提供された学術論文の内容を深く理解し、それに関するユーザーからの質問に、論文中の情報に基づいて正確かつ具体的に回答するAIアシスタントです。以下の論文「${safePaperTitle}」の内容を踏まえて、この質問に答えてください。\n\n質問: 「${question}」\n\n回答は、質問の意図を正確に捉え、論文中の該当箇所を適切に参照しながら、明確かつ簡潔にお願いします。もし論文中に直接的な答えが見つからない場合は、その旨を正直に伝えてください。憶測や論文外の情報に基づく回答は避けてください。`
-        }
-      ];
-      
-      console.log(`ask-ai API: Generating answer with model ${modelName}.`);
-      const generationResponse = await ai.models.generateContent({
-        model: modelName,
-        contents: contents,
-      });
-      console.log(`ask-ai API: Answer generation completed.`);
-
-      const answer = generationResponse.text;
+    const llm = resolveLlmRouteConfig('askAi');
+    console.log(`ask-ai API: Received question "${question}" for PDF: ${pdfUrl} (Title: ${safePaperTitle}, History: ${history.length}, Stream: ${stream === true})`);
 
-      if (!answer) {
-        console.error('ask-ai API: Gemini API returned no answer text.', generationResponse);
-        return NextResponse.json({ error: 'AIからの回答が空でした。' }, { status: 500 });
-      }
-
-      console.log(`ask-ai API: Answer generated (first 100 chars): ${answer.substring(0, 100)}...`);
+    if (stream !== true) {
+      const answer = await generateAnswer(llm, pdfUrl, safePaperTitle, question, history, () => undefined, request.signal);
       return NextResponse.json({ answer });
+    }
 
-    } finally {
-      if (uploadedFileResponse && uploadedFileResponse.name) {
-        try {
-          console.log(`ask-ai API: Deleting uploaded file from Gemini: ${uploadedFileResponse.name}`);
-          await ai.files.delete({ name: uploadedFileResponse.name });
-          console.log(`ask-ai API: Gemini file ${uploadedFileResponse.name} deleted successfully.`);
-        } catch (deleteError) {
-          console.error(`ask-ai API: Error deleting Gemini file ${uploadedFileResponse.name}:`, deleteError);
-        }
-      }
+    return createAiStreamResponse(request, async (send, signal) => {
       try {
-        console.log(`ask-ai API: Attempting to delete temporary local file: ${tempFilePath}`);
-        await fs.access(tempFilePath);
-        await fs.unlink(tempFilePath);
-        console.log(`ask-ai API: Temporary local file ${tempFilePath} deleted successfully.`);
-      } catch (unlinkError) {
-        if (unlinkError && typeof unlinkError === 'object' && 'code' in unlinkError) {
-          const nodeError = unlinkError as NodeJS.ErrnoException;
-          if (nodeError.code !== 'ENOENT') {
-            console.error(`ask-ai API: Error deleting temporary local file ${tempFilePath}:`, nodeError);
-          } else {
-            console.log(`ask-ai API: Temporary local file ${tempFilePath} not found for deletion (ENOENT).`);
-          }
-        } else {
-          console.error(`ask-ai API: An unexpected error type occurred while deleting temporary local file ${tempFilePath}:`, unlinkError);
+        await generateAnswer(llm, pdfUrl, safePaperTitle, question, history, (text) => send({ type: 'delta', text }), signal);
+        send({ type: 'done' });
+      } catch (error) {
+        if (signal.aborted) {
+          console.log('ask-ai API: Client cancelled the answer stream.');
+          return;
         }
+        console.error('ask-ai API: Error while streaming answer:', error);
+        const errorMessage = error instanceof Error ? error.message : '不明なサーバーエラーが発生しました。';
+        send({ type: 'error', error: `AIへの質問処理中にサーバーエラーが発生しました: ${errorMessage}` });
       }
-    }
+    });
   } catch (error) {
     console.error('ask-ai API: Unhandled error occurred:', error);
     const errorMessage = error instanceof Error ? error.message : '不明なサーバーエラーが発生しました。';
-    return NextResponse.json({ error: `AIへの質問処理中にサーバーエラーが発生しました: ${errorMessage}` }, { status: 500 });
+    const status = error instanceof LlmError ? error.status : 500;
+    return NextResponse.json({ error: `AIへの質問処理中にサーバーエラーが発生しました: ${errorMessage}` }, { status });
   }
 }
@@ -0,0 +1,21 @@
+// apps/web/src/app/api/auth/login/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { loginUser } from '@/lib/accounts/auth';
+import { assertAuthRateLimit } from '@/lib/accounts/rateLimit';
+import { AccountError } from '@/lib/accounts/store';
+
+export async function POST(request: NextRequest) {
+  try {
+    assertAuthRateLimit(request, 'login');
+    const { username, password } = await request.json().catch(() => ({}));
+    const { user, token } = await loginUser(username, password);
+    return NextResponse.json({ user, token });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      console.warn(`API (login): ${error.message}`);
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('API (login): Unhandled error:', error);
+    return NextResponse.json({ error: 'ログイン中にエラーが発生しました。' }, { status: 500 });
+  }
+}
@@ -0,0 +1,17 @@
+// apps/web/src/app/api/auth/logout/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { revokeSession } from '@/lib/accounts/auth';
+import { AccountError } from '@/lib/accounts/store';
+
+export async function POST(request: NextRequest) {
+  try {
+    await revokeSession(request);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('API (logout): Unhandled error:', error);
+    return NextResponse.json({ error: 'ログアウト中にエラーが発生しました。' }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+// apps/web/src/app/api/auth/me/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { requireUser } from '@/lib/accounts/auth';
+import { AccountError } from '@/lib/accounts/store';
+
+// セッションの確認 (アカウント機能が無効なサーバーでは 503 を返し、クライアントはローカル保存のみで動く)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    return NextResponse.json({ user });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('API (me): Unhandled error:', error);
+    return NextResponse.json({ error: 'セッションの確認中にエラーが発生しました。' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+// apps/web/src/app/api/auth/register/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { registerUser } from '@/lib/accounts/auth';
+import { assertAuthRateLimit } from '@/lib/accounts/rateLimit';
+import { AccountError } from '@/lib/accounts/store';
+
+export async function POST(request: NextRequest) {
+  try {
+    assertAuthRateLimit(request, 'register');
+    const { username, password } = await request.json().catch(() => ({}));
+    const { user, token } = await registerUser(username, password);
+    return NextResponse.json({ user, token }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      console.warn(`API (register): ${error.message}`);
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('API (register): Unhandled error:', error);
+    return NextResponse.json({ error: 'アカウントの作成中にエラーが発生しました。' }, { status: 500 });
+  }
+}
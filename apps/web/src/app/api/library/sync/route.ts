@@ -0,0 +1,43 @@
+// apps/web/src/app/api/library/sync/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { requireUser } from '@/lib/accounts/auth';
+import { AccountError, readLibrary, withStoreLock, writeLibrary } from '@/lib/accounts/store';
+import { mergeLibrarySnapshots, parseLibrarySnapshot } from '@/lib/librarySync';
+
+const MAX_SYNC_BODY_BYTES = 20 * 1024 * 1024; // AI要約やメモを含めても十分な上限
+
+/**
+ * 端末のライブラリ全体を受け取り、サーバーに保存されている状態とマージして返す。
+ * 端末側は返ってきた状態でローカルを置き換える。
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+
+    if (Number(request.headers.get('content-length') ?? 0) > MAX_SYNC_BODY_BYTES) {
+      return NextResponse.json({ error: 'ライブラリが大きすぎて同期できません。' }, { status: 413 });
+    }
+    const incoming = parseLibrarySnapshot(await request.json().catch(() => null));
+    if (!incoming) {
+      return NextResponse.json({ error: '同期データの形式が正しくありません。' }, { status: 400 });
+    }
+
+    const { snapshot, pulledCount, syncedAt } = await withStoreLock(async () => {
+      const stored = await readLibrary(user.id);
+      const merged = mergeLibrarySnapshots(stored, incoming);
+      const now = new Date().toISOString();
+      await writeLibrary(user.id, { ...merged.snapshot, updatedAt: now });
+      return { ...merged, syncedAt: now };
+    });
+
+    console.log(`API (sync): Synced library for "${user.username}" (${snapshot.papers.length} papers, ${pulledCount} pulled).`);
+    return NextResponse.json({ snapshot, pulledCount, syncedAt });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('API (sync): Unhandled error:', error);
+    const message = error instanceof Error ? error.message : 'An unknown server error occurred.';
+    return NextResponse.json({ error: `同期に失敗しました: ${message}` }, { status: 500 });
+  }
+}
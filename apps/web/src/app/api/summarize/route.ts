@@ -1,130 +1,189 @@
 // apps/web/src/app/api/summarize/route.ts
 import { NextResponse } from 'next/server';
-import { GoogleGenAI } from '@google/genai';
-import fs from 'fs/promises';
-import path from 'path';
-import os from 'os';
-
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+import { getOrCreateSummary, resolvePaperVersion, type SummaryCacheInfo } from '@/lib/summaryCache';
+import { createAiStreamResponse } from '@/lib/aiStream';
+import { generateWithLlm, LlmError, resolveLlmRouteConfig, type LlmJsonSchema, type LlmRouteConfig } from '@/lib/llm';
+import { formatStructuredSummary, parseStructuredSummary, type StructuredSummary } from '@/lib/structuredSummary';
+import {
+  parseSummaryOptions, summaryVariantKey,
+  type SummaryAudience, type SummaryLanguage, type SummaryLength, type SummaryOptions, type SummarySource,
+} from '@/lib/summaryOptions';
+
+const SUMMARY_PROMPT_VERSION = 3; // プロンプトを変えたら上げる (古いキャッシュを使わないようにする)
+const MAX_ABSTRACT_LENGTH = 10000;
+
+// 全文 (PDF) か Abstract のどちらから要約するか
+type SummaryInput = { source: 'pdf'; pdfUrl: string } | { source: 'abstract'; abstract: string };
+
+const LANGUAGE_INSTRUCTIONS: Record<SummaryLanguage, string> = {
+  ja: '日本語で',
+  en: '英語 (English) で',
+};
+
+const AUDIENCE_INSTRUCTIONS: Record<SummaryAudience, string> = {
+  newcomer: '専門用語は適度に解説を加え、専門外の研究者や学生にも理解しやすい言葉遣いを心がけてください。',
+  expert: 'この分野の専門家が読む前提で、専門用語は解説せずにそのまま使い、先行研究との違いや技術的な詳細 (手法の要点、実験設定、数値結果) を重視してください。',
+};
+
+const LENGTH_INSTRUCTIONS: Record<SummaryLength, string> = {
+  tldr: '全体が3行程度に収まるよう、各項目はごく短く (1文以内、配列は1項目まで。限界・課題は空の配列でもよい) まとめてください。',
+  short: '重要な情報が欠落しない範囲で、できるだけ簡潔に (各項目1〜2文、配列は3項目まで) まとめてください。',
+  detailed: '詳しいダイジェストとして、各項目を具体的に (数値・データセット・比較対象などを含め、配列は3〜6項目) まとめてください。',
+};
+
+// 項目の順番はストリーミング表示の順番になる (要点を最初に出す)
+const SUMMARY_SCHEMA: LlmJsonSchema = {
+  type: 'object',
+  properties: {
+    tldr: { type: 'string', description: '論文の要点を1文で' },
+    purpose: { type: 'string', description: '研究の目的・解決しようとしている問題' },
+    method: { type: 'string', description: '採用された手法' },
+    keyResults: { type: 'array', items: { type: 'string' }, description: '得られた主要な結果 (箇条書き)' },
+    contributions: { type: 'array', items: { type: 'string' }, description: '最も重要な貢献や新規性 (箇条書き)' },
+    limitations: { type: 'array', items: { type: 'string' }, description: '限界や今後の課題 (箇条書き、論文に記述が無ければ空)' },
+  },
+};
+
+function buildSummaryPrompt(paperTitle: string, options: SummaryOptions, input: SummaryInput): string {
+  const target = input.source === 'abstract' ? `論文「${paperTitle}」の Abstract (末尾に記載) をもとに` : `以下の論文「${paperTitle}」について`;
+  const abstractOnlyInstruction = input.source === 'abstract'
+    ? 'Abstract に書かれていない内容は推測で補わず、該当する記述が無い項目は空の文字列または空の配列にしてください (tldr は必ず書いてください)。'
+    : '';
+  const prompt = `あなたは学術論文を分析し、その内容を簡潔かつ正確に要約する専門家です。${target}、その主要な目的、採用された手法、得られた主要な結果、研究の最も重要な貢献や新規性、そして限界や課題が明確にわかるように、${LANGUAGE_INSTRUCTIONS[options.language]}要約を作成してください。${AUDIENCE_INSTRUCTIONS[options.audience]}${LENGTH_INSTRUCTIONS[options.length]}${abstractOnlyInstruction}
+
+出力は次のキーを持つ JSON オブジェクトのみとし、前後に説明文を付けないでください。キーは英語のまま、値は指定した言語で書いてください。
+- tldr: 論文の要点を1文で (文字列)
+- purpose: 研究の目的 (文字列)
+- method: 採用された手法 (文字列)
+- keyResults: 主要な結果 (文字列の配列)
+- contributions: 貢献・新規性 (文字列の配列)
+- limitations: 限界・課題 (文字列の配列。論文に記述が無ければ空の配列)
+数式は $...$ で囲んだ LaTeX で書いてください。`;
+  return input.source === 'abstract' ? `${prompt}\n\nAbstract:\n${input.abstract}` : prompt;
+}
 
-if (!GEMINI_API_KEY) {
-  console.error('FATAL ERROR: SUMMARIZE - GEMINI_API_KEY environment variable is not set.');
+// キャッシュのキーにする要約の内容 (同じ PDF・Abstract を表す書き方の違いはそろえる)
+function summaryInputKey(input: SummaryInput): string {
+  if (input.source === 'abstract') return input.abstract.replace(/\s+/g, ' ');
+  return input.pdfUrl.trim().replace(/^http:\/\//i, 'https://').replace(/\.pdf$/i, '');
 }
 
-const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY! });
+// キャッシュには LLM の出力 (JSON) をそのまま保存し、返す時に読み取る
+function toSummaryResponse(summaryJson: string): { summary: string; structured: StructuredSummary } {
+  const structured = parseStructuredSummary(summaryJson);
+  if (!structured) throw new Error('AIの応答を要約として読み取れませんでした。');
+  return { summary: formatStructuredSummary(structured), structured };
+}
 
-async function downloadFile(url: string, outputPath: string): Promise<void> {
-  console.log(`summarize/downloadFile: Attempting to download from ${url} to ${outputPath}`);
-  const response = await fetch(url);
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`summarize/downloadFile: Failed to download file (${response.status}): ${errorText} from ${url}`);
-    throw new Error(`Failed to download file: ${response.status} ${response.statusText}`);
+async function generateSummary(
+  llm: LlmRouteConfig,
+  input: SummaryInput,
+  paperTitle: string,
+  options: SummaryOptions,
+  onDelta: (text: string) => void,
+  signal?: AbortSignal,
+): Promise<string> {
+  console.log(`summarize API: Generating ${summaryVariantKey(options)} summary from ${input.source} with ${llm.provider.label} (${llm.model}).`);
+  const summary = await generateWithLlm(
+    llm,
+    {
+      messages: [{ role: 'user', text: buildSummaryPrompt(paperTitle, options, input) }],
+      pdfUrl: input.source === 'pdf' ? input.pdfUrl : undefined, // Abstract だけの場合は PDF のダウンロード・アップロードをしない
+      responseSchema: SUMMARY_SCHEMA,
+      signal,
+    },
+    onDelta,
+  );
+  console.log(`summarize API: Summary generation completed.`);
+
+  if (!summary) {
+    console.error('summarize API: LLM returned no summary text.');
+    throw new Error('要約の生成に失敗しました。APIからの応答が空でした。');
   }
-  const buffer = await response.arrayBuffer();
-  await fs.writeFile(outputPath, Buffer.from(buffer));
-  console.log(`summarize/downloadFile: File downloaded successfully to ${outputPath}`);
+  if (!parseStructuredSummary(summary)) {
+    console.error(`summarize API: LLM returned a summary that does not match the schema: ${summary.substring(0, 200)}`);
+    throw new Error('要約の生成に失敗しました。AIの応答の形式が正しくありません。');
+  }
+
+  console.log(`summarize API: Summary generated (first 100 chars): ${summary.substring(0, 100)}...`);
+  return summary;
 }
 
 export async function POST(request: Request) {
-  if (!GEMINI_API_KEY) {
-    console.error('SUMMARIZE API Error: GEMINI_API_KEY is not set at request time.');
-    return NextResponse.json({ error: 'サーバー設定エラー: APIキーが設定されていません。' }, { status: 500 });
-  }
-
   try {
-    const { pdfUrl, paperTitle } = await request.json();
-
-    if (!pdfUrl || typeof pdfUrl !== 'string') {
-      console.warn('summarize API: Invalid request - pdfUrl is missing or not a string.');
-      return NextResponse.json({ error: '要約する論文のPDF URLが必要です。' }, { status: 400 });
+    const { pdfUrl, abstract, source, paperTitle, paperId, paperUpdated, options: rawOptions, regenerate, stream } = await request.json();
+
+    const summarySource: SummarySource = source === 'abstract' ? 'abstract' : 'pdf';
+    let input: SummaryInput;
+    if (summarySource === 'abstract') {
+      if (typeof abstract !== 'string' || !abstract.trim()) {
+        console.warn('summarize API: Invalid request - abstract is missing or not a string.');
+        return NextResponse.json({ error: '要約する論文のAbstractが必要です。' }, { status: 400 });
+      }
+      input = { source: 'abstract', abstract: abstract.trim().slice(0, MAX_ABSTRACT_LENGTH) };
+    } else {
+      if (!pdfUrl || typeof pdfUrl !== 'string') {
+        console.warn('summarize API: Invalid request - pdfUrl is missing or not a string.');
+        return NextResponse.json({ error: '要約する論文のPDF URLが必要です。' }, { status: 400 });
+      }
+      input = { source: 'pdf', pdfUrl };
     }
+    const safePdfUrl = typeof pdfUrl === 'string' ? pdfUrl : '';
     const safePaperTitle = typeof paperTitle === 'string' ? paperTitle : '提示された論文';
+    const options = parseSummaryOptions(rawOptions); // 指定しない古いクライアントには既定の設定で返す
+
+    console.log(`summarize API: Received request to summarize ${summarySource === 'abstract' ? 'abstract' : `PDF: ${safePdfUrl}`} (Title: ${safePaperTitle}, Options: ${summaryVariantKey(options)}, Regenerate: ${regenerate === true}, Stream: ${stream === true})`);
+
+    const llm = resolveLlmRouteConfig('summarize');
+    // キャッシュは PDF をダウンロードする前に確認する。論文IDを送らない古いクライアントは PDF の URL (無ければタイトル) で区別する
+    const cacheKeyParts = {
+      paperId: typeof paperId === 'string' && paperId ? paperId : safePdfUrl || safePaperTitle,
+      version: resolvePaperVersion(safePdfUrl, typeof paperUpdated === 'string' ? paperUpdated : undefined),
+      input: summaryInputKey(input), // 別の PDF・Abstract を送って、他の人に返る要約を書き換えられないようにする
+      model: llm.modelLabel,
+      variant: summaryVariantKey(options),
+      source: summarySource,
+      promptVersion: SUMMARY_PROMPT_VERSION,
+    };
+
+    if (stream !== true) {
+      const { summary, cache } = await getOrCreateSummary(
+        cacheKeyParts,
+        (onDelta, generationSignal) => generateSummary(llm, input, safePaperTitle, options, onDelta, generationSignal),
+        { regenerate: regenerate === true, signal: request.signal },
+      );
+      return NextResponse.json({ ...toSummaryResponse(summary), cache });
+    }
 
-    console.log(`summarize API: Received request to summarize PDF: ${pdfUrl} (Title: ${safePaperTitle})`);
-
-    const modelName = "gemini-2.0-flash";
-
-    const tempDir = os.tmpdir();
-    const uniqueFileName = `summary_paper_${Date.now()}_${path.basename(new URL(pdfUrl).pathname) || 'downloaded.pdf'}`.replace(/[^a-zA-Z0-9_.-]/g, '_');
-    const tempFilePath = path.join(tempDir, uniqueFileName);
-    
-    let uploadedFileResponse; 
-
-    try {
-      console.log(`summarize API: Downloading PDF to temporary path: ${tempFilePath}`);
-      await downloadFile(pdfUrl, tempFilePath);
-
-      console.log(`summarize API: Uploading file "${tempFilePath}" to Gemini.`);
-      uploadedFileResponse = await ai.files.upload({
-        file: tempFilePath,
-        config: { mimeType: 'application/pdf' },
-      });
-      console.log(`summarize API: File uploaded to Gemini. Name: ${uploadedFileResponse.name}, URI: ${uploadedFileResponse.uri}`);
-
-      const contents = [
-        { 
-          fileData: {
-            mimeType: uploadedFileResponse.mimeType,
-            fileUri: uploadedFileResponse.uri,
-          }
-        },
-        { 
-          text: `あなたは学術論文を分析し、その内容を簡潔かつ正確に要約する専門家です。以下の論文「${safePaperTitle}」について、その主要な目的、採用された手法、得られた主要な結果、そして研究の最も重要な貢献や新規性が明確にわかるように、日本語で包括的な要約を作成してください。専門用語は適度に解説を加え、専門外の研究者や学生にも理解しやすい言葉遣いを心がけてください。要約の長さは、論文の複雑さに応じて調整し、重要な情報が欠落しない範囲で、できるだけ簡潔にまとめてください。`
-        }
-      ];
-
-      console.log(`summarize API: Generating summary with model ${modelName}.`);
-      const generationResponse = await ai.models.generateContent({
-        model: modelName,
-        contents: contents,
-        config: {
-          temperature: 0.4,
-        }
-      });
-      console.log(`summarize API: Summary generation completed.`);
-
-      const summary = generationResponse.text;
-
-      if (!summary) {
-        console.error('summarize API: Gemini API returned no summary text.', generationResponse);
-        return NextResponse.json({ error: '要約の生成に失敗しました。APIからの応答が空でした。' }, { status: 500 });
-      }
-
-      console.log(`summarize API: Summary generated (first 100 chars): ${summary.substring(0, 100)}...`);
-      return NextResponse.json({ summary });
-
-    } finally {
-      if (uploadedFileResponse && uploadedFileResponse.name) {
-        try {
-          console.log(`summarize API: Deleting uploaded file from Gemini: ${uploadedFileResponse.name}`);
-          await ai.files.delete({ name: uploadedFileResponse.name }); 
-          console.log(`summarize API: Gemini file ${uploadedFileResponse.name} deleted successfully.`);
-        } catch (deleteError) {
-          console.error(`summarize API: Error deleting Gemini file ${uploadedFileResponse.name}:`, deleteError);
-        }
-      }
+    return createAiStreamResponse<{ cache: SummaryCacheInfo; structured: StructuredSummary }>(request, async (send, signal) => {
+      let sentLength = 0;
+      const onDelta = (text: string) => {
+        sentLength += text.length;
+        send({ type: 'delta', text });
+      };
       try {
-        console.log(`summarize API: Attempting to delete temporary local file: ${tempFilePath}`);
-        await fs.access(tempFilePath);
-        await fs.unlink(tempFilePath);
-        console.log(`summarize API: Temporary local file ${tempFilePath} deleted successfully.`);
-      } catch (unlinkError) {
-        if (unlinkError && typeof unlinkError === 'object' && 'code' in unlinkError) {
-          const nodeError = unlinkError as NodeJS.ErrnoException;
-          if (nodeError.code !== 'ENOENT') {
-            console.error(`summarize API: Error deleting temporary local file ${tempFilePath}:`, nodeError);
-          } else {
-            console.log(`summarize API: Temporary local file ${tempFilePath} not found for deletion (ENOENT).`);
-          }
-        } else {
-          console.error(`summarize API: An unexpected error type occurred while deleting temporary local file ${tempFilePath}:`, unlinkError);
+        const { summary, cache } = await getOrCreateSummary(
+          cacheKeyParts,
+          (onGeneratedDelta, generationSignal) => generateSummary(llm, input, safePaperTitle, options, onGeneratedDelta, generationSignal),
+          { regenerate: regenerate === true, onDelta, signal },
+        );
+        // キャッシュから返した場合・生成中の別リクエストに相乗りした場合は、まだ送っていない分をまとめて送る
+        if (summary.length > sentLength) send({ type: 'delta', text: summary.slice(sentLength) });
+        send({ type: 'done', meta: { cache, structured: toSummaryResponse(summary).structured } });
+      } catch (error) {
+        if (signal.aborted) {
+          console.log('summarize API: Client cancelled the summary stream.');
+          return;
         }
+        console.error('summarize API: Error while streaming summary:', error);
+        const errorMessage = error instanceof Error ? error.message : '不明なサーバーエラーが発生しました。';
+        send({ type: 'error', error: `要約生成中にサーバーエラーが発生しました: ${errorMessage}` });
       }
-    }
+    });
   } catch (error) {
     console.error('summarize API: Unhandled error occurred:', error);
     const errorMessage = error instanceof Error ? error.message : '不明なサーバーエラーが発生しました。';
-    return NextResponse.json({ error: `要約生成中にサーバーエラーが発生しました: ${errorMessage}` }, { status: 500 });
+    const status = error instanceof LlmError ? error.status : 500;
+    return NextResponse.json({ error: `要約生成中にサーバーエラーが発生しました: ${errorMessage}` }, { status });
   }
 }
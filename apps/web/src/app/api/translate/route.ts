@@ -0,0 +1,90 @@
+// apps/web/src/app/api/translate/route.ts
+// Abstract を文ごとに日本語へ翻訳する。原文と訳文の文は同じ順番・同じ数で返す。
+import { NextResponse } from 'next/server';
+import { generateWithLlm, LlmError, resolveLlmRouteConfig, type LlmJsonSchema } from '@/lib/llm';
+import { maskMath, restoreMath, splitSentences, type AbstractTranslation } from '@/lib/abstractTranslation';
+
+const MAX_ABSTRACT_LENGTH = 10000;
+const MAX_SENTENCES = 80;
+
+const TRANSLATION_SCHEMA: LlmJsonSchema = {
+  type: 'object',
+  properties: {
+    translations: { type: 'array', items: { type: 'string' }, description: '入力と同じ順番・同じ数の日本語訳' },
+  },
+};
+
+function buildTranslationPrompt(paperTitle: string, maskedSentences: string[]): string {
+  return `以下は論文「${paperTitle}」の Abstract を1文ずつに分けた JSON 配列です。各文を、意味やニュアンスを変えずに自然な日本語へ翻訳してください。
+- 出力は { "translations": [...] } の形の JSON オブジェクトのみとし、前後に説明文を付けないでください。
+- translations は入力と同じ順番・同じ数 (${maskedSentences.length} 個) にし、文をまとめたり分けたりしないでください。
+- ⟦M0⟧ のような記号は数式です。翻訳せず、訳文の対応する位置にそのまま残してください。
+- 専門用語は、定着した訳語が無ければ英語のまま、または訳語の後に括弧で英語を添えてください。
+
+${JSON.stringify(maskedSentences, null, 2)}`;
+}
+
+// ```json のコードブロックで囲まれていても受け付ける
+function parseTranslations(text: string): string[] | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end < start) return null;
+  try {
+    const { translations } = JSON.parse(text.slice(start, end + 1));
+    return Array.isArray(translations) && translations.every(t => typeof t === 'string') ? translations : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { abstract, paperTitle } = await request.json();
+
+    if (typeof abstract !== 'string' || !abstract.trim()) {
+      console.warn('translate API: Invalid request - abstract is missing or not a string.');
+      return NextResponse.json({ error: '翻訳する Abstract が必要です。' }, { status: 400 });
+    }
+    const sentences = splitSentences(abstract.slice(0, MAX_ABSTRACT_LENGTH)).slice(0, MAX_SENTENCES);
+    const safePaperTitle = typeof paperTitle === 'string' ? paperTitle : '提示された論文';
+    console.log(`translate API: Received request to translate ${sentences.length} sentences (Title: ${safePaperTitle})`);
+
+    const llm = resolveLlmRouteConfig('translate');
+    const masked = sentences.map(sentence => maskMath(sentence));
+    const output = await generateWithLlm(
+      llm,
+      {
+        messages: [{ role: 'user', text: buildTranslationPrompt(safePaperTitle, masked.map(m => m.masked)) }],
+        responseSchema: TRANSLATION_SCHEMA,
+        signal: request.signal,
+      },
+      () => {},
+    );
+
+    const translations = parseTranslations(output);
+    if (!translations) {
+      console.error(`translate API: LLM returned a translation that does not match the schema: ${output.substring(0, 200)}`);
+      throw new LlmError('翻訳に失敗しました。AIの応答の形式が正しくありません。');
+    }
+    if (translations.length !== sentences.length) { // 文の対応が崩れるので使わない
+      console.error(`translate API: Expected ${sentences.length} translations but got ${translations.length}.`);
+      throw new LlmError('翻訳に失敗しました。原文と訳文の文の数が一致しませんでした。もう一度お試しください。');
+    }
+
+    const translation: AbstractTranslation = {
+      sentences: sentences.map((source, index) => ({
+        source,
+        translation: restoreMath(translations[index].trim(), masked[index].segments),
+      })),
+      model: llm.modelLabel,
+      createdAt: new Date().toISOString(),
+    };
+    console.log(`translate API: Translated ${translation.sentences.length} sentences with ${llm.provider.label} (${llm.model}).`);
+    return NextResponse.json({ translation });
+  } catch (error) {
+    console.error('translate API: Unhandled error occurred:', error);
+    const errorMessage = error instanceof Error ? error.message : '不明なサーバーエラーが発生しました。';
+    const status = error instanceof LlmError ? error.status : 500;
+    return NextResponse.json({ error: `翻訳中にサーバーエラーが発生しました: ${errorMessage}` }, { status });
+  }
+}
@@ -0,0 +1,195 @@
+// apps/web/src/app/history/page.tsx
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useLikedPapers, type Paper } from '@/contexts/LikedPapersContext';
+import { useReadLater } from '@/contexts/ReadLaterContext';
+import { useSwipeHistory, type SwipeDecision, type SwipeHistoryEntry } from '@/contexts/SwipeHistoryContext';
+import { getPaperSourceLabel } from '@/lib/paperSources/catalog';
+import styles from './history.module.css';
+import { ClockIcon, HeartIcon, XMarkIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+
+type HistoryFilter = 'all' | SwipeDecision;
+
+const FILTER_LABELS: Record<HistoryFilter, string> = {
+  all: 'すべて',
+  dislike: '興味なし',
+  like: 'いいね',
+  later: 'あとで読む',
+};
+
+const DECISION_BADGE_CLASSES: Record<SwipeDecision, string> = {
+  like: styles.decisionLike,
+  dislike: styles.decisionDislike,
+  later: styles.decisionLater,
+};
+
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleString('ja-JP', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export default function HistoryPage() {
+  const { history, reviseDecision, removeHistoryEntry, clearHistory, isLoadingHistory } = useSwipeHistory();
+  const { addLikedPaper, removeLikedPaper, isPaperLiked } = useLikedPapers();
+  const { readLaterPapers, removeFromReadLater, isInReadLater } = useReadLater();
+  const [filter, setFilter] = useState<HistoryFilter>('dislike');
+  const [likingIds, setLikingIds] = useState<Set<string>>(new Set()); // ライブラリに追加するために論文を取得中
+
+  const counts = useMemo(() => ({
+    all: history.length,
+    dislike: history.filter(entry => entry.decision === 'dislike').length,
+    like: history.filter(entry => entry.decision === 'like').length,
+    later: history.filter(entry => entry.decision === 'later').length,
+  }), [history]);
+  const visibleEntries = filter === 'all' ? history : history.filter(entry => entry.decision === filter);
+
+  // 履歴には Abstract を切り詰めて保存しているので、あとで読むに保存した論文か、取得し直した論文を使う
+  const fetchFullPaper = async (entry: SwipeHistoryEntry): Promise<Paper> => {
+    const savedPaper = readLaterPapers.find(p => p.id === entry.paperId);
+    if (savedPaper) return savedPaper;
+    const response = await fetch(`/api/papers?id_list=${encodeURIComponent(entry.paperId)}`);
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Status: ${response.status}`);
+    }
+    const papers: Paper[] = await response.json();
+    const paper = papers.find(p => p.id === entry.paperId) ?? papers[0];
+    if (!paper) throw new Error('論文が見つかりませんでした。');
+    return paper;
+  };
+
+  // 興味なし / あとで読む → いいね: ライブラリに追加する
+  const handleChangeToLike = async (entry: SwipeHistoryEntry) => {
+    if (likingIds.has(entry.paperId)) return;
+    if (!isPaperLiked(entry.paperId)) {
+      setLikingIds(prev => new Set(prev).add(entry.paperId));
+      try {
+        addLikedPaper(await fetchFullPaper(entry));
+      } catch (error) {
+        console.error('Failed to fetch paper before adding it to the library:', error);
+        alert(`論文の取得に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`);
+        return;
+      } finally {
+        setLikingIds(prev => { const next = new Set(prev); next.delete(entry.paperId); return next; });
+      }
+    }
+    removeFromReadLater(entry.paperId);
+    reviseDecision(entry.paperId, 'like');
+  };
+
+  // いいね / あとで読む → 興味なし: ライブラリ・あとで読むからも削除する
+  const handleChangeToDislike = (entry: SwipeHistoryEntry) => {
+    if (isPaperLiked(entry.paperId) && !confirm(`「${entry.paper.title}」をライブラリから削除して興味なしに変更しますか？`)) return;
+    removeLikedPaper(entry.paperId);
+    if (isInReadLater(entry.paperId)) removeFromReadLater(entry.paperId);
+    reviseDecision(entry.paperId, 'dislike');
+  };
+
+  const handleClearHistory = () => {
+    if (confirm('スワイプ履歴をすべて削除しますか？判定済みの論文が再びフィードに表示されるようになります。')) {
+      clearHistory();
+    }
+  };
+
+  if (isLoadingHistory) {
+    return (
+      <div className={styles.loadingContainer}>
+        <div className={styles.spinner}></div>
+        <p>履歴を読み込み中...</p>
+      </div>
+    );
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className={styles.emptyContainer}>
+        <ClockIcon className={styles.emptyIcon} />
+        <h2 className={styles.emptyTitle}>スワイプ履歴はありません</h2>
+        <p className={styles.emptyText}>
+          ホームページでスワイプした論文がここに記録され、
+          <br />
+          同じ論文が再びフィードに表示されなくなります。
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.historyPageContainer}>
+      <header className={styles.header}>
+        <h1 className={styles.pageTitle}>スワイプ履歴</h1>
+        <p className={styles.pageSubtitle}>判定済みの論文 {history.length} 件はフィードに表示されません</p>
+      </header>
+
+      <div className={styles.toolbar}>
+        <div className={styles.filterTabs} role="tablist">
+          {(Object.keys(FILTER_LABELS) as HistoryFilter[]).map(key => (
+            <button
+              key={key}
+              type="button"
+              role="tab"
+              aria-selected={filter === key}
+              onClick={() => setFilter(key)}
+              className={`${styles.filterTab} ${filter === key ? styles.filterTabActive : ''}`}
+            >
+              {FILTER_LABELS[key]} ({counts[key]})
+            </button>
+          ))}
+        </div>
+        <button type="button" onClick={handleClearHistory} className={styles.clearButton}>履歴をすべて削除</button>
+      </div>
+
+      {visibleEntries.length === 0 ? (
+        <p className={styles.emptyFilterText}>{FILTER_LABELS[filter]}の履歴はありません。</p>
+      ) : (
+        <ul className={styles.historyList}>
+          {visibleEntries.map(entry => (
+            <li key={entry.paperId} className={styles.historyItem}>
+              <div className={styles.historyInfo}>
+                <div className={styles.historyMeta}>
+                  <span className={`${styles.decisionBadge} ${DECISION_BADGE_CLASSES[entry.decision]}`}>
+                    {FILTER_LABELS[entry.decision]}
+                  </span>
+                  <span>{formatTimestamp(entry.timestamp)}</span>
+                  {entry.paper.source && entry.paper.source !== 'arxiv' && <span>{getPaperSourceLabel(entry.paper.source)}</span>}
+                  {entry.sourceQuery && <span className={styles.sourceQuery}>検索: {entry.sourceQuery}</span>}
+                </div>
+                {entry.paper.pdfLink ? (
+                  <a href={entry.paper.pdfLink} target="_blank" rel="noopener noreferrer" className={styles.paperTitleLink}>{entry.paper.title}</a>
+                ) : (
+                  <span className={styles.paperTitleLink}>{entry.paper.title}</span>
+                )}
+                {entry.paper.authors.length > 0 && (
+                  <p className={styles.authors}>
+                    {entry.paper.authors.slice(0, 3).join(', ')}{entry.paper.authors.length > 3 ? ' et al.' : ''}
+                  </p>
+                )}
+              </div>
+              <div className={styles.historyActions}>
+                {entry.decision !== 'like' && (
+                  <button type="button" onClick={() => handleChangeToLike(entry)} className={styles.actionButton} title="いいねに変更してライブラリに追加" disabled={likingIds.has(entry.paperId)}>
+                    <HeartIcon className={styles.actionIcon} />
+                    <span>{likingIds.has(entry.paperId) ? '取得中...' : 'いいねに変更'}</span>
+                  </button>
+                )}
+                {entry.decision !== 'dislike' && (
+                  <button type="button" onClick={() => handleChangeToDislike(entry)} className={styles.actionButton} title="興味なしに変更">
+                    <XMarkIcon className={styles.actionIcon} />
+                    <span>興味なしに変更</span>
+                  </button>
+                )}
+                {entry.decision === 'dislike' && ( /* いいねした論文はライブラリにあるのでフィードには戻さない */
+                  <button type="button" onClick={() => removeHistoryEntry(entry.paperId)} className={styles.actionButton} title="履歴から削除して再びフィードに表示する">
+                    <ArrowUturnLeftIcon className={styles.actionIcon} />
+                    <span>フィードに戻す</span>
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
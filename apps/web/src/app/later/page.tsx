@@ -0,0 +1,76 @@
+// apps/web/src/app/later/page.tsx
+'use client';
+
+import React from 'react';
+import { useLikedPapers, type Paper } from '@/contexts/LikedPapersContext';
+import { useReadLater } from '@/contexts/ReadLaterContext';
+import { useSwipeHistory } from '@/contexts/SwipeHistoryContext';
+import PaperCard from '@/components/PaperCard';
+import styles from './later.module.css';
+import paperCardStyles from '@/components/PaperCard.module.css';
+import { ClockIcon } from '@heroicons/react/24/outline';
+
+export default function ReadLaterPage() {
+  const { readLaterPapers, removeFromReadLater, isLoadingReadLater } = useReadLater();
+  const { addLikedPaper } = useLikedPapers();
+  const { reviseDecision } = useSwipeHistory();
+
+  // ライブラリに昇格させる (スワイプ履歴もいいねに変更)
+  const handlePromote = (paper: Paper) => {
+    addLikedPaper(paper);
+    removeFromReadLater(paper.id);
+    reviseDecision(paper.id, 'like');
+  };
+
+  // キューから外す (スワイプ履歴は興味なしに変更し、フィードには戻さない)
+  const handleDismiss = (paper: Paper) => {
+    removeFromReadLater(paper.id);
+    reviseDecision(paper.id, 'dislike');
+  };
+
+  if (isLoadingReadLater) {
+    return (
+      <div className={styles.loadingContainer}>
+        <div className={styles.spinner}></div>
+        <p>あとで読むリストを読み込み中...</p>
+      </div>
+    );
+  }
+
+  if (readLaterPapers.length === 0) {
+    return (
+      <div className={styles.emptyContainer}>
+        <ClockIcon className={styles.emptyIcon} />
+        <h2 className={styles.emptyTitle}>あとで読む論文はありません</h2>
+        <p className={styles.emptyText}>
+          ホームページで論文を上にスワイプするか「あとで」ボタンを押すと、
+          <br />
+          ここに保存されます。
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.laterPageContainer}>
+      <header className={styles.header}>
+        <h1 className={styles.pageTitle}>あとで読む</h1>
+        <p className={styles.pageSubtitle}>
+          {readLaterPapers.length} 件の論文があります。「興味あり」でライブラリに追加、「興味なし」でリストから外します。
+        </p>
+      </header>
+      <ul className={styles.paperList}>
+        {readLaterPapers.map((paper) => (
+          <PaperCard
+            key={paper.id}
+            paper={paper}
+            onLike={handlePromote}
+            onDislike={() => handleDismiss(paper)}
+            showSwipeButtons={true}
+            className={`${paperCardStyles.card} ${paperCardStyles.static}`}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+}
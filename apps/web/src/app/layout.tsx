@@ -2,7 +2,12 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import { AccountProvider } from "@/contexts/AccountContext";
 import { LikedPapersProvider } from "@/contexts/LikedPapersContext";
+import { FeedPreferencesProvider } from "@/contexts/FeedPreferencesContext";
+import { SummaryPreferencesProvider } from "@/contexts/SummaryPreferencesContext";
+import { SwipeHistoryProvider } from "@/contexts/SwipeHistoryContext";
+import { ReadLaterProvider } from "@/contexts/ReadLaterContext";
 import Footer from "@/components/Footer";
 
 const geistSans = Geist({
@@ -25,14 +30,24 @@ export default function RootLayout({ children }: { children: React.ReactNode })
   return (
     <html lang="ja" className={`${geistSans.variable} ${geistMono.variable}`}>
       <body suppressHydrationWarning={true}>
-        <LikedPapersProvider>
-          <div className="app-container">
-            <main className="main-content-wrapper">
-              {children}
-            </main>
-            <Footer />
-          </div>
-        </LikedPapersProvider>
+        <AccountProvider>
+          <LikedPapersProvider>
+            <ReadLaterProvider>
+              <SwipeHistoryProvider>
+                <FeedPreferencesProvider>
+                  <SummaryPreferencesProvider>
+                    <div className="app-container">
+                      <main className="main-content-wrapper">
+                        {children}
+                      </main>
+                      <Footer />
+                    </div>
+                  </SummaryPreferencesProvider>
+                </FeedPreferencesProvider>
+              </SwipeHistoryProvider>
+            </ReadLaterProvider>
+          </LikedPapersProvider>
+        </AccountProvider>
       </body>
     </html>
   );
@@ -1,31 +1,72 @@
 // apps/web/src/app/library/[paperId]/page.tsx
 'use client';
 
-import React, { useState, useEffect, FormEvent } from 'react';
+import React, { useState, useEffect, useMemo, useRef, FormEvent } from 'react';
 import { useParams, useRouter } from 'next/navigation'; // useParamsでURLパラメータを取得
-import { useLikedPapers, type Paper } from '@/contexts/LikedPapersContext';
+import { useLikedPapers, type HighlightSource, type Paper, type PaperChatMessage, type PaperChatThread, type PaperHighlight } from '@/contexts/LikedPapersContext';
 import FormattedTextRenderer from '@/components/FormattedTextRenderer';
+import StructuredSummaryView from '@/components/StructuredSummaryView';
+import TagEditor from '@/components/TagEditor';
+import PaperNotesEditor from '@/components/PaperNotesEditor';
+import BilingualAbstract from '@/components/BilingualAbstract';
+import { isAbortError, readAiStream } from '@/lib/aiStream';
+import { isTranslationOf } from '@/lib/abstractTranslation';
+import { requestAbstractTranslation } from '@/lib/translationClient';
+import { DEFAULT_SUMMARY_OPTIONS, describeSummaryOptions, summaryVariantKey } from '@/lib/summaryOptions';
 import styles from './detailPage.module.css'; // CSS Modules ファイル名に合わせて変更
-import { ArrowLeftIcon, ChatBubbleLeftEllipsisIcon, PaperAirplaneIcon, SparklesIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { ArrowLeftIcon, ArrowsRightLeftIcon, BookmarkIcon, ChatBubbleLeftEllipsisIcon, ClipboardDocumentIcon, FolderIcon, LanguageIcon, PaperAirplaneIcon, PencilSquareIcon, SparklesIcon, StopIcon, TrashIcon } from '@heroicons/react/24/outline';
 
-interface ChatMessage {
-  role: 'user' | 'ai';
-  content: string;
+const NEW_COLLECTION_OPTION = '__new__'; // コレクション選択で「新しいコレクション」を選んだ時の値
+const MAX_HIGHLIGHT_LENGTH = 2000; // 1つのハイライトとして保存する最大文字数
+
+const HIGHLIGHT_SOURCE_LABELS: Record<HighlightSource, string> = {
+  abstract: 'Abstract',
+  aiSummary: 'AI要約',
+};
+
+const NEW_CHAT_THREAD = '__new__'; // 「新しい会話」を選んだ時の値
+const COPIED_LABEL_MS = 2000;
+
+const chatRoleLabel = (message: PaperChatMessage) => message.role === 'user' ? 'あなた' : 'AI';
+
+function formatChatThread(thread: PaperChatThread): string {
+  return thread.messages.map(m => `${chatRoleLabel(m)}:\n${m.content}`).join('\n\n');
+}
+
+// 会話の一覧に表示する名前 (最初の質問の冒頭)
+function chatThreadLabel(thread: PaperChatThread): string {
+  const firstQuestion = thread.messages.find(m => m.role === 'user')?.content.trim() ?? '';
+  const title = firstQuestion.length > 30 ? `${firstQuestion.slice(0, 30)}…` : firstQuestion || '(空の会話)';
+  return `${thread.branchedFrom ? '↳ ' : ''}${title} (${thread.messages.length}件)`;
 }
 
 export default function PaperDetailPage() {
   const params = useParams();
   const router = useRouter();
-  const { likedPapers, removeLikedPaper } = useLikedPapers();
+  const {
+    likedPapers, removeLikedPaper, collections, createCollection, movePapersToCollection, addTagsToPapers, removeTagFromPaper,
+    updatePaperNotes, addHighlight, updateHighlightComment, removeHighlight,
+    appendChatMessages, branchChatThread, deleteChatThread, updateLikedPaperSummary, updateLikedPaperTranslation,
+  } = useLikedPapers();
 
   const [paper, setPaper] = useState<Paper | null>(null);
   const [showFullAbstract, setShowFullAbstract] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [showOriginalAbstract, setShowOriginalAbstract] = useState(false); // 翻訳済みでも原文だけを表示する
   const [question, setQuestion] = useState('');
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null); // null は最後に更新した会話
+  const [copiedKey, setCopiedKey] = useState<string | null>(null); // 「コピーしました」と表示するボタン
   const [isAskingAi, setIsAskingAi] = useState(false);
   const [aiError, setAiError] = useState<string | null>(null);
+  const [streamingAnswer, setStreamingAnswer] = useState(''); // 生成中の回答 (ストリーミングで届いた分)
+  const askAbortRef = useRef<AbortController | null>(null);
+  const [pendingHighlight, setPendingHighlight] = useState<{ source: HighlightSource; text: string } | null>(null);
+  const [highlightComment, setHighlightComment] = useState('');
+  const summaryContentRef = useRef<HTMLDivElement>(null);
+  const abstractContentRef = useRef<HTMLDivElement>(null);
 
-  const paperId = typeof params.paperId === 'string' ? params.paperId : undefined;
+  // "openalex:W123" や旧形式の arXiv ID (hep-th/9901001) はエンコードされて渡ってくる
+  const paperId = typeof params.paperId === 'string' ? decodeURIComponent(params.paperId) : undefined;
 
   useEffect(() => {
     if (paperId) {
@@ -40,6 +81,94 @@ export default function PaperDetailPage() {
     }
   }, [paperId, likedPapers, router]);
 
+  useEffect(() => setActiveThreadId(null), [paperId]); // 別の論文に移ったら最後の会話を表示する
+
+  useEffect(() => () => askAbortRef.current?.abort(), []); // ページを離れたら回答の生成を止める
+
+  // ライブラリ内の既存タグをタグ入力の候補にする
+  const tagSuggestions = useMemo(
+    () => Array.from(new Set(likedPapers.flatMap(p => p.tags ?? []))).sort((a, b) => a.localeCompare(b)),
+    [likedPapers]
+  );
+
+  const handleCollectionChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (!paper) return;
+    if (e.target.value === NEW_COLLECTION_OPTION) {
+      const name = prompt('新しいコレクションの名前を入力してください');
+      if (name === null) return;
+      const collection = createCollection(name);
+      if (!collection) {
+        alert(name.trim() ? `「${name.trim()}」という名前のコレクションは既にあります。` : 'コレクション名を入力してください。');
+        return;
+      }
+      movePapersToCollection([paper.id], collection.id);
+      return;
+    }
+    movePapersToCollection([paper.id], e.target.value || null);
+  };
+
+  // Abstract / AI要約の中で選択されたテキストをハイライト候補にする
+  // (コメント入力にフォーカスすると選択は解除されるので、候補は明示的にキャンセルするまで残す)
+  const handleTextSelection = (source: HighlightSource) => {
+    const container = source === 'abstract' ? abstractContentRef.current : summaryContentRef.current;
+    const selection = window.getSelection();
+    if (!container || !selection || selection.isCollapsed || selection.rangeCount === 0) return;
+    if (!container.contains(selection.getRangeAt(0).commonAncestorContainer)) return;
+    const text = selection.toString().replace(/\s+/g, ' ').trim();
+    if (!text) return;
+    setPendingHighlight({ source, text: text.slice(0, MAX_HIGHLIGHT_LENGTH) });
+  };
+
+  const handleSaveHighlight = () => {
+    if (!paper || !pendingHighlight) return;
+    addHighlight(paper.id, pendingHighlight.source, pendingHighlight.text, highlightComment);
+    setPendingHighlight(null);
+    setHighlightComment('');
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const handleCancelHighlight = () => {
+    setPendingHighlight(null);
+    setHighlightComment('');
+  };
+
+  const handleEditHighlightComment = (highlight: PaperHighlight) => {
+    if (!paper) return;
+    const comment = prompt('コメントを編集', highlight.comment);
+    if (comment === null) return;
+    updateHighlightComment(paper.id, highlight.id, comment);
+  };
+
+  const handleRemoveHighlight = (highlight: PaperHighlight) => {
+    if (!paper) return;
+    if (confirm('このハイライトを削除しますか？')) {
+      removeHighlight(paper.id, highlight.id);
+    }
+  };
+
+  const renderHighlightComposer = (source: HighlightSource) => {
+    if (pendingHighlight?.source !== source) return null;
+    return (
+      <div className={styles.highlightComposer}>
+        <blockquote className={styles.highlightQuote}><FormattedTextRenderer text={pendingHighlight.text} /></blockquote>
+        <textarea
+          value={highlightComment}
+          onChange={(e) => setHighlightComment(e.target.value)}
+          placeholder="コメント (任意)"
+          className={styles.highlightCommentInput}
+          rows={2}
+        />
+        <div className={styles.highlightComposerActions}>
+          <button type="button" onClick={handleCancelHighlight} className={styles.highlightCancelButton}>キャンセル</button>
+          <button type="button" onClick={handleSaveHighlight} className={styles.highlightSaveButton}>
+            <BookmarkIcon className={styles.highlightButtonIcon} />
+            ハイライトとして保存
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   const handleRemoveFromLibrary = () => {
     if (paper) {
       // 確認ダイアログを挟むのが親切
@@ -50,16 +179,39 @@ export default function PaperDetailPage() {
     }
   };
 
+  const summaryVariants = useMemo(() => Object.entries(paper?.aiSummaryVariants ?? {}), [paper]);
+  // Abstract が更新された後の古い翻訳は表示しない
+  const abstractTranslation = paper?.abstractTranslation && isTranslationOf(paper.abstractTranslation, paper.summary) ? paper.abstractTranslation : undefined;
+  const activeSummaryVariantKey = summaryVariantKey(paper?.aiSummaryOptions ?? DEFAULT_SUMMARY_OPTIONS);
+
+  const chatThreads = useMemo(() => paper?.chatThreads ?? [], [paper]);
+  const activeThread = useMemo(() => {
+    if (activeThreadId === NEW_CHAT_THREAD) return null;
+    return chatThreads.find(t => t.id === activeThreadId)
+      ?? chatThreads.reduce<PaperChatThread | null>((latest, t) => !latest || t.updatedAt > latest.updatedAt ? t : latest, null);
+  }, [chatThreads, activeThreadId]);
+
   const handleAskAi = async (e: FormEvent) => {
     e.preventDefault();
     if (!question.trim() || !paper || !paper.pdfLink || isAskingAi) return;
 
     setIsAskingAi(true);
     setAiError(null);
-    const userMessage: ChatMessage = { role: 'user', content: question };
-    setChatHistory((prev) => [...prev, userMessage]);
+    // エラー表示は文脈に含めない
+    const history = (activeThread?.messages ?? [])
+      .filter(m => !m.isError)
+      .map(m => ({ role: m.role, content: m.content }));
+    const userMessage: PaperChatMessage = { role: 'user', content: question, createdAt: new Date().toISOString() };
+    const threadId = appendChatMessages(paper.id, activeThread?.id ?? null, [userMessage]);
+    setActiveThreadId(threadId);
     setQuestion(''); // 入力欄をクリア
+    const appendAiMessage = (content: string, isError = false) => {
+      appendChatMessages(paper.id, threadId, [{ role: 'ai', content, createdAt: new Date().toISOString(), ...(isError ? { isError } : {}) }]);
+    };
 
+    const abortController = new AbortController();
+    askAbortRef.current = abortController;
+    let partialAnswer = '';
     try {
       const response = await fetch('/api/ask-ai', {
         method: 'POST',
@@ -68,7 +220,10 @@ export default function PaperDetailPage() {
           question: userMessage.content,
           pdfUrl: paper.pdfLink,
           paperTitle: paper.title,
+          history,
+          stream: true,
         }),
+        signal: abortController.signal,
       });
 
       if (!response.ok) {
@@ -76,20 +231,70 @@ export default function PaperDetailPage() {
         throw new Error(errorData.error || `AIへの質問に失敗しました (Status: ${response.status})`);
       }
 
-      const data = await response.json();
-      const aiMessage: ChatMessage = { role: 'ai', content: data.answer };
-      setChatHistory((prev) => [...prev, aiMessage]);
+      const { text } = await readAiStream(response, (_, fullText) => {
+        partialAnswer = fullText;
+        setStreamingAnswer(fullText);
+      });
+      appendAiMessage(text);
     } catch (error) {
+      if (isAbortError(error)) {
+        // 途中まで届いた回答は残しておく
+        if (partialAnswer) appendAiMessage(`${partialAnswer}\n\n（中断しました）`);
+        else appendAiMessage('（中断しました）', true);
+        return;
+      }
       console.error("Error asking AI:", error);
       const errorMessage = error instanceof Error ? error.message : "不明なエラーが発生しました。";
       setAiError(`AIへの質問中にエラーが発生しました: ${errorMessage}`);
-      // エラーメッセージをチャット履歴に追加することも検討
-      setChatHistory((prev) => [...prev, { role: 'ai', content: `エラー: ${errorMessage}` }]);
+      appendAiMessage(`エラー: ${errorMessage}`, true);
     } finally {
+      askAbortRef.current = null;
+      setStreamingAnswer('');
       setIsAskingAi(false);
     }
   };
 
+  const handleCancelAskAi = () => askAbortRef.current?.abort();
+
+  const handleTranslateAbstract = async () => {
+    if (!paper || isTranslating) return;
+    setIsTranslating(true);
+    try {
+      updateLikedPaperTranslation(paper.id, await requestAbstractTranslation(paper));
+      setShowOriginalAbstract(false);
+    } catch (error) {
+      console.error('Failed to translate abstract:', error);
+      alert(`翻訳エラー: ${error instanceof Error ? error.message : '不明なエラー'}`);
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const handleCopyChat = async (key: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedKey(key);
+      setTimeout(() => setCopiedKey((current) => current === key ? null : current), COPIED_LABEL_MS);
+    } catch (error) {
+      console.error('Failed to copy chat to clipboard:', error);
+      alert('クリップボードへのコピーに失敗しました。');
+    }
+  };
+
+  const handleBranchChat = (messageCount: number) => {
+    if (!paper || !activeThread) return;
+    const branchId = branchChatThread(paper.id, activeThread.id, messageCount);
+    if (branchId) setActiveThreadId(branchId);
+  };
+
+  const handleClearChat = () => {
+    if (!paper || !activeThread) return;
+    if (confirm('この会話を削除しますか？')) {
+      deleteChatThread(paper.id, activeThread.id);
+      setActiveThreadId(null);
+    }
+  };
+
 
   if (!paper) {
     return (
@@ -129,22 +334,137 @@ export default function PaperDetailPage() {
           </div>
         </header>
 
+        <section className={styles.organizeSection}>
+          <h2 className={styles.sectionTitle}><FolderIcon className={styles.sectionIcon} />整理</h2>
+          <label className={styles.organizeField}>
+            <span className={styles.organizeLabel}>コレクション</span>
+            <select
+              value={paper.collectionId && collections.some(c => c.id === paper.collectionId) ? paper.collectionId : ''}
+              onChange={handleCollectionChange}
+              className={styles.collectionSelect}
+            >
+              <option value="">未分類</option>
+              {collections.map(collection => (
+                <option key={collection.id} value={collection.id}>{collection.name}</option>
+              ))}
+              <option value={NEW_COLLECTION_OPTION}>＋ 新しいコレクション...</option>
+            </select>
+          </label>
+          <div className={styles.organizeField}>
+            <span className={styles.organizeLabel}>タグ</span>
+            <TagEditor
+              tags={paper.tags ?? []}
+              onAddTags={(tags) => addTagsToPapers([paper.id], tags)}
+              onRemoveTag={(tag) => removeTagFromPaper(paper.id, tag)}
+              suggestions={tagSuggestions}
+            />
+          </div>
+        </section>
+
         {paper.aiSummary && (
           <section className={styles.summarySection}>
             <h2 className={styles.sectionTitle}><SparklesIcon className={styles.sectionIcon} />AIによる要約</h2>
-            <div className={styles.summaryContent}><FormattedTextRenderer text={paper.aiSummary} /></div>
+            {summaryVariants.length > 1 && ( // 設定を変えて生成した要約を切り替える (エクスポートやハイライトは表示中の要約が対象)
+              <div className={styles.summaryVariantTabs} role="tablist" aria-label="要約の設定">
+                {summaryVariants.map(([key, variant]) => (
+                  <button
+                    key={key}
+                    type="button"
+                    role="tab"
+                    aria-selected={key === activeSummaryVariantKey}
+                    onClick={() => updateLikedPaperSummary(paper.id, variant)}
+                    className={`${styles.summaryVariantTab} ${key === activeSummaryVariantKey ? styles.summaryVariantTabActive : ''}`}
+                  >
+                    {describeSummaryOptions(variant.options)}{variant.source === 'abstract' ? ' (Abstractのみ)' : ''}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div
+              ref={summaryContentRef}
+              className={styles.summaryContent}
+              onMouseUp={() => handleTextSelection('aiSummary')}
+              onTouchEnd={() => handleTextSelection('aiSummary')}
+              onKeyUp={() => handleTextSelection('aiSummary')}
+            >
+              {paper.aiSummaryStructured ? (
+                <StructuredSummaryView summary={paper.aiSummaryStructured} variant="full" />
+              ) : (
+                <FormattedTextRenderer text={paper.aiSummary} />
+              )}
+            </div>
+            {renderHighlightComposer('aiSummary')}
           </section>
         )}
 
         <section className={styles.abstractSection}>
           <h2 className={styles.sectionTitle}>元のAbstract</h2>
-          <div className={`${styles.abstractContent} ${showFullAbstract ? styles.showFull : ''}`}>
-            <FormattedTextRenderer text={paper.summary} />
+          <div
+            ref={abstractContentRef}
+            className={`${styles.abstractContent} ${showFullAbstract ? styles.showFull : ''}`}
+            onMouseUp={() => handleTextSelection('abstract')}
+            onTouchEnd={() => handleTextSelection('abstract')}
+            onKeyUp={() => handleTextSelection('abstract')}
+          >
+            {abstractTranslation && !showOriginalAbstract ? (
+              <BilingualAbstract translation={abstractTranslation} variant="full" />
+            ) : (
+              <FormattedTextRenderer text={paper.summary} />
+            )}
           </div>
-          {paper.summary.length > 300 && ( // 例えば300文字以上なら「もっと見る」ボタンを表示
-            <button onClick={() => setShowFullAbstract(!showFullAbstract)} className={styles.toggleAbstractButton}>
-              {showFullAbstract ? '少なく表示' : 'もっと見る'}
-            </button>
+          <div className={styles.abstractActions}>
+            {paper.summary.length > 300 && ( // 例えば300文字以上なら「もっと見る」ボタンを表示
+              <button onClick={() => setShowFullAbstract(!showFullAbstract)} className={styles.toggleAbstractButton}>
+                {showFullAbstract ? '少なく表示' : 'もっと見る'}
+              </button>
+            )}
+            {abstractTranslation ? (
+              <button onClick={() => setShowOriginalAbstract(!showOriginalAbstract)} className={styles.toggleAbstractButton}>
+                {showOriginalAbstract ? '対訳を表示' : '原文のみ表示'}
+              </button>
+            ) : (
+              <button onClick={handleTranslateAbstract} className={styles.toggleAbstractButton} disabled={isTranslating}>
+                <LanguageIcon className={styles.inlineIcon} />{isTranslating ? '翻訳中...' : '文ごとに和訳する'}
+              </button>
+            )}
+          </div>
+          {renderHighlightComposer('abstract')}
+          <p className={styles.selectionHint}>AI要約やAbstractのテキストを選択すると、ハイライトとして保存できます。</p>
+        </section>
+
+        <section className={styles.notesSection}>
+          <h2 className={styles.sectionTitle}><PencilSquareIcon className={styles.sectionIcon} />メモ</h2>
+          <PaperNotesEditor key={paper.id} notes={paper.notes ?? ''} onSave={(notes) => updatePaperNotes(paper.id, notes)} />
+
+          <h3 className={styles.highlightsTitle}>
+            <BookmarkIcon className={styles.sectionIcon} />
+            ハイライト ({paper.highlights?.length ?? 0})
+          </h3>
+          {paper.highlights && paper.highlights.length > 0 ? (
+            <ul className={styles.highlightList}>
+              {paper.highlights.map(highlight => (
+                <li key={highlight.id} className={styles.highlightItem}>
+                  <div className={styles.highlightMeta}>
+                    <span className={styles.highlightSource}>{HIGHLIGHT_SOURCE_LABELS[highlight.source]}</span>
+                    <span>{new Date(highlight.createdAt).toLocaleDateString()}</span>
+                  </div>
+                  <blockquote className={styles.highlightQuote}><FormattedTextRenderer text={highlight.text} /></blockquote>
+                  {highlight.comment && (
+                    <p className={styles.highlightComment}><FormattedTextRenderer text={highlight.comment} /></p>
+                  )}
+                  <div className={styles.highlightActions}>
+                    <button type="button" onClick={() => handleEditHighlightComment(highlight)} className={styles.highlightActionButton}>
+                      {highlight.comment ? 'コメントを編集' : 'コメントを追加'}
+                    </button>
+                    <button type="button" onClick={() => handleRemoveHighlight(highlight)} className={`${styles.highlightActionButton} ${styles.highlightDeleteButton}`}>
+                      削除
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className={styles.highlightsEmpty}>まだハイライトはありません。</p>
           )}
         </section>
 
@@ -156,20 +476,69 @@ export default function PaperDetailPage() {
 
       <section className={styles.aiChatSection}>
         <h2 className={styles.sectionTitle}><ChatBubbleLeftEllipsisIcon className={styles.sectionIcon} />AIに質問する</h2>
+        {chatThreads.length > 0 && (
+          <div className={styles.chatToolbar}>
+            <select
+              value={activeThread?.id ?? NEW_CHAT_THREAD}
+              onChange={(e) => setActiveThreadId(e.target.value)}
+              className={styles.chatThreadSelect}
+              disabled={isAskingAi}
+              aria-label="会話"
+            >
+              {chatThreads.map(thread => (
+                <option key={thread.id} value={thread.id}>{chatThreadLabel(thread)}</option>
+              ))}
+              <option value={NEW_CHAT_THREAD}>＋ 新しい会話</option>
+            </select>
+            {activeThread && (
+              <>
+                <button type="button" onClick={() => handleCopyChat(activeThread.id, formatChatThread(activeThread))} className={styles.chatToolbarButton}>
+                  <ClipboardDocumentIcon className={styles.chatToolbarIcon} />
+                  {copiedKey === activeThread.id ? 'コピーしました' : '会話をコピー'}
+                </button>
+                <button type="button" onClick={handleClearChat} className={styles.chatToolbarButton} disabled={isAskingAi}>
+                  <TrashIcon className={styles.chatToolbarIcon} />
+                  会話を削除
+                </button>
+              </>
+            )}
+          </div>
+        )}
         <div className={styles.chatHistory} id="chat-history">
-          {chatHistory.map((msg, index) => (
+          {activeThread?.messages.map((msg, index) => (
             <div key={index} className={`${styles.chatMessage} ${styles[msg.role]}`}>
-              <span className={styles.messageRole}>{msg.role === 'user' ? 'あなた' : 'AI'}</span>
+              <span className={styles.messageRole}>{chatRoleLabel(msg)}</span>
               <div className={styles.messageContent}><FormattedTextRenderer text={msg.content} /></div>
+              <div className={styles.messageActions}>
+                <button type="button" onClick={() => handleCopyChat(`${activeThread.id}:${index}`, msg.content)} className={styles.messageActionButton}>
+                  {copiedKey === `${activeThread.id}:${index}` ? 'コピーしました' : 'コピー'}
+                </button>
+                {msg.role === 'ai' && !msg.isError && (
+                  <button
+                    type="button"
+                    onClick={() => handleBranchChat(index + 1)}
+                    className={styles.messageActionButton}
+                    disabled={isAskingAi}
+                    title="ここまでのやり取りを引き継いだ新しい会話を作ります"
+                  >
+                    <ArrowsRightLeftIcon className={styles.messageActionIcon} />
+                    ここから分岐
+                  </button>
+                )}
+              </div>
             </div>
           ))}
           {isAskingAi && (
             <div className={`${styles.chatMessage} ${styles.ai}`}>
               <span className={styles.messageRole}>AI</span>
               <div className={styles.messageContent}>
-                <div className={styles.typingIndicator}>
-                  <span></span><span></span><span></span>
-                </div>
+                {streamingAnswer ? (
+                  <FormattedTextRenderer text={streamingAnswer} />
+                ) : (
+                  <div className={styles.typingIndicator}>
+                    <span></span><span></span><span></span>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -184,9 +553,15 @@ export default function PaperDetailPage() {
             rows={3}
             disabled={isAskingAi}
           />
-          <button type="submit" className={styles.chatSubmitButton} disabled={isAskingAi || !question.trim()}>
-            {isAskingAi ? '送信中...' : <PaperAirplaneIcon className={styles.sendIcon} />}
-          </button>
+          {isAskingAi ? (
+            <button type="button" onClick={handleCancelAskAi} className={`${styles.chatSubmitButton} ${styles.chatStopButton}`} title="回答の生成を中止">
+              <StopIcon className={styles.sendIcon} />
+            </button>
+          ) : (
+            <button type="submit" className={styles.chatSubmitButton} disabled={!question.trim()}>
+              <PaperAirplaneIcon className={styles.sendIcon} />
+            </button>
+          )}
         </form>
       </section>
     </div>
@@ -1,57 +1,190 @@
 // apps/web/src/app/library/page.tsx
 'use client';
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useLikedPapers } from '@/contexts/LikedPapersContext';
+import { useSummaryPreferences } from '@/contexts/SummaryPreferencesContext';
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import FormattedTextRenderer from '@/components/FormattedTextRenderer';
 import PaperCard from '@/components/PaperCard';
+import TagEditor from '@/components/TagEditor';
+import LibraryExportPanel from '@/components/LibraryExportPanel';
+import LibraryImportPanel from '@/components/LibraryImportPanel';
+import LibraryQuarantineNotice from '@/components/LibraryQuarantineNotice';
+import LibraryOwnerConflictNotice from '@/components/LibraryOwnerConflictNotice';
+import LibrarySummaryBatchPanel from '@/components/LibrarySummaryBatchPanel';
+import SummaryOptionsPicker from '@/components/SummaryOptionsPicker';
+import type { ImportReport } from '@/lib/paperImport';
+import { hasTag } from '@/lib/paperTags';
+import { requestPaperSummary } from '@/lib/summaryClient';
+import { requestAbstractTranslation } from '@/lib/translationClient';
+import { isAbortError } from '@/lib/aiStream';
+import type { SummarySource } from '@/lib/summaryOptions';
 import styles from './library.module.css';
 import paperCardStyles from '@/components/PaperCard.module.css'; // PaperCardのスタイルをインポート
-import { BookmarkSlashIcon } from '@heroicons/react/24/outline'; // ライブラリが空の場合のアイコン例
+import { BookmarkSlashIcon, FolderPlusIcon, PencilSquareIcon, TrashIcon } from '@heroicons/react/24/outline'; // ライブラリが空の場合のアイコン例
+
+// コレクションの絞り込み: すべて / 未分類 / コレクションID
+const ALL_COLLECTIONS = '__all__';
+const UNCATEGORIZED = '__uncategorized__';
 
 export default function LibraryPage() {
   // ★★★ 修正点: isPaperLiked を削除 ★★★
-  const { likedPapers, removeLikedPaper, updateLikedPaperSummary, isLoadingPersistence } = useLikedPapers();
+  const {
+    likedPapers, removeLikedPaper, updateLikedPaperSummary, updateLikedPaperTranslation, isLoadingPersistence,
+    collections, createCollection, renameCollection, deleteCollection, movePapersToCollection, addTagsToPapers,
+  } = useLikedPapers();
+  const { summaryOptions } = useSummaryPreferences();
   const [isSummarizing, setIsSummarizing] = useState<string | null>(null);
+  const [summaryDraft, setSummaryDraft] = useState<string>(''); // 生成中の要約 (ストリーミングで届いた分)
+  const summaryAbortRef = useRef<AbortController | null>(null);
+  const [translatingIds, setTranslatingIds] = useState<Set<string>>(new Set()); // Abstract を翻訳中の論文
+  const [collectionFilter, setCollectionFilter] = useState<string>(ALL_COLLECTIONS);
+  const [tagFilters, setTagFilters] = useState<string[]>([]); // 選択したタグを全て持つ論文だけを表示
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkTargetCollection, setBulkTargetCollection] = useState<string>(UNCATEGORIZED);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
   const router = useRouter();
 
+  const collectionNames = useMemo(() => new Map(collections.map(c => [c.id, c.name])), [collections]);
+
+  // ライブラリ内の全タグと件数 (件数の多い順)
+  const tagCounts = useMemo(() => {
+    const counts = new Map<string, { tag: string; count: number }>();
+    likedPapers.forEach(paper => (paper.tags ?? []).forEach(tag => {
+      const key = tag.toLowerCase();
+      counts.set(key, { tag: counts.get(key)?.tag ?? tag, count: (counts.get(key)?.count ?? 0) + 1 });
+    }));
+    return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }, [likedPapers]);
+
+  const filteredPapers = useMemo(() => likedPapers.filter(paper => {
+    if (collectionFilter === UNCATEGORIZED && paper.collectionId && collectionNames.has(paper.collectionId)) return false;
+    if (collectionFilter !== ALL_COLLECTIONS && collectionFilter !== UNCATEGORIZED && paper.collectionId !== collectionFilter) return false;
+    return tagFilters.every(tag => hasTag(paper.tags, tag));
+  }), [likedPapers, collectionFilter, tagFilters, collectionNames]);
+
+  const countInCollection = (collectionId: string | null) =>
+    likedPapers.filter(paper => collectionId === null
+      ? !paper.collectionId || !collectionNames.has(paper.collectionId)
+      : paper.collectionId === collectionId).length;
+
+  const selectedPaperIds = filteredPapers.filter(paper => selectedIds.has(paper.id)).map(paper => paper.id); // 絞り込みで隠れた論文は操作しない
+  const isAllVisibleSelected = filteredPapers.length > 0 && selectedPaperIds.length === filteredPapers.length;
+
+  const toggleSelected = (paperId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(paperId)) next.delete(paperId); else next.add(paperId);
+      return next;
+    });
+  };
+
+  const toggleSelectAllVisible = () => {
+    setSelectedIds(isAllVisibleSelected ? new Set() : new Set(filteredPapers.map(paper => paper.id)));
+  };
+
+  const toggleTagFilter = (tag: string) => {
+    setTagFilters(prev => hasTag(prev, tag) ? prev.filter(t => t.toLowerCase() !== tag.toLowerCase()) : [...prev, tag]);
+  };
+
+  const handleCreateCollection = () => {
+    const name = prompt('新しいコレクションの名前を入力してください');
+    if (name === null) return;
+    const collection = createCollection(name);
+    if (!collection) {
+      alert(name.trim() ? `「${name.trim()}」という名前のコレクションは既にあります。` : 'コレクション名を入力してください。');
+      return;
+    }
+    setCollectionFilter(collection.id);
+  };
+
+  const handleRenameCollection = (collectionId: string) => {
+    const currentName = collectionNames.get(collectionId) ?? '';
+    const name = prompt('コレクションの新しい名前を入力してください', currentName);
+    if (name === null || !name.trim() || name.trim() === currentName) return;
+    if (collections.some(c => c.name === name.trim())) {
+      alert(`「${name.trim()}」という名前のコレクションは既にあります。`);
+      return;
+    }
+    renameCollection(collectionId, name);
+  };
+
+  const handleDeleteCollection = (collectionId: string) => {
+    if (confirm(`コレクション「${collectionNames.get(collectionId)}」を削除しますか？論文はライブラリに残り、未分類になります。`)) {
+      deleteCollection(collectionId);
+      setCollectionFilter(ALL_COLLECTIONS);
+    }
+  };
+
+  const handleBulkMove = () => {
+    movePapersToCollection(selectedPaperIds, bulkTargetCollection === UNCATEGORIZED ? null : bulkTargetCollection);
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkRemove = () => {
+    if (confirm(`選択した ${selectedPaperIds.length} 件の論文をライブラリから削除しますか？`)) {
+      selectedPaperIds.forEach(paperId => removeLikedPaper(paperId));
+      setSelectedIds(new Set());
+    }
+  };
+
   const handleRemoveFromLibrary = (paperId: string, paperTitle: string) => {
     if (confirm(`「${paperTitle}」をライブラリから削除しますか？`)) {
       removeLikedPaper(paperId);
     }
   };
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const handleGenerateSummary = useCallback(async (paperId: string, pdfUrl: string, paperTitle: string) => {
-    if (isSummarizing === paperId || !pdfUrl) return;
+  const handleGenerateSummary = useCallback(async (paperId: string, pdfUrl: string, paperTitle: string, regenerate = false, source: SummarySource = 'pdf') => {
+    if (isSummarizing || (source === 'pdf' && !pdfUrl)) return;
+    const paper = likedPapers.find(p => p.id === paperId);
+    if (!paper) return;
 
+    const abortController = new AbortController();
+    summaryAbortRef.current = abortController;
     setIsSummarizing(paperId);
     try {
-      const response = await fetch('/api/summarize', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ pdfUrl, paperTitle }),
-      });
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `要約の生成に失敗しました (Status: ${response.status})`);
-      }
-      const data = await response.json();
-      updateLikedPaperSummary(paperId, data.summary);
+      const { variant } = await requestPaperSummary(
+        { ...paper, pdfLink: pdfUrl, title: paperTitle },
+        { options: summaryOptions, source, regenerate, onDelta: setSummaryDraft, signal: abortController.signal },
+      );
+      updateLikedPaperSummary(paperId, variant);
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log(`Summary generation for ${paperId} was cancelled.`);
+        return;
+      }
       console.error('Failed to generate summary in library:', error);
       alert(`要約生成エラー: ${error instanceof Error ? error.message : '不明なエラー'}`);
     } finally {
+      summaryAbortRef.current = null;
+      setSummaryDraft('');
       setIsSummarizing(null);
     }
-  }, [isSummarizing, updateLikedPaperSummary]);
+  }, [isSummarizing, likedPapers, summaryOptions, updateLikedPaperSummary]);
+
+  const handleCancelSummary = useCallback(() => summaryAbortRef.current?.abort(), []);
+
+  const handleTranslateAbstract = useCallback(async (paperId: string) => {
+    const paper = likedPapers.find(p => p.id === paperId);
+    if (!paper || translatingIds.has(paperId)) return;
+    setTranslatingIds(prev => new Set(prev).add(paperId));
+    try {
+      updateLikedPaperTranslation(paperId, await requestAbstractTranslation(paper));
+    } catch (error) {
+      console.error('Failed to translate abstract in library:', error);
+      alert(`翻訳エラー: ${error instanceof Error ? error.message : '不明なエラー'}`);
+    } finally {
+      setTranslatingIds(prev => { const next = new Set(prev); next.delete(paperId); return next; });
+    }
+  }, [likedPapers, translatingIds, updateLikedPaperTranslation]);
+  useEffect(() => () => summaryAbortRef.current?.abort(), []); // ページを離れたら生成を止める
 
   const handleViewDetails = (paperId: string) => {
-    router.push(`/library/${paperId}`);
+    router.push(`/library/${encodeURIComponent(paperId)}`);
   };
 
   if (isLoadingPersistence) {
@@ -73,6 +206,11 @@ export default function LibraryPage() {
           <br />
           興味のある論文をいいねに追加しましょう。
         </p>
+        <div className={styles.emptyImport}>
+          <LibraryOwnerConflictNotice />
+          <LibraryQuarantineNotice />
+          <LibraryImportPanel report={importReport} onReportChange={setImportReport} defaultOpen={true} />
+        </div>
       </div>
     );
   }
@@ -83,19 +221,131 @@ export default function LibraryPage() {
         <h1 className={styles.pageTitle}>いいねした論文ライブラリ</h1>
         <p className={styles.pageSubtitle}>{likedPapers.length} 件の論文があります</p>
       </header>
+
+      <LibraryOwnerConflictNotice />
+      <LibraryQuarantineNotice />
+
+      <div className={styles.organizerBar}>
+        <select value={collectionFilter} onChange={(e) => { setCollectionFilter(e.target.value); setSelectedIds(new Set()); }} className={styles.organizerSelect} aria-label="コレクションで絞り込む">
+          <option value={ALL_COLLECTIONS}>すべての論文 ({likedPapers.length})</option>
+          <option value={UNCATEGORIZED}>未分類 ({countInCollection(null)})</option>
+          {collections.map(collection => (
+            <option key={collection.id} value={collection.id}>{collection.name} ({countInCollection(collection.id)})</option>
+          ))}
+        </select>
+        <button type="button" onClick={handleCreateCollection} className={styles.organizerButton}>
+          <FolderPlusIcon className={styles.organizerIcon} />
+          新しいコレクション
+        </button>
+        {collectionNames.has(collectionFilter) && (
+          <>
+            <button type="button" onClick={() => handleRenameCollection(collectionFilter)} className={styles.organizerButton}>
+              <PencilSquareIcon className={styles.organizerIcon} />
+              名前を変更
+            </button>
+            <button type="button" onClick={() => handleDeleteCollection(collectionFilter)} className={`${styles.organizerButton} ${styles.organizerDangerButton}`}>
+              <TrashIcon className={styles.organizerIcon} />
+              コレクションを削除
+            </button>
+          </>
+        )}
+        <SummaryOptionsPicker />
+      </div>
+
+      {tagCounts.length > 0 && (
+        <div className={styles.tagFilterBar}>
+          <span className={styles.tagFilterLabel}>タグ:</span>
+          {tagCounts.map(({ tag, count }) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => toggleTagFilter(tag)}
+              className={`${styles.tagFilterChip} ${hasTag(tagFilters, tag) ? styles.tagFilterChipActive : ''}`}
+              aria-pressed={hasTag(tagFilters, tag)}
+            >
+              #{tag} ({count})
+            </button>
+          ))}
+          {tagFilters.length > 0 && (
+            <button type="button" onClick={() => setTagFilters([])} className={styles.clearTagFilterButton}>解除</button>
+          )}
+        </div>
+      )}
+
+      <LibraryImportPanel report={importReport} onReportChange={setImportReport} />
+      <LibraryExportPanel
+        allPapers={likedPapers}
+        filteredPapers={filteredPapers}
+        selectedPapers={filteredPapers.filter(paper => selectedIds.has(paper.id))}
+        collectionNames={collectionNames}
+      />
+      <LibrarySummaryBatchPanel />
+
+      <div className={styles.selectionBar}>
+        <label className={styles.selectAllLabel}>
+          <input type="checkbox" checked={isAllVisibleSelected} onChange={toggleSelectAllVisible} disabled={filteredPapers.length === 0} />
+          表示中の論文をすべて選択
+        </label>
+        {selectedPaperIds.length > 0 && <span className={styles.selectionCount}>{selectedPaperIds.length} 件選択中</span>}
+      </div>
+
+      {selectedPaperIds.length > 0 && (
+        <div className={styles.bulkActions}>
+          <div className={styles.bulkActionGroup}>
+            <select value={bulkTargetCollection} onChange={(e) => setBulkTargetCollection(e.target.value)} className={styles.organizerSelect} aria-label="移動先のコレクション">
+              <option value={UNCATEGORIZED}>未分類</option>
+              {collections.map(collection => (
+                <option key={collection.id} value={collection.id}>{collection.name}</option>
+              ))}
+            </select>
+            <button type="button" onClick={handleBulkMove} className={styles.organizerButton}>に移動</button>
+          </div>
+          <div className={styles.bulkActionGroup}>
+            <TagEditor
+              tags={[]}
+              onAddTags={(tags) => addTagsToPapers(selectedPaperIds, tags)}
+              suggestions={tagCounts.map(({ tag }) => tag)}
+              placeholder="選択した論文にタグを追加"
+            />
+          </div>
+          <button type="button" onClick={handleBulkRemove} className={`${styles.organizerButton} ${styles.organizerDangerButton}`}>
+            <TrashIcon className={styles.organizerIcon} />
+            削除
+          </button>
+        </div>
+      )}
+
+      {filteredPapers.length === 0 && (
+        <p className={styles.emptyFilterText}>条件に一致する論文はありません。</p>
+      )}
       <ul className={styles.paperList}>
-        {likedPapers.map((paper) => (
-          <PaperCard
-            key={paper.id}
-            paper={paper}
-            // isSummarizing={false} // ライブラリページでは要約生成中の状態は通常不要
-            // onGenerateAiSummary={undefined} // ライブラリページでは要約生成は行わない想定
-            onRemoveFromLibrary={(paperId) => handleRemoveFromLibrary(paperId, paper.title)} // ライブラリから削除する関数を渡す
-            showSwipeButtons={false} // ライブラリページではスワイプボタンは不要
-            isLiked={likedPapers.some(p => p.id === paper.id)} // いいね状態を表示
-            onViewDetails={handleViewDetails} // 詳細ページへの遷移関数を渡す
-            className={`${paperCardStyles.card} ${paperCardStyles.static} ${styles.libraryCard}`} // 3つのクラスを結合
-          />
+        {filteredPapers.map((paper) => (
+          <li key={paper.id} className={styles.libraryItem}>
+            <div className={styles.libraryItemMeta}>
+              <label className={styles.selectLabel}>
+                <input type="checkbox" checked={selectedIds.has(paper.id)} onChange={() => toggleSelected(paper.id)} />
+                選択
+              </label>
+              {paper.collectionId && collectionNames.has(paper.collectionId) && (
+                <span className={styles.collectionBadge}>{collectionNames.get(paper.collectionId)}</span>
+              )}
+            </div>
+            <PaperCard
+              paper={paper}
+              isSummarizing={isSummarizing === paper.id}
+              summaryDraft={isSummarizing === paper.id ? summaryDraft : undefined}
+              summaryOptions={summaryOptions}
+              onCancelAiSummary={handleCancelSummary}
+              isTranslatingAbstract={translatingIds.has(paper.id)}
+              onTranslateAbstract={handleTranslateAbstract}
+              onGenerateAiSummary={handleGenerateSummary}
+              onRemoveFromLibrary={(paperId) => handleRemoveFromLibrary(paperId, paper.title)} // ライブラリから削除する関数を渡す
+              showSwipeButtons={false} // ライブラリページではスワイプボタンは不要
+              isLiked={likedPapers.some(p => p.id === paper.id)} // いいね状態を表示
+              onViewDetails={handleViewDetails} // 詳細ページへの遷移関数を渡す
+              className={`${paperCardStyles.card} ${paperCardStyles.static} ${styles.libraryCard}`} // 3つのクラスを結合
+            />
+          </li>
         ))}
       </ul>
     </div>
@@ -1,46 +1,109 @@
 // apps/web/src/app/page.tsx
 'use client';
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import Link from 'next/link';
 import PaperCard from '@/components/PaperCard';
+import SummaryOptionsPicker from '@/components/SummaryOptionsPicker';
+import SwipeDeck, { type SwipeDirection } from '@/components/SwipeDeck';
+import AdvancedSearchPanel from '@/components/AdvancedSearchPanel';
 import { useLikedPapers, type Paper } from '@/contexts/LikedPapersContext';
+import { useFeedPreferences } from '@/contexts/FeedPreferencesContext';
+import { useSummaryPreferences } from '@/contexts/SummaryPreferencesContext';
+import { useSwipeHistory, type SwipeDecision } from '@/contexts/SwipeHistoryContext';
+import { useReadLater } from '@/contexts/ReadLaterContext';
 import styles from './page.module.css';
-import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { MagnifyingGlassIcon, AdjustmentsHorizontalIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import { describeSearchCriteria, hasSearchCriteria, searchCriteriaToParams, validateSearchCriteria, SearchCriteriaError, type PaperSearchCriteria } from '@/lib/paperSearch';
+import { DEFAULT_PAPER_SOURCE_ID, type PaperSourceId } from '@/lib/paperSources/catalog';
+import { buildRecommendationProfile, rankPapers, type RecommendationExplanation } from '@/lib/recommendation';
+import { applySummaryVariant, needsSummary, requestPaperSummary } from '@/lib/summaryClient';
+import { requestAbstractTranslation } from '@/lib/translationClient';
+import { isAbortError } from '@/lib/aiStream';
+import { summaryVariantKey, type SummarySource } from '@/lib/summaryOptions';
 
 const END_OF_FEED_CARD_ID_PAGE = "___END_OF_FEED___";
-const SWIPE_THRESHOLD_PAGE = 70;
-const SWIPE_MAX_ROTATION_PAGE = 12;
-const SWIPE_TRANSLATE_X_SCALE_PAGE = 1.1;
 const VISIBLE_CARDS_IN_STACK_PAGE = 2;
+const SWIPE_DIRECTIONS_PAGE: SwipeDirection[] = ['left', 'right', 'up']; // 上: あとで読む
 const MAX_RESULTS_PER_FETCH_PAGE = 10;
+const MAX_PAGES_PER_FETCH_PAGE = 5; // 判定済みの論文ばかりの場合に、未判定の論文を探して続けて取得するページ数の上限
+const MAX_UNDO_STEPS_PAGE = 20;
+const SUMMARY_PREFETCH_COUNT = 3; // 一番上のカードを含めて、先に要約しておく枚数
+const MAX_PREFETCH_CONCURRENCY = 2; // 先読みで同時に生成する要約の数
+
+// 論文ごとに実行中のAI要約の生成
+interface SummaryJob {
+  draft: string; // 生成中の要約 (ストリーミングで届いた分)
+  isPrefetch: boolean; // 先読みで始めた生成 (カードが見えなくなったら止める)
+}
+
+// 取り消し用に記録するスワイプ操作
+interface UndoEntry {
+  paper: Paper;
+  decision: SwipeDecision;
+  index: number; // スワイプした時のカードの位置
+}
 
 
 export default function HomePage() {
   const [papers, setPapers] = useState<Paper[]>([]);
   const [currentPaperIndex, setCurrentPaperIndex] = useState(0);
-  const { likedPapers, addLikedPaper, isPaperLiked } = useLikedPapers();
+  const { likedPapers, addLikedPaper, removeLikedPaper, isPaperLiked, updateLikedPaperSummary, updateLikedPaperTranslation, collections, isLoadingPersistence } = useLikedPapers();
+  const [likeCollectionId, setLikeCollectionId] = useState(''); // いいねした論文の保存先コレクション (空文字列は未分類)
+  const { rankingMode, setRankingMode } = useFeedPreferences();
+  const { summaryOptions, autoSummarySource, isLoadingSummaryPreferences } = useSummaryPreferences();
+  const { readLaterPapers, addToReadLater, removeFromReadLater, isInReadLater, isLoadingReadLater } = useReadLater();
+  const { history, recordDecision, removeHistoryEntry, hasJudged, isLoadingHistory } = useSwipeHistory();
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]); // 新しい操作が末尾
+  const [expandedAbstractId, setExpandedAbstractId] = useState<string | null>(null); // スペースキーで開いたAbstract
+  const dislikedPapers = useMemo(() => history.filter(entry => entry.decision === 'dislike').map(entry => entry.paper), [history]);
+  const [recommendations, setRecommendations] = useState<Record<string, RecommendationExplanation>>({}); // 「なぜこの論文？」の説明
   const [message, setMessage] = useState<string | null>('Kiga-ers へようこそ！論文を探しています...');
   const [isLoading, setIsLoading] = useState(false);
-  const [isSummarizing, setIsSummarizing] = useState<string | null>(null);
+  const [summaryJobs, setSummaryJobs] = useState<Record<string, SummaryJob>>({}); // 要約を生成中の論文 (複数同時に生成できる)
+  const summaryAbortRefs = useRef<Map<string, AbortController>>(new Map());
+  const prefetchAttemptsRef = useRef<Set<string>>(new Set()); // 先読みした論文・設定・要約元 (失敗したものを繰り返さない)
+  const [translatingIds, setTranslatingIds] = useState<Set<string>>(new Set()); // Abstract を翻訳中の論文
   const [searchQuery, setSearchQuery] = useState('');
-  const [currentSearchTerm, setCurrentSearchTerm] = useState(''); // 初期値は空文字列
+  const [advancedCriteria, setAdvancedCriteria] = useState<PaperSearchCriteria>({}); // 詳細検索パネルの入力中の条件
+  const [showAdvancedSearch, setShowAdvancedSearch] = useState(false);
+  const [selectedSources, setSelectedSources] = useState<PaperSourceId[]>([DEFAULT_PAPER_SOURCE_ID]); // 詳細検索パネルで選択中のソース
+  const activeSourcesRef = useRef<PaperSourceId[]>([]); // 実行中の検索のソース (空ならサーバーのデフォルト)
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [currentCriteria, setCurrentCriteria] = useState<PaperSearchCriteria>({}); // 実行中の検索条件 (初期値は条件なし)
+  const currentSearchTerm = describeSearchCriteria(currentCriteria); // 表示用の検索条件
   const [hasMorePapers, setHasMorePapers] = useState(true);
 
-  const [interactionState, setInteractionState] = useState<{
-    isSwiping: boolean; cardTransform: string; feedbackColor: string; flyingDirection: 'left' | 'right' | null;
-  }>({ isSwiping: false, cardTransform: '', feedbackColor: '', flyingDirection: null });
-
-  const topCardRef = useRef<HTMLDivElement>(null);
-  const touchStartX = useRef<number | null>(null);
-  const touchCurrentX = useRef<number | null>(null);
-  const touchStartY = useRef<number | null>(null);
   const canFetchMoreRef = useRef(true);
-
-
-  const fetchPapers = useCallback(async (isInitialOrNewSearch = false, termToSearchForFetch = '', offsetForFetch = 0) => {
-    const effectiveSearchTermForFetch = termToSearchForFetch.trim();
+  const nextCursorRef = useRef<string | null>(null); // 次のページを取得するためのAPIの cursor (ソースごとの取得位置)
+
+  // スワイプ履歴にある論文、いいね済み・あとで読むに保存済みの論文はフィードに出さない。fetchPapers からは ref 経由で参照する
+  const isJudgedRef = useRef((paperId: string) => hasJudged(paperId) || isPaperLiked(paperId) || isInReadLater(paperId));
+  isJudgedRef.current = (paperId: string) => hasJudged(paperId) || isPaperLiked(paperId) || isInReadLater(paperId);
+
+  // いいね / 興味なしの履歴から作る興味プロファイル。fetchPapers からは ref 経由で参照して再取得の連鎖を防ぐ
+  const recommendationProfile = useMemo(() => buildRecommendationProfile(likedPapers, dislikedPapers), [likedPapers, dislikedPapers]);
+  const recommendationProfileRef = useRef(recommendationProfile);
+  recommendationProfileRef.current = recommendationProfile;
+  const rankingModeRef = useRef(rankingMode);
+  rankingModeRef.current = rankingMode;
+  const fetchOrderRef = useRef(new Map<string, number>()); // 新着順に戻すための取得順
+
+  // 取得したバッチをおすすめ順に並べ替える (新着順モードではAPIの順序のまま)
+  const rankFetchedBatch = useCallback((batch: Paper[]): Paper[] => {
+    batch.forEach(paper => {
+      if (!fetchOrderRef.current.has(paper.id)) fetchOrderRef.current.set(paper.id, fetchOrderRef.current.size);
+    });
+    if (rankingModeRef.current !== 'personalized') return batch;
+    const ranked = rankPapers(batch, recommendationProfileRef.current);
+    setRecommendations(prev => ({ ...prev, ...ranked.explanations }));
+    return ranked.papers;
+  }, []);
+
+
+  const fetchPapers = useCallback(async (isInitialOrNewSearch = false, criteriaForFetch: PaperSearchCriteria = {}, cursorForFetch: string | null = null) => {
     console.log(
-      `fetchPapers: Called (isInitial: ${isInitialOrNewSearch}, term: "${effectiveSearchTermForFetch}", offset: ${offsetForFetch}), isLoading: ${isLoading}, hasMore: ${hasMorePapers}`
+      `fetchPapers: Called (isInitial: ${isInitialOrNewSearch}, criteria: "${describeSearchCriteria(criteriaForFetch)}", cursor: ${cursorForFetch}), isLoading: ${isLoading}, hasMore: ${hasMorePapers}`
     );
 
     if (!isInitialOrNewSearch) {
@@ -68,23 +131,38 @@ export default function HomePage() {
       // else { setMessage('Kiga-ers へようこそ！論文を探しています...'); }
       setPapers([]);
       setCurrentPaperIndex(0);
+      setUndoStack([]); // 前の検索結果のカードには戻れないので取り消し履歴も破棄する
       setHasMorePapers(true); // 新規検索時は必ず true に戻す
-      // currentSearchTerm は handleSearchSubmit で更新されるのでここでは不要
+      // currentCriteria は handleSearchSubmit で更新されるのでここでは不要
     } else {
       setMessage('新しい論文を探しています...'); // 追加ロード時のメッセージ
     }
-    setInteractionState({ isSwiping: false, cardTransform: '', feedbackColor: '', flyingDirection: null });
 
     try {
-      // termToSearchForFetch が空でもAPI側でデフォルトカテゴリが使われる想定
-      let apiUrl = effectiveSearchTermForFetch ? `/api/papers?query=${encodeURIComponent(effectiveSearchTermForFetch)}` : '/api/papers';
-      apiUrl += `${apiUrl.includes('?') ? '&' : '?'}start=${offsetForFetch}&max_results=${MAX_RESULTS_PER_FETCH_PAGE}`;
-      const response = await fetch(apiUrl);
-      if (!response.ok) { const errorData = await response.json().catch(() => ({})); throw new Error(`論文データの取得に失敗しました。 Status: ${response.status}. ${errorData.error || ''}`); }
-      const data: Paper[] = await response.json();
-      console.log('fetchPapers: Data received, length:', data.length);
-
-      const morePapersPotentiallyAvailableBasedOnAPI = data.length === MAX_RESULTS_PER_FETCH_PAGE;
+      // 判定済みの論文を除いて1枚も残らなければ、次のページを続けて取得する
+      let cursor = cursorForFetch;
+      let freshData: Paper[] = [];
+      let skippedCount = 0;
+      let morePapersPotentiallyAvailableBasedOnAPI = true;
+      for (let page = 0; page < MAX_PAGES_PER_FETCH_PAGE && freshData.length === 0 && morePapersPotentiallyAvailableBasedOnAPI; page++) {
+        // 検索条件が空でもAPI側でデフォルトカテゴリが使われる想定
+        const params = searchCriteriaToParams(criteriaForFetch);
+        if (activeSourcesRef.current.length > 0) params.set('source', activeSourcesRef.current.join(','));
+        if (cursor) params.set('cursor', cursor);
+        params.set('max_results', String(MAX_RESULTS_PER_FETCH_PAGE));
+        const response = await fetch(`/api/papers?${params.toString()}`);
+        if (!response.ok) { const errorData = await response.json().catch(() => ({})); throw new Error(`論文データの取得に失敗しました。 Status: ${response.status}. ${errorData.error || ''}`); }
+        const { papers: fetchedData, hasMore, cursor: nextCursor }: { papers: Paper[]; hasMore: boolean; cursor: string | null } = await response.json();
+        console.log(`fetchPapers: Data received (cursor: ${cursor}), length:`, fetchedData.length);
+        cursor = nextCursor;
+        // 一部のソースが失敗・終了しても件数は減るので、続きがあるかはAPIの hasMore で判断する
+        morePapersPotentiallyAvailableBasedOnAPI = hasMore;
+        freshData = fetchedData.filter(p => !isJudgedRef.current(p.id));
+        skippedCount += fetchedData.length - freshData.length;
+      }
+      nextCursorRef.current = cursor;
+      if (skippedCount > 0) console.log(`fetchPapers: Skipped ${skippedCount} already judged papers.`);
+      const data = rankFetchedBatch(freshData);
 
       setPapers(prevPapers => {
         const currentRealPapers = prevPapers.filter(p => !p.isEndOfFeedCard);
@@ -103,7 +181,9 @@ export default function HomePage() {
         return updatedPapersArray;
       });
       setHasMorePapers(morePapersPotentiallyAvailableBasedOnAPI);
-      if (data.length > 0 || (isInitialOrNewSearch && data.length ===0) ) {
+      if (isInitialOrNewSearch && data.length === 0 && skippedCount > 0) {
+        setMessage('未判定の論文が見つかりませんでした。判定済みの論文は履歴ページで見直せます。');
+      } else if (data.length > 0 || (isInitialOrNewSearch && data.length ===0) ) {
         setMessage(null); // 論文があればメッセージを消す
       } else if (isInitialOrNewSearch && data.length === 0) {
         // 初期検索で結果0件の場合のメッセージ (fetchPapers呼び出し側で設定済みのはず)
@@ -126,31 +206,44 @@ export default function HomePage() {
       setIsLoading(false); // APIコール完了後にローディング解除
       setTimeout(() => { canFetchMoreRef.current = true; }, 300);
     }
-  }, [currentSearchTerm, isLoading, hasMorePapers, setIsLoading, setPapers, setCurrentPaperIndex, setMessage, setHasMorePapers, setInteractionState]);
+  }, [currentSearchTerm, isLoading, hasMorePapers, rankFetchedBatch, setIsLoading, setPapers, setCurrentPaperIndex, setMessage, setHasMorePapers]);
 
   const handleSearchInputChange = (event: React.ChangeEvent<HTMLInputElement>) => { setSearchQuery(event.target.value); };
   
   const handleSearchSubmit = (event?: React.FormEvent<HTMLFormElement>) => {
     if (event) event.preventDefault();
-    const term = searchQuery.trim();
-    console.log('Search submitted with query:', term);
-    setCurrentSearchTerm(term); // ★★★ 検索実行時に currentSearchTerm を更新 ★★★
-    setMessage(term ? `「${term}」の論文を検索中...` : 'Kiga-ers へようこそ！論文を探しています...'); // メッセージを検索開始時に設定
-    fetchPapers(true, term, 0); // isInitialOrNewSearch = true で新規検索
+    // キーワード欄と詳細検索パネルの条件をまとめる (詳細検索を閉じている場合はキーワードのみ)
+    const criteria: PaperSearchCriteria = showAdvancedSearch
+      ? { ...advancedCriteria, query: searchQuery.trim() || undefined, categories: advancedCriteria.categories?.filter(Boolean) }
+      : { query: searchQuery.trim() || undefined };
+    try {
+      validateSearchCriteria(criteria);
+    } catch (error) {
+      if (error instanceof SearchCriteriaError) { setSearchError(error.message); return; }
+      throw error;
+    }
+    setSearchError(null);
+    const term = describeSearchCriteria(criteria);
+    console.log('Search submitted with criteria:', criteria);
+    setCurrentCriteria(criteria); // ★★★ 検索実行時に currentCriteria を更新 ★★★
+    activeSourcesRef.current = showAdvancedSearch ? selectedSources : [];
+    setMessage(hasSearchCriteria(criteria) ? `「${term}」の論文を検索中...` : 'Kiga-ers へようこそ！論文を探しています...'); // メッセージを検索開始時に設定
+    fetchPapers(true, criteria, null); // isInitialOrNewSearch = true で新規検索
   };
 
   // ★★★ 初期ロード用のuseEffectを修正 ★★★
   useEffect(() => {
-    // ページロード時に一度だけ実行
-    // currentSearchTerm が空（つまりまだ何も検索していない）かつ、論文が0件の場合に初期フェッチ
-    if (papers.length === 0 && currentSearchTerm === '') {
+    // スワイプ履歴・ライブラリ・あとで読むの読み込み完了後に一度だけ実行 (読み込む前は判定済みの論文を除外できない)
+    // currentCriteria が空（つまりまだ何も検索していない）かつ、論文が0件の場合に初期フェッチ
+    if (isLoadingHistory || isLoadingPersistence || isLoadingReadLater) return;
+    if (papers.length === 0 && !hasSearchCriteria(currentCriteria)) {
       console.log('useEffect (Mount): Calling initial fetchPapers for default content.');
       // 初期メッセージは fetchPapers 内で設定されるか、ここで明示的に設定
       setMessage('Kiga-ers へようこそ！論文を探しています...');
-      fetchPapers(true, '', 0); // currentSearchTerm（空文字列）でデフォルト検索
+      fetchPapers(true, {}, null); // 条件なしでデフォルト検索
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // 空の依存配列でマウント時に一度だけ実行
+  }, [isLoadingHistory, isLoadingPersistence, isLoadingReadLater]); // 全ての読み込みが終わった時に一度だけ実行
 
   useEffect(() => { // 追加ロード用
     const actualPapersLength = papers.filter(p => !p.isEndOfFeedCard).length;
@@ -159,53 +252,160 @@ export default function HomePage() {
     const alreadyHasEndOfFeedCard = papers.some(p => p.id === END_OF_FEED_CARD_ID_PAGE);
 
     if (needsMoreFetch && !isLoading && hasMorePapers && !alreadyHasEndOfFeedCard && canFetchMoreRef.current) {
-      console.log('useEffect (Index/State Change): Condition met for fetching more papers. Term:', currentSearchTerm, 'Offset:', actualPapersLength);
-      fetchPapers(false, currentSearchTerm, actualPapersLength);
+      console.log('useEffect (Index/State Change): Condition met for fetching more papers. Term:', currentSearchTerm, 'Cursor:', nextCursorRef.current);
+      fetchPapers(false, currentCriteria, nextCursorRef.current);
     }
-  }, [currentPaperIndex, papers, currentSearchTerm, isLoading, hasMorePapers, fetchPapers]);
+  }, [currentPaperIndex, papers, currentCriteria, currentSearchTerm, isLoading, hasMorePapers, fetchPapers]);
 
 
-  const generateAiSummary = useCallback(async (paperId: string, pdfUrl: string, paperTitle: string) => {
-    if (isSummarizing || !pdfUrl) return;
+  // isPrefetch: 先読み。スワイプして見えなくなったら中止し、失敗してもダイアログは出さない
+  const generateAiSummary = useCallback(async (paperId: string, pdfUrl: string, paperTitle: string, regenerate = false, source: SummarySource = 'pdf', isPrefetch = false) => {
+    if (summaryAbortRefs.current.has(paperId) || (source === 'pdf' && !pdfUrl)) return; // 同じ論文の要約は1つずつ
     const paperToUpdate = papers.find(p => p.id === paperId);
-    if (paperToUpdate?.aiSummary) return;
+    if (!paperToUpdate || (!regenerate && !needsSummary(paperToUpdate, summaryOptions, source))) return;
 
-    setIsSummarizing(paperId);
+    const abortController = new AbortController();
+    summaryAbortRefs.current.set(paperId, abortController);
+    setSummaryJobs(prev => ({ ...prev, [paperId]: { draft: '', isPrefetch } }));
+    const setDraft = (draft: string) => setSummaryJobs(prev => prev[paperId] ? { ...prev, [paperId]: { ...prev[paperId], draft } } : prev);
     try {
-      const response = await fetch('/api/summarize', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ pdfUrl, paperTitle }),
-      });
-      if (!response.ok) { const errorData = await response.json().catch(() => ({})); throw new Error(`要約の生成に失敗しました: ${errorData.error || response.status}`); }
-      const data = await response.json();
-      setPapers(prevPapers => prevPapers.map(p => p.id === paperId ? { ...p, aiSummary: data.summary } : p));
-    } catch (error) { console.error('Failed to generate summary:', error); alert(`要約生成エラー: ${error instanceof Error ? error.message : '不明なエラー'}`);
-    } finally { setIsSummarizing(null); }
-  }, [isSummarizing, papers, setPapers]);
-
-  const resetCardInteraction = () => { setInteractionState({ isSwiping: false, cardTransform: '', feedbackColor: '', flyingDirection: null }); touchStartX.current = null; touchCurrentX.current = null; touchStartY.current = null; };
-  
-  const goToNextPaper = useCallback(() => {
-    resetCardInteraction();
-    setCurrentPaperIndex(prevIndex => Math.min(prevIndex + 1, papers.length));
-  }, [papers.length]);
+      const { variant } = await requestPaperSummary(
+        { ...paperToUpdate, pdfLink: pdfUrl, title: paperTitle },
+        { options: summaryOptions, source, regenerate, onDelta: setDraft, signal: abortController.signal },
+      );
+      setPapers(prevPapers => prevPapers.map(p => p.id === paperId ? applySummaryVariant(p, variant) : p));
+      if (isPaperLiked(paperId)) updateLikedPaperSummary(paperId, variant); // ライブラリにある場合はそちらも更新する
+    } catch (error) {
+      if (isAbortError(error)) { console.log(`Summary generation for ${paperId} was cancelled.`); return; }
+      if (isPrefetch) { console.warn(`Prefetching summary for ${paperId} failed:`, error); return; }
+      console.error('Failed to generate summary:', error); alert(`要約生成エラー: ${error instanceof Error ? error.message : '不明なエラー'}`);
+    } finally {
+      summaryAbortRefs.current.delete(paperId);
+      setSummaryJobs(prev => { const next = { ...prev }; delete next[paperId]; return next; });
+    }
+  }, [papers, setPapers, summaryOptions, isPaperLiked, updateLikedPaperSummary]);
 
-  const handleLike = useCallback((paper: Paper) => {
-    addLikedPaper(paper);
-    setInteractionState(prev => ({ ...prev, isSwiping: false, flyingDirection: 'right', feedbackColor: styles.feedbackPinkLike || '', cardTransform: '' }));
-    setTimeout(() => goToNextPaper(), 600);
-  }, [addLikedPaper, goToNextPaper]);
+  const cancelAiSummary = useCallback((paperId: string) => summaryAbortRefs.current.get(paperId)?.abort(), []);
+  useEffect(() => { // ページを離れたら生成を止める
+    const abortControllers = summaryAbortRefs.current;
+    return () => abortControllers.forEach(controller => controller.abort());
+  }, []);
 
-  const handleDislike = useCallback(() => {
-    setInteractionState(prev => ({ ...prev, isSwiping: false, flyingDirection: 'left', feedbackColor: styles.feedbackLimeDislike || '', cardTransform: '' }));
-    setTimeout(() => goToNextPaper(), 600);
-  }, [goToNextPaper]);
+  // 一番上から SUMMARY_PREFETCH_COUNT 枚のカードを、表示される前に要約しておく (同時に生成するのは MAX_PREFETCH_CONCURRENCY 件まで)
+  useEffect(() => {
+    if (isLoadingSummaryPreferences) return;
+    const upcomingPapers = autoSummarySource
+      ? papers.slice(currentPaperIndex, currentPaperIndex + SUMMARY_PREFETCH_COUNT).filter(p => !p.isEndOfFeedCard)
+      : [];
+    const upcomingIds = new Set(upcomingPapers.map(p => p.id));
+    const prefetchJobIds = Object.keys(summaryJobs).filter(paperId => summaryJobs[paperId].isPrefetch);
+    for (const paperId of prefetchJobIds) { // スワイプして見えなくなったカード (先読みをやめた場合も) の生成は止める
+      if (upcomingIds.has(paperId)) continue;
+      summaryAbortRefs.current.get(paperId)?.abort();
+      // 取り消しでカードが戻ってきたら、もう一度先読みする
+      prefetchAttemptsRef.current.forEach(key => { if (key.startsWith(`${paperId}:`)) prefetchAttemptsRef.current.delete(key); });
+    }
+    if (!autoSummarySource) return;
+
+    let runningCount = prefetchJobIds.filter(paperId => upcomingIds.has(paperId)).length;
+    for (const paper of upcomingPapers) {
+      if (runningCount >= MAX_PREFETCH_CONCURRENCY) break;
+      if (summaryJobs[paper.id] || !needsSummary(paper, summaryOptions, autoSummarySource)) continue;
+      if (autoSummarySource === 'abstract' ? !paper.summary : !paper.pdfLink) continue;
+      const attemptKey = `${paper.id}:${summaryVariantKey(summaryOptions)}:${autoSummarySource}`;
+      if (prefetchAttemptsRef.current.has(attemptKey)) continue;
+      prefetchAttemptsRef.current.add(attemptKey);
+      runningCount++;
+      generateAiSummary(paper.id, paper.pdfLink, paper.title, false, autoSummarySource, true);
+    }
+  }, [autoSummarySource, isLoadingSummaryPreferences, summaryJobs, papers, currentPaperIndex, summaryOptions, generateAiSummary]);
 
+  const translateAbstract = useCallback(async (paperId: string) => {
+    const paperToTranslate = papers.find(p => p.id === paperId);
+    if (!paperToTranslate || translatingIds.has(paperId)) return;
+    setTranslatingIds(prev => new Set(prev).add(paperId));
+    try {
+      const translation = await requestAbstractTranslation(paperToTranslate);
+      setPapers(prevPapers => prevPapers.map(p => p.id === paperId ? { ...p, abstractTranslation: translation } : p));
+      if (isPaperLiked(paperId)) updateLikedPaperTranslation(paperId, translation); // ライブラリにある場合はそちらも更新する
+    } catch (error) {
+      console.error('Failed to translate abstract:', error); alert(`翻訳エラー: ${error instanceof Error ? error.message : '不明なエラー'}`);
+    } finally {
+      setTranslatingIds(prev => { const next = new Set(prev); next.delete(paperId); return next; });
+    }
+  }, [papers, translatingIds, isPaperLiked, updateLikedPaperTranslation]);
+
+  const pushUndoEntry = useCallback((paper: Paper, decision: SwipeDecision) => {
+    setUndoStack(prev => [...prev, { paper, decision, index: currentPaperIndex }].slice(-MAX_UNDO_STEPS_PAGE));
+  }, [currentPaperIndex]);
+
+  // SwipeDeck でスワイプが確定した時の処理 (右: いいね、左: 興味なし、上: あとで読む)。カードが飛んでいくアニメーションは SwipeDeck が続ける
+  const handleSwipe = useCallback((paper: Paper, direction: SwipeDirection) => {
+    if (!paper.isEndOfFeedCard) {
+      if (direction === 'right') {
+        const collectionId = collections.some(c => c.id === likeCollectionId) ? likeCollectionId : undefined;
+        addLikedPaper({ ...paper, collectionId });
+        recordDecision(paper, 'like', currentSearchTerm);
+        pushUndoEntry(paper, 'like');
+      } else if (direction === 'left') {
+        recordDecision(paper, 'dislike', currentSearchTerm); // 再表示の防止とおすすめ順の計算に使う
+        pushUndoEntry(paper, 'dislike');
+      } else {
+        addToReadLater(paper);
+        recordDecision(paper, 'later', currentSearchTerm);
+        pushUndoEntry(paper, 'later');
+      }
+    }
+    setCurrentPaperIndex(prevIndex => Math.min(prevIndex + 1, papers.length));
+  }, [collections, likeCollectionId, addLikedPaper, addToReadLater, recordDecision, currentSearchTerm, pushUndoEntry, papers.length]);
+
+  // ← → 以外のキー操作: スペースでAbstractを開閉、S でAI要約を生成
+  const deckKeyBindings = useMemo<Record<string, (paper: Paper) => void>>(() => ({
+    ' ': (paper) => setExpandedAbstractId(prev => prev === paper.id ? null : paper.id),
+    s: (paper) => { if (!paper.isEndOfFeedCard) generateAiSummary(paper.id, paper.pdfLink, paper.title); },
+  }), [generateAiSummary]);
+
+  // 直前のスワイプを取り消す。いいね・スワイプ履歴への記録も元に戻す (カードを戻すアニメーションは SwipeDeck が表示する)
+  const handleUndo = useCallback(() => {
+    const lastEntry = undoStack[undoStack.length - 1];
+    if (!lastEntry) return;
+    setUndoStack(prev => prev.slice(0, -1));
+    if (lastEntry.decision === 'like') removeLikedPaper(lastEntry.paper.id);
+    if (lastEntry.decision === 'later') removeFromReadLater(lastEntry.paper.id);
+    removeHistoryEntry(lastEntry.paper.id);
+    setCurrentPaperIndex(lastEntry.index);
+  }, [undoStack, removeLikedPaper, removeFromReadLater, removeHistoryEntry]);
+
+  useEffect(() => { // Z キー (Ctrl/Cmd+Z も可) で取り消し。入力欄での操作は除く
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+      if (e.key.toLowerCase() !== 'z' || e.shiftKey || e.altKey) return;
+      e.preventDefault();
+      handleUndo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo]);
+
+  // おすすめ順 ⇔ 新着順の切り替え。表示中のカードは動かさず、まだ見ていないカードだけを並べ替える
+  const handleToggleRankingMode = useCallback(() => {
+    const nextMode = rankingMode === 'personalized' ? 'chronological' : 'personalized';
+    setRankingMode(nextMode);
+    const fixedCount = Math.min(currentPaperIndex + 1, papers.length);
+    const upcoming = papers.slice(fixedCount).filter(p => !p.isEndOfFeedCard);
+    const endCards = papers.slice(fixedCount).filter(p => p.isEndOfFeedCard);
+    let reordered: Paper[];
+    if (nextMode === 'personalized') {
+      const ranked = rankPapers(upcoming, recommendationProfile);
+      setRecommendations(prev => ({ ...prev, ...ranked.explanations }));
+      reordered = ranked.papers;
+    } else {
+      reordered = [...upcoming].sort((a, b) => (fetchOrderRef.current.get(a.id) ?? 0) - (fetchOrderRef.current.get(b.id) ?? 0));
+    }
+    setPapers([...papers.slice(0, fixedCount), ...reordered, ...endCards]);
+  }, [rankingMode, setRankingMode, currentPaperIndex, papers, recommendationProfile]);
 
-  const handleTouchStart = (e: React.TouchEvent<HTMLDivElement>) => { if (!e.touches[0] || interactionState.flyingDirection) return; setInteractionState(prev => ({ ...prev, isSwiping: true, cardTransform: '', feedbackColor: '' })); touchStartX.current = e.touches[0].clientX; touchCurrentX.current = e.touches[0].clientX; touchStartY.current = e.touches[0].clientY; };
-  const handleTouchMove = (e: React.TouchEvent<HTMLDivElement>) => { if (touchStartX.current === null || !e.touches[0] || touchStartY.current === null || !topCardRef.current || interactionState.flyingDirection || !interactionState.isSwiping) return; const currentX = e.touches[0].clientX; const currentY = e.touches[0].clientY; touchCurrentX.current = currentX; const diffX = currentX - touchStartX.current; const diffY = Math.abs(currentY - touchStartY.current); if (diffY > Math.abs(diffX) * 1.8 && diffY > 15) { if(interactionState.isSwiping) resetCardInteraction(); return; } const rotation = (diffX / topCardRef.current.offsetWidth) * SWIPE_MAX_ROTATION_PAGE; const translateX = diffX * SWIPE_TRANSLATE_X_SCALE_PAGE; setInteractionState(prev => ({ ...prev, cardTransform: `translateX(${translateX}px) rotate(${rotation}deg)`, feedbackColor: Math.abs(diffX) > SWIPE_THRESHOLD_PAGE / 2 ? (diffX > 0 ? (styles.feedbackPinkLike || '') : (styles.feedbackLimeDislike || '')) : '' })); };
-  const handleTouchEnd = () => { if (!interactionState.isSwiping && !interactionState.flyingDirection) return; if (interactionState.flyingDirection) return; if (touchStartX.current === null || touchCurrentX.current === null ) { resetCardInteraction(); return; } const diffX = touchCurrentX.current - touchStartX.current; const currentPaper = papers[currentPaperIndex]; if (!currentPaper) { resetCardInteraction(); return; } if (Math.abs(diffX) > SWIPE_THRESHOLD_PAGE) { if (diffX > 0) { handleLike(currentPaper); } else { handleDislike(); } } else { resetCardInteraction(); } };
 
   const papersInStack = papers.slice(currentPaperIndex, currentPaperIndex + VISIBLE_CARDS_IN_STACK_PAGE);
 
@@ -224,7 +424,7 @@ export default function HomePage() {
     }
     // ローディングが完了し、表示すべき「実際の」論文がなく、かつEndOfFeedCardもない場合
     if (!isLoading && papers.filter(p => !p.isEndOfFeedCard).length === 0 && !papers.some(p => p.id === END_OF_FEED_CARD_ID_PAGE)) {
-      return ( <div className={styles.loadingStateContainer}><div className={styles.loadingStateBox}><h1 className={`${styles.loadingStateTitle} pop-title`}>{message || "表示できる論文がありません。"}</h1><button onClick={() => {setMessage(currentSearchTerm ? `「${currentSearchTerm}」の論文を再読み込み中...` : '論文を再読み込み中...'); fetchPapers(true, currentSearchTerm, 0);}} className={styles.reloadButton}>再読み込み</button></div></div> );
+      return ( <div className={styles.loadingStateContainer}><div className={styles.loadingStateBox}><h1 className={`${styles.loadingStateTitle} pop-title`}>{message || "表示できる論文がありません。"}</h1><button onClick={() => {setMessage(currentSearchTerm ? `「${currentSearchTerm}」の論文を再読み込み中...` : '論文を再読み込み中...'); fetchPapers(true, currentCriteria, null);}} className={styles.reloadButton}>再読み込み</button></div></div> );
     }
     return null;
   };
@@ -237,9 +437,65 @@ export default function HomePage() {
           <h1 className={`${styles.title} pop-title`}>Kiga-ers</h1>
           <form onSubmit={handleSearchSubmit} className={styles.searchForm}>
             <div className={styles.searchBarContainer}><MagnifyingGlassIcon className={styles.searchIcon} /><input type="search" placeholder="論文を検索 (例: machine learning)" value={searchQuery} onChange={handleSearchInputChange} className={styles.searchInput} /></div>
+            <button
+              type="button"
+              onClick={() => setShowAdvancedSearch(prev => !prev)}
+              className={`${styles.advancedToggleButton} ${showAdvancedSearch ? styles.advancedToggleButtonActive : ''}`}
+              aria-expanded={showAdvancedSearch}
+              aria-label="詳細検索"
+              title="詳細検索"
+            >
+              <AdjustmentsHorizontalIcon className={styles.advancedToggleIcon} />
+            </button>
             <button type="submit" className={styles.searchButton}>検索</button>
           </form>
-          <p className={styles.subtitle}>いいねした論文: {likedPapers.length}件 {currentSearchTerm && ` / 検索結果: "${currentSearchTerm}"`} </p>
+          {showAdvancedSearch && (
+            <AdvancedSearchPanel
+              criteria={advancedCriteria}
+              onChange={setAdvancedCriteria}
+              sources={selectedSources}
+              onSourcesChange={setSelectedSources}
+              onReset={() => { setAdvancedCriteria({}); setSelectedSources([DEFAULT_PAPER_SOURCE_ID]); }}
+            />
+          )}
+          {searchError && <p className={styles.searchError}>{searchError}</p>}
+          <p className={styles.subtitle}>
+            いいねした論文: {likedPapers.length}件 / <Link href="/later" className={styles.subtitleLink}>あとで読む: {readLaterPapers.length}件</Link>
+            {currentSearchTerm && ` / 検索結果: "${currentSearchTerm}"`}
+            <button
+              type="button"
+              onClick={handleToggleRankingMode}
+              className={styles.rankingToggleButton}
+              title={rankingMode === 'personalized' ? 'いいね・興味なしの履歴からおすすめ順に並べています' : 'APIの返却順 (新着順・関連度順) で表示しています'}
+            >
+              {rankingMode === 'personalized' ? 'おすすめ順' : '新着順'}
+            </button>
+            {collections.length > 0 && (
+              <select
+                value={likeCollectionId}
+                onChange={(e) => setLikeCollectionId(e.target.value)}
+                className={styles.likeCollectionSelect}
+                aria-label="いいねした論文の保存先"
+                title="いいねした論文を保存するコレクション"
+              >
+                <option value="">保存先: 未分類</option>
+                {collections.map(collection => (
+                  <option key={collection.id} value={collection.id}>保存先: {collection.name}</option>
+                ))}
+              </select>
+            )}
+            <SummaryOptionsPicker showAutoSummarySelect />
+            <button
+              type="button"
+              onClick={handleUndo}
+              disabled={undoStack.length === 0}
+              className={styles.undoButton}
+              title="直前のスワイプを取り消す (Z)"
+            >
+              <ArrowUturnLeftIcon className={styles.undoIcon} />
+              元に戻す{undoStack.length > 0 ? ` (${undoStack.length})` : ''}
+            </button>
+          </p>
         </div>
 
         {/* 右側の要素 */}
@@ -272,52 +528,47 @@ export default function HomePage() {
       {/* 論文カードの表示は、papers配列にEndOfFeedCard以外のカードが1枚でもあれば行う */}
       {papers.some(p => !p.isEndOfFeedCard) && (
         <main className={styles.mainContentArea}>
-          {papersInStack.length > 0 ? (
-            papersInStack.slice().reverse().map((paper, indexInVisibleStack_reversed) => {
-              const indexInStack = (VISIBLE_CARDS_IN_STACK_PAGE - 1) - indexInVisibleStack_reversed;
-              const isTopCard = indexInStack === 0;
-              const cardDynamicStyles: React.CSSProperties = {};
-              let animationClass = '';
-
-              if (isTopCard) {
-                cardDynamicStyles.transform = interactionState.cardTransform;
-                if (interactionState.flyingDirection === 'left') animationClass = styles.animateFlyOutLeft || '';
-                if (interactionState.flyingDirection === 'right') animationClass = styles.animateFlyOutRight || '';
-              } else {
-                if (!interactionState.flyingDirection) {
-                    cardDynamicStyles.transform = `scale(${1 - (indexInStack * 0.04)}) translateY(${indexInStack * 8}px) rotate(${indexInStack * (indexInStack % 2 === 0 ? -1:1) * 1}deg)`;
-                    cardDynamicStyles.opacity = 1 - (indexInStack * 0.4);
-                } else if (indexInStack === 1) {
-                    animationClass = styles.animateNextCardEnter || '';
-                }
-              }
-              
-              return (
-                <PaperCard
-                  key={paper.id}
-                  paper={paper}
-                  isSummarizing={isSummarizing === paper.id}
-                  onGenerateAiSummary={generateAiSummary}
-                  onLike={handleLike}
-                  onDislike={handleDislike}
-                  isLiked={isPaperLiked(paper.id)}
-                  cardRef={isTopCard ? topCardRef : undefined}
-                  cardStyle={{ ...cardDynamicStyles, zIndex: VISIBLE_CARDS_IN_STACK_PAGE - indexInStack }}
-                  onTouchStart={isTopCard ? handleTouchStart : undefined}
-                  onTouchMove={isTopCard ? handleTouchMove : undefined}
-                  onTouchEnd={isTopCard ? handleTouchEnd : undefined}
-                  onTouchCancel={isTopCard ? handleTouchEnd : undefined}
-                  className={animationClass}
-                  isTopCard={isTopCard}
-                  interactionState={isTopCard ? interactionState : undefined}
-                  showSwipeButtons={true}
-                />
-              );
-            })
-          ) : ( /* スタックが空になったが、まだスワイプしていない「実際の」論文がある場合（EndOfFeedCardに到達する前） */
+          <SwipeDeck
+            items={papers}
+            currentIndex={currentPaperIndex}
+            onSwipe={handleSwipe}
+            directions={SWIPE_DIRECTIONS_PAGE}
+            visibleCount={VISIBLE_CARDS_IN_STACK_PAGE}
+            keyBindings={deckKeyBindings}
+            renderCard={(paper, cardProps) => (
+              <PaperCard
+                paper={paper}
+                isSummarizing={Boolean(summaryJobs[paper.id])}
+                summaryDraft={summaryJobs[paper.id]?.draft}
+                summaryOptions={summaryOptions}
+                onCancelAiSummary={() => cancelAiSummary(paper.id)}
+                isTranslatingAbstract={translatingIds.has(paper.id)}
+                onTranslateAbstract={translateAbstract}
+                onGenerateAiSummary={generateAiSummary}
+                onLike={cardProps.swipe ? () => cardProps.swipe?.('right') : undefined}
+                onDislike={cardProps.swipe ? () => cardProps.swipe?.('left') : undefined}
+                onSaveForLater={cardProps.swipe && !paper.isEndOfFeedCard ? () => cardProps.swipe?.('up') : undefined}
+                isLiked={isPaperLiked(paper.id)}
+                recommendation={rankingMode === 'personalized' ? recommendations[paper.id] : undefined}
+                cardRef={cardProps.cardRef}
+                cardStyle={cardProps.cardStyle}
+                onPointerDown={cardProps.onPointerDown}
+                onPointerMove={cardProps.onPointerMove}
+                onPointerUp={cardProps.onPointerUp}
+                onPointerCancel={cardProps.onPointerCancel}
+                className={cardProps.className}
+                isTopCard={cardProps.isTopCard}
+                interactionState={cardProps.interactionState}
+                isAbstractOpen={expandedAbstractId === paper.id}
+                onAbstractToggle={(isOpen) => setExpandedAbstractId(isOpen ? paper.id : null)}
+                showSwipeButtons={true}
+              />
+            )}
+          />
+          {papersInStack.length === 0 && /* スタックが空になったが、まだスワイプしていない「実際の」論文がある場合（EndOfFeedCardに到達する前） */
             !isLoading && papers.length > 0 && currentPaperIndex < papers.filter(p => !p.isEndOfFeedCard).length &&
             <div className={styles.loadingStateContainer}><div className={styles.loadingStateBox}><h1 className={`${styles.loadingStateTitle} pop-title`}>次の論文を準備中...</h1></div></div>
-          )}
+          }
         </main>
       )}
       {isLoading && papers.filter(p=>!p.isEndOfFeedCard).length > 0 && ( <div className={styles.loadingMoreIndicator}> Loading more... </div> )}
@@ -0,0 +1,121 @@
+// apps/web/src/components/AdvancedSearchPanel.tsx
+'use client';
+
+import React from 'react';
+import styles from './AdvancedSearchPanel.module.css';
+import type { PaperSearchCriteria, SearchOperator } from '@/lib/paperSearch';
+import { PAPER_SOURCE_CATALOG, type PaperSourceId } from '@/lib/paperSources/catalog';
+
+interface AdvancedSearchPanelProps {
+  criteria: PaperSearchCriteria; // キーワード (query) 以外の詳細条件
+  onChange: (criteria: PaperSearchCriteria) => void;
+  sources: PaperSourceId[]; // 検索対象の論文ソース (複数選択でフィードを統合)
+  onSourcesChange: (sources: PaperSourceId[]) => void;
+  onReset: () => void;
+}
+
+// よく使うカテゴリはワンタップで追加できるようにする
+const SUGGESTED_CATEGORIES = ['cs.AI', 'cs.LG', 'cs.CL', 'cs.CV', 'cs.RO', 'stat.ML'];
+
+export default function AdvancedSearchPanel({ criteria, onChange, sources, onSourcesChange, onReset }: AdvancedSearchPanelProps) {
+  const categories = criteria.categories ?? [];
+
+  const updateField = (field: 'title' | 'author' | 'abstract' | 'exclude' | 'from' | 'to') =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      onChange({ ...criteria, [field]: e.target.value || undefined });
+    };
+
+  const handleCategoriesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const values = e.target.value.split(',').map(value => value.trim());
+    // 入力途中の末尾カンマは残したいので空要素は送信時に取り除く (lib側で正規化)
+    onChange({ ...criteria, categories: values.some(Boolean) ? values : undefined });
+  };
+
+  const toggleCategory = (category: string) => {
+    const current = categories.filter(Boolean);
+    const next = current.includes(category) ? current.filter(c => c !== category) : [...current, category];
+    onChange({ ...criteria, categories: next.length > 0 ? next : undefined });
+  };
+
+  const toggleSource = (sourceId: PaperSourceId) => {
+    const next = sources.includes(sourceId) ? sources.filter(id => id !== sourceId) : [...sources, sourceId];
+    if (next.length > 0) onSourcesChange(next); // 最低1つは選択された状態にする
+  };
+
+  const handleOperatorChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onChange({ ...criteria, operator: e.target.value as SearchOperator });
+  };
+
+  return (
+    <div className={styles.panel}>
+      <div className={styles.fieldGrid}>
+        <div className={`${styles.field} ${styles.fullWidth}`}>
+          <span className={styles.label}>論文ソース (複数選択で統合フィード)</span>
+          <span className={styles.categoryChips}>
+            {PAPER_SOURCE_CATALOG.map(source => (
+              <button
+                key={source.id}
+                type="button"
+                onClick={() => toggleSource(source.id)}
+                className={`${styles.categoryChip} ${sources.includes(source.id) ? styles.categoryChipActive : ''}`}
+                aria-pressed={sources.includes(source.id)}
+              >
+                {source.label}
+              </button>
+            ))}
+          </span>
+        </div>
+        <label className={styles.field}>
+          <span className={styles.label}>タイトル</span>
+          <input type="text" value={criteria.title ?? ''} onChange={updateField('title')} placeholder='例: "diffusion model"' className={styles.input} />
+        </label>
+        <label className={styles.field}>
+          <span className={styles.label}>著者 (カンマ区切り)</span>
+          <input type="text" value={criteria.author ?? ''} onChange={updateField('author')} placeholder="例: Yann LeCun, Bengio" className={styles.input} />
+        </label>
+        <label className={styles.field}>
+          <span className={styles.label}>Abstract</span>
+          <input type="text" value={criteria.abstract ?? ''} onChange={updateField('abstract')} placeholder="例: (reinforcement OR imitation) learning" className={styles.input} />
+        </label>
+        <label className={styles.field}>
+          <span className={styles.label}>除外キーワード (ANDNOT)</span>
+          <input type="text" value={criteria.exclude ?? ''} onChange={updateField('exclude')} placeholder="例: survey" className={styles.input} />
+        </label>
+        <label className={`${styles.field} ${styles.fullWidth}`}>
+          <span className={styles.label}>カテゴリ (カンマ区切り、いずれかに一致)</span>
+          <input type="text" value={categories.join(', ')} onChange={handleCategoriesChange} placeholder="例: cs.AI, cs.LG" className={styles.input} />
+          <span className={styles.categoryChips}>
+            {SUGGESTED_CATEGORIES.map(category => (
+              <button
+                key={category}
+                type="button"
+                onClick={() => toggleCategory(category)}
+                className={`${styles.categoryChip} ${categories.includes(category) ? styles.categoryChipActive : ''}`}
+              >
+                {category}
+              </button>
+            ))}
+          </span>
+        </label>
+        <label className={styles.field}>
+          <span className={styles.label}>投稿日 (から)</span>
+          <input type="date" value={criteria.from ?? ''} onChange={updateField('from')} className={styles.input} />
+        </label>
+        <label className={styles.field}>
+          <span className={styles.label}>投稿日 (まで)</span>
+          <input type="date" value={criteria.to ?? ''} onChange={updateField('to')} className={styles.input} />
+        </label>
+        <label className={styles.field}>
+          <span className={styles.label}>キーワード条件の結合</span>
+          <select value={criteria.operator ?? 'AND'} onChange={handleOperatorChange} className={styles.input}>
+            <option value="AND">すべてに一致 (AND)</option>
+            <option value="OR">いずれかに一致 (OR)</option>
+          </select>
+        </label>
+      </div>
+      <div className={styles.panelActions}>
+        <button type="button" onClick={onReset} className={styles.resetButton}>条件をクリア</button>
+      </div>
+    </div>
+  );
+}
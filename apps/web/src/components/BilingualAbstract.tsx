@@ -0,0 +1,26 @@
+// apps/web/src/components/BilingualAbstract.tsx
+'use client';
+
+import React from 'react';
+import FormattedTextRenderer from '@/components/FormattedTextRenderer';
+import type { AbstractTranslation } from '@/lib/abstractTranslation';
+import styles from './BilingualAbstract.module.css';
+
+interface BilingualAbstractProps {
+  translation: AbstractTranslation;
+  variant?: 'compact' | 'full'; // compact: カード用 (原文の下に訳文) / full: 詳細ページ用 (左右に並べる)
+}
+
+// Abstract の原文と日本語訳を1文ずつ対応させて表示する
+export default function BilingualAbstract({ translation, variant = 'compact' }: BilingualAbstractProps) {
+  return (
+    <ol className={`${styles.bilingualAbstract} ${styles[variant]}`}>
+      {translation.sentences.map((sentence, index) => (
+        <li key={index} className={styles.sentencePair}>
+          <p className={styles.sourceSentence} lang="en"><FormattedTextRenderer text={sentence.source} /></p>
+          <p className={styles.translatedSentence} lang="ja"><FormattedTextRenderer text={sentence.translation} /></p>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -4,7 +4,7 @@
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import styles from './Footer.module.css';
-import { HomeIcon, BookmarkIcon } from '@heroicons/react/24/solid';
+import { HomeIcon, BookmarkIcon, ClockIcon, BookOpenIcon, UserCircleIcon } from '@heroicons/react/24/solid';
 
 export default function Footer() {
   const pathname = usePathname();
@@ -20,6 +20,18 @@ export default function Footer() {
           <BookmarkIcon className={styles.icon} />
           <span className={styles.navText}>ライブラリ</span>
         </Link>
+        <Link href="/later" className={`${styles.navLink} ${pathname === '/later' ? styles.active : ''}`}>
+          <BookOpenIcon className={styles.icon} />
+          <span className={styles.navText}>あとで読む</span>
+        </Link>
+        <Link href="/history" className={`${styles.navLink} ${pathname === '/history' ? styles.active : ''}`}>
+          <ClockIcon className={styles.icon} />
+          <span className={styles.navText}>履歴</span>
+        </Link>
+        <Link href="/account" className={`${styles.navLink} ${pathname === '/account' ? styles.active : ''}`}>
+          <UserCircleIcon className={styles.icon} />
+          <span className={styles.navText}>アカウント</span>
+        </Link>
       </nav>
     </footer>
   );
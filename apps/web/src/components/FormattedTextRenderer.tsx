@@ -4,6 +4,7 @@
 import React, { useMemo } from 'react';
 import katex from 'katex';
 import 'katex/dist/katex.min.css'; // KaTeXのCSSをインポート
+import { ALLOWED_MARKUP_TAG_PATTERN } from '@/lib/paperSources/markup';
 
 interface FormattedTextRendererProps {
   text: string;
@@ -75,11 +76,8 @@ const FormattedTextRenderer: React.FC<FormattedTextRendererProps> = ({ text }) =
           console.error('KaTeX rendering error:', e);
           parts.push(<span key={`latex-error-${match.index}`} style={{ color: 'red' }}>{token}</span>);
         }
-      } else if (token.startsWith('<') && token.endsWith('>')) {
-        // HTMLタグ (例: <b>, <i>, <sup>, <sub>)
-        // 注意: この方法はXSS脆弱性のリスクがあるため、信頼できるHTMLのみに使用してください。
-        // より安全な方法としては、DOMPurifyのようなサニタイザライブラリと併用することを推奨します。
-        // arXivのデータは比較的信頼できると仮定しますが、本番環境では注意が必要です。
+      } else if (ALLOWED_MARKUP_TAG_PATTERN.test(token)) {
+        // 装飾タグ (<b>, <i>, <sup>, <sub>) のみ HTML として描画する。属性付きのタグやそれ以外のタグはテキストのまま表示する
         parts.push(<span key={`html-${match.index}`} dangerouslySetInnerHTML={{ __html: token }} />);
       } else {
         // 通常のテキスト
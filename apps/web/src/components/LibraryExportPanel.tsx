@@ -0,0 +1,96 @@
+// apps/web/src/components/LibraryExportPanel.tsx
+'use client';
+
+import React, { useState } from 'react';
+import type { Paper } from '@/contexts/LikedPapersContext';
+import { EXPORT_FORMATS, exportPapers, type ExportFormat } from '@/lib/paperExport';
+import styles from './LibraryExportPanel.module.css';
+import { ArrowDownTrayIcon, ClipboardDocumentIcon } from '@heroicons/react/24/outline';
+
+type ExportScope = 'all' | 'filtered' | 'selected';
+
+interface LibraryExportPanelProps {
+  allPapers: Paper[];
+  filteredPapers: Paper[]; // コレクション・タグで絞り込んだ結果
+  selectedPapers: Paper[];
+  collectionNames: Map<string, string>;
+}
+
+export default function LibraryExportPanel({ allPapers, filteredPapers, selectedPapers, collectionNames }: LibraryExportPanelProps) {
+  const [format, setFormat] = useState<ExportFormat>('bibtex');
+  const [scope, setScope] = useState<ExportScope>('all');
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  const scopes: { id: ExportScope; label: string; papers: Paper[] }[] = [
+    { id: 'all', label: 'ライブラリ全体', papers: allPapers },
+    { id: 'filtered', label: '表示中の論文', papers: filteredPapers },
+    { id: 'selected', label: '選択中の論文', papers: selectedPapers },
+  ];
+  // 選択を解除した後などで対象が空になったらライブラリ全体に戻す
+  const activeScope = scopes.find(s => s.id === scope && s.papers.length > 0) ?? scopes[0];
+  const formatInfo = EXPORT_FORMATS.find(f => f.id === format)!;
+
+  const buildExport = () => exportPapers(activeScope.papers, format, { collectionNames });
+
+  const handleDownload = () => {
+    const blob = new Blob([buildExport()], { type: `${formatInfo.mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `kigaers-library-${date}.${formatInfo.extension}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+    setStatusMessage(`${activeScope.papers.length} 件を ${formatInfo.label} でダウンロードしました。`);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(buildExport());
+      setStatusMessage(`${activeScope.papers.length} 件を ${formatInfo.label} でクリップボードにコピーしました。`);
+    } catch (error) {
+      console.error('LibraryExportPanel: Failed to copy to clipboard:', error);
+      setStatusMessage('クリップボードへのコピーに失敗しました。ダウンロードをお試しください。');
+    }
+  };
+
+  return (
+    <details className={styles.exportPanel}>
+      <summary className={styles.exportSummary}>
+        <ArrowDownTrayIcon className={styles.exportIcon} />
+        エクスポート
+      </summary>
+      <div className={styles.exportBody}>
+        <label className={styles.exportField}>
+          <span className={styles.exportLabel}>対象</span>
+          <select value={activeScope.id} onChange={(e) => setScope(e.target.value as ExportScope)} className={styles.exportSelect}>
+            {scopes.map(s => (
+              <option key={s.id} value={s.id} disabled={s.papers.length === 0}>{s.label} ({s.papers.length})</option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.exportField}>
+          <span className={styles.exportLabel}>形式</span>
+          <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={styles.exportSelect}>
+            {EXPORT_FORMATS.map(f => (
+              <option key={f.id} value={f.id}>{f.label}</option>
+            ))}
+          </select>
+        </label>
+        <div className={styles.exportActions}>
+          <button type="button" onClick={handleDownload} className={styles.exportButton}>
+            <ArrowDownTrayIcon className={styles.exportIcon} />
+            ダウンロード
+          </button>
+          <button type="button" onClick={handleCopy} className={`${styles.exportButton} ${styles.exportSecondaryButton}`}>
+            <ClipboardDocumentIcon className={styles.exportIcon} />
+            コピー
+          </button>
+        </div>
+        {statusMessage && <p className={styles.exportStatus}>{statusMessage}</p>}
+      </div>
+    </details>
+  );
+}
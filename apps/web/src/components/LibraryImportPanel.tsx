@@ -0,0 +1,170 @@
+// apps/web/src/components/LibraryImportPanel.tsx
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useLikedPapers, type Paper } from '@/contexts/LikedPapersContext';
+import {
+  findDuplicatePaper, paperMatchesCandidate, parseImportText,
+  type ImportFormat, type ImportReport, type UnresolvedImport,
+} from '@/lib/paperImport';
+import styles from './LibraryImportPanel.module.css';
+import { ArrowUpTrayIcon } from '@heroicons/react/24/outline';
+
+const ID_LIST_CHUNK_SIZE = 50; // /api/papers の id_list の上限に合わせる
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  list: 'ID / URL のリスト',
+  bibtex: 'BibTeX',
+  ris: 'RIS',
+};
+
+interface LibraryImportPanelProps {
+  report: ImportReport | null; // ライブラリが空の状態から切り替わっても結果を残すため、親で保持する
+  onReportChange: (report: ImportReport | null) => void;
+  defaultOpen?: boolean;
+}
+
+export default function LibraryImportPanel({ report, onReportChange, defaultOpen = false }: LibraryImportPanelProps) {
+  const { likedPapers, addLikedPapers } = useLikedPapers();
+  const [input, setInput] = useState('');
+  const [fileName, setFileName] = useState<string | undefined>(undefined);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsed = useMemo(() => (input.trim() ? parseImportText(input, fileName) : null), [input, fileName]);
+  const isImporting = progress !== null;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // 同じファイルを選び直せるようにする
+    if (!file) return;
+    try {
+      setInput(await file.text());
+      setFileName(file.name);
+      setError(null);
+    } catch (readError) {
+      console.error('LibraryImportPanel: Failed to read file:', readError);
+      setError(`「${file.name}」を読み込めませんでした。`);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed || isImporting) return;
+    if (parsed.candidates.length === 0) {
+      setError('取り込める論文の識別子 (arXiv ID / DOI など) が見つかりませんでした。');
+      return;
+    }
+    setError(null);
+    onReportChange(null);
+    setProgress({ done: 0, total: parsed.candidates.length });
+
+    const resolved: Paper[] = [];
+    const unresolved: UnresolvedImport[] = [...parsed.unresolved];
+    for (let i = 0; i < parsed.candidates.length; i += ID_LIST_CHUNK_SIZE) {
+      const chunk = parsed.candidates.slice(i, i + ID_LIST_CHUNK_SIZE);
+      try {
+        const response = await fetch(`/api/papers?id_list=${encodeURIComponent(chunk.map(c => c.paperId).join(','))}`);
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || `Status: ${response.status}`);
+        }
+        const papers: Paper[] = await response.json();
+        for (const candidate of chunk) {
+          const paper = papers.find(p => paperMatchesCandidate(p, candidate));
+          if (paper) {
+            resolved.push(paper);
+          } else {
+            unresolved.push({ label: candidate.label, reason: '論文が見つかりませんでした' });
+          }
+        }
+      } catch (fetchError) {
+        console.error('LibraryImportPanel: Failed to resolve papers:', fetchError);
+        const message = fetchError instanceof Error ? fetchError.message : '不明なエラー';
+        chunk.forEach(candidate => unresolved.push({ label: candidate.label, reason: `取得に失敗しました (${message})` }));
+      }
+      setProgress({ done: Math.min(i + chunk.length, parsed.candidates.length), total: parsed.candidates.length });
+    }
+
+    // 既にライブラリにある論文や、同じ論文を指す複数の入力 (arXiv ID と DOI など) は1つにまとめる
+    const added: Paper[] = [];
+    const duplicates: Paper[] = [];
+    for (const paper of resolved) {
+      if (findDuplicatePaper(likedPapers, paper) || findDuplicatePaper(added, paper)) {
+        duplicates.push(paper);
+      } else {
+        added.push(paper);
+      }
+    }
+    addLikedPapers(added);
+    onReportChange({
+      added: added.map(({ id, title }) => ({ id, title })),
+      duplicates: duplicates.map(({ id, title }) => ({ id, title })),
+      unresolved,
+    });
+    setProgress(null);
+    if (unresolved.length === 0) {
+      setInput('');
+      setFileName(undefined);
+    }
+  };
+
+  return (
+    <details className={styles.importPanel} open={defaultOpen || report !== null}>
+      <summary className={styles.importSummary}>
+        <ArrowUpTrayIcon className={styles.importIcon} />
+        インポート
+      </summary>
+      <div className={styles.importBody}>
+        <p className={styles.importHint}>
+          arXiv ID・arXiv の URL・DOI を1行に1つずつ貼り付けるか、BibTeX (.bib) / RIS (.ris) ファイルを選択してください。
+        </p>
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={'2401.12345\nhttps://arxiv.org/abs/1706.03762\n10.1038/s41586-021-03819-2'}
+          className={styles.importInput}
+          rows={5}
+          disabled={isImporting}
+        />
+        <div className={styles.importActions}>
+          <label className={styles.fileButton}>
+            ファイルを選択
+            <input type="file" accept=".bib,.ris,.txt" onChange={handleFileChange} className={styles.fileInput} disabled={isImporting} />
+          </label>
+          {fileName && <span className={styles.fileName}>{fileName}</span>}
+          {parsed && (
+            <span className={styles.parseSummary}>
+              {FORMAT_LABELS[parsed.format]}: {parsed.candidates.length} 件
+              {parsed.unresolved.length > 0 && ` (識別できない入力 ${parsed.unresolved.length} 件)`}
+            </span>
+          )}
+          <button type="button" onClick={handleImport} disabled={!parsed || isImporting} className={styles.importButton}>
+            {isImporting ? `取得中... (${progress.done}/${progress.total})` : 'ライブラリに追加'}
+          </button>
+        </div>
+        {error && <p className={styles.importError}>{error}</p>}
+
+        {report && (
+          <div className={styles.importReport}>
+            <p className={styles.reportSummary}>
+              {report.added.length} 件を追加しました。
+              {report.duplicates.length > 0 && ` ${report.duplicates.length} 件は既にライブラリにあります。`}
+              {report.unresolved.length > 0 && ` ${report.unresolved.length} 件は取り込めませんでした。`}
+            </p>
+            {report.unresolved.length > 0 && (
+              <ul className={styles.unresolvedList}>
+                {report.unresolved.map((entry, index) => (
+                  <li key={`${entry.label}-${index}`}>
+                    <span className={styles.unresolvedLabel}>{entry.label}</span>
+                    <span className={styles.unresolvedReason}>{entry.reason}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <button type="button" onClick={() => onReportChange(null)} className={styles.dismissButton}>閉じる</button>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,36 @@
+// apps/web/src/components/LibraryOwnerConflictNotice.tsx
+'use client';
+
+import React from 'react';
+import { useAccount } from '@/contexts/AccountContext';
+import { useLikedPapers } from '@/contexts/LikedPapersContext';
+import styles from './LibraryOwnerConflictNotice.module.css';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+// 別のアカウントと同期していたライブラリのままログインした場合に表示し、選ぶまで同期を止めておく
+export default function LibraryOwnerConflictNotice() {
+  const { user } = useAccount();
+  const { hasLibraryOwnerConflict, resolveLibraryOwnerConflict } = useLikedPapers();
+
+  if (!user || !hasLibraryOwnerConflict) return null;
+
+  const handleClear = () => {
+    if (!confirm('この端末のライブラリを消去しますか？別のアカウントに同期済みでない論文やコレクションは失われます。')) return;
+    resolveLibraryOwnerConflict('clear');
+  };
+
+  return (
+    <div className={styles.notice} role="status">
+      <ExclamationTriangleIcon className={styles.noticeIcon} />
+      <div className={styles.noticeBody}>
+        <p className={styles.noticeText}>
+          この端末のライブラリは、別のアカウントと同期していたものです。「{user.username}」のライブラリに統合するか、消去してから読み込むかを選ぶまで同期を止めています。
+        </p>
+        <div className={styles.noticeActions}>
+          <button type="button" onClick={() => resolveLibraryOwnerConflict('merge')} className={styles.noticeButton}>このアカウントに統合</button>
+          <button type="button" onClick={handleClear} className={`${styles.noticeButton} ${styles.noticeDangerButton}`}>この端末のライブラリを消去</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+// apps/web/src/components/LibraryQuarantineNotice.tsx
+'use client';
+
+import React, { useState } from 'react';
+import { useLikedPapers } from '@/contexts/LikedPapersContext';
+import { getQuarantinedRecords } from '@/lib/libraryDb';
+import styles from './LibraryQuarantineNotice.module.css';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+// 読み込めずに隔離したレコードがある場合に表示し、書き出して手動で復旧できるようにする
+export default function LibraryQuarantineNotice() {
+  const { quarantinedCount, clearQuarantine } = useLikedPapers();
+  const [error, setError] = useState<string | null>(null);
+
+  if (quarantinedCount === 0) return null;
+
+  const handleDownload = async () => {
+    try {
+      const records = await getQuarantinedRecords();
+      const blob = new Blob([JSON.stringify(records, null, 2)], { type: 'application/json;charset=utf-8' });
+      const url = URL.createObjectURL(blob);
+      const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `kigaers-quarantine-${date}.json`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+      setError(null);
+    } catch (downloadError) {
+      console.error('LibraryQuarantineNotice: Failed to read quarantined records:', downloadError);
+      setError('隔離したデータを読み込めませんでした。');
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm(`隔離した ${quarantinedCount} 件のデータを完全に削除しますか？この操作は取り消せません。`)) return;
+    try {
+      await clearQuarantine();
+    } catch (clearError) {
+      console.error('LibraryQuarantineNotice: Failed to clear quarantined records:', clearError);
+      setError('隔離したデータを削除できませんでした。');
+    }
+  };
+
+  return (
+    <div className={styles.notice} role="status">
+      <ExclamationTriangleIcon className={styles.noticeIcon} />
+      <div className={styles.noticeBody}>
+        <p className={styles.noticeText}>
+          読み込めなかったデータが {quarantinedCount} 件あったため、ライブラリから外して保管しています。
+        </p>
+        <div className={styles.noticeActions}>
+          <button type="button" onClick={handleDownload} className={styles.noticeButton}>JSON をダウンロード</button>
+          <button type="button" onClick={handleClear} className={`${styles.noticeButton} ${styles.noticeDangerButton}`}>削除</button>
+        </div>
+        {error && <p className={styles.noticeError}>{error}</p>}
+      </div>
+    </div>
+  );
+}
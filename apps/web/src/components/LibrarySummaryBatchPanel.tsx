@@ -0,0 +1,145 @@
+// apps/web/src/components/LibrarySummaryBatchPanel.tsx
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useLikedPapers, type Paper } from '@/contexts/LikedPapersContext';
+import { useSummaryPreferences } from '@/contexts/SummaryPreferencesContext';
+import { isTransientSummaryError, needsSummary, requestPaperSummary } from '@/lib/summaryClient';
+import { describeSummaryOptions, type SummaryOptions, type SummarySource } from '@/lib/summaryOptions';
+import { runTaskQueue, type TaskQueue, type TaskQueueProgress } from '@/lib/taskQueue';
+import styles from './LibrarySummaryBatchPanel.module.css';
+import { SparklesIcon } from '@heroicons/react/24/outline';
+
+const BATCH_CONCURRENCY = 2; // 同時に生成する要約の数 (API の利用制限に当たりにくいように少なめ)
+const BATCH_MAX_RETRIES = 2;
+const BATCH_RETRY_DELAY_MS = 5000;
+
+interface BatchFailure {
+  id: string;
+  title: string;
+  reason: string;
+}
+
+// PDF が無い論文は Abstract だけから要約する
+const summarySourceFor = (paper: Paper): SummarySource | null => paper.pdfLink ? 'pdf' : paper.summary ? 'abstract' : null;
+
+// 項目別になる前の (テキストだけの) 要約がある論文は、まとめて置き換えないように対象外にする (個別には生成できる)
+const hasLegacySummary = (paper: Paper): boolean => Boolean(paper.aiSummary) && !paper.aiSummaryStructured;
+
+const isBatchTarget = (paper: Paper, options: SummaryOptions): boolean => {
+  const source = summarySourceFor(paper);
+  return source !== null && !hasLegacySummary(paper) && needsSummary(paper, options, source);
+};
+
+// 要約の無い論文 (今の設定で) をまとめて要約する。生成した要約は1件ずつライブラリに保存する
+export default function LibrarySummaryBatchPanel() {
+  const { likedPapers, updateLikedPaperSummary } = useLikedPapers();
+  const { summaryOptions } = useSummaryPreferences();
+  const [progress, setProgress] = useState<TaskQueueProgress | null>(null);
+  const [failures, setFailures] = useState<BatchFailure[]>([]);
+  const queueRef = useRef<TaskQueue | null>(null);
+  const likedPapersRef = useRef(likedPapers); // 処理中に削除・更新された論文を参照するため
+
+  useEffect(() => {
+    likedPapersRef.current = likedPapers;
+  }, [likedPapers]);
+
+  const missingPapers = useMemo(() => likedPapers.filter(paper => isBatchTarget(paper, summaryOptions)), [likedPapers, summaryOptions]);
+  const legacyCount = useMemo(() => likedPapers.filter(hasLegacySummary).length, [likedPapers]);
+
+  const isActive = progress !== null && (progress.state === 'running' || progress.state === 'paused');
+
+  useEffect(() => () => queueRef.current?.cancel(), []); // ページを離れたら止める
+
+  const handleStart = () => {
+    if (isActive || missingPapers.length === 0) return;
+    const options = summaryOptions; // 途中で設定を変えても、始めた時の設定で続ける
+    setFailures([]);
+    queueRef.current = runTaskQueue(
+      missingPapers.map(paper => paper.id),
+      async (paperId, signal) => {
+        const paper = likedPapersRef.current.find(p => p.id === paperId);
+        const source = paper && summarySourceFor(paper);
+        if (!paper || !source || !isBatchTarget(paper, options)) return; // 削除された・既に要約された論文は飛ばす
+        const { variant } = await requestPaperSummary(paper, { options, source, signal });
+        updateLikedPaperSummary(paperId, variant);
+      },
+      {
+        concurrency: BATCH_CONCURRENCY,
+        maxRetries: BATCH_MAX_RETRIES,
+        retryDelayMs: BATCH_RETRY_DELAY_MS,
+        isRetryable: isTransientSummaryError,
+        onProgress: setProgress,
+        onFailure: (paperId, error) => {
+          console.error(`LibrarySummaryBatchPanel: Failed to summarize ${paperId}:`, error);
+          const title = likedPapersRef.current.find(p => p.id === paperId)?.title ?? paperId;
+          const reason = error instanceof Error ? error.message : '不明なエラー';
+          setFailures(prev => [...prev, { id: paperId, title, reason }]);
+        },
+      },
+    );
+  };
+
+  const handleCancel = () => {
+    if (confirm('まとめての要約を中止しますか？ (生成済みの要約は保存されています)')) queueRef.current?.cancel();
+  };
+
+  const finishedCount = progress ? progress.completed + progress.failed : 0;
+
+  return (
+    <details className={styles.batchPanel} open={progress !== null}>
+      <summary className={styles.batchSummary}>
+        <SparklesIcon className={styles.batchIcon} />
+        まとめてAI要約
+        {!isActive && missingPapers.length > 0 && <span className={styles.missingCount}>要約の無い論文 {missingPapers.length} 件</span>}
+      </summary>
+      <div className={styles.batchBody}>
+        <p className={styles.batchHint}>
+          {describeSummaryOptions(summaryOptions)}の要約が無い論文を順番に要約します (PDF が無い論文は Abstract から要約します)。
+          失敗した場合は、時間を置いて {BATCH_MAX_RETRIES} 回まで再試行します。
+          {legacyCount > 0 && ` 以前のバージョンで生成した要約がある ${legacyCount} 件は対象外です (論文ごとに生成できます)。`}
+        </p>
+        <div className={styles.batchActions}>
+          {!isActive && (
+            <button type="button" onClick={handleStart} disabled={missingPapers.length === 0} className={styles.batchButton}>
+              {missingPapers.length > 0 ? `${missingPapers.length} 件を要約する` : '要約の無い論文はありません'}
+            </button>
+          )}
+          {progress?.state === 'running' && (
+            <button type="button" onClick={() => queueRef.current?.pause()} className={styles.batchSecondaryButton}>一時停止</button>
+          )}
+          {progress?.state === 'paused' && (
+            <button type="button" onClick={() => queueRef.current?.resume()} className={styles.batchButton}>再開</button>
+          )}
+          {isActive && (
+            <button type="button" onClick={handleCancel} className={styles.batchSecondaryButton}>中止</button>
+          )}
+        </div>
+
+        {progress && (
+          <div className={styles.batchProgress}>
+            <progress value={finishedCount} max={progress.total} className={styles.progressBar} />
+            <p className={styles.progressText}>
+              {finishedCount} / {progress.total} 件
+              {progress.failed > 0 && ` (失敗 ${progress.failed} 件)`}
+              {progress.state === 'running' && progress.retrying > 0 && ` ・再試行待ち ${progress.retrying} 件`}
+              {progress.state === 'paused' && (progress.running > 0 ? ' ・一時停止中 (生成中の要約は続けます)' : ' ・一時停止中')}
+              {progress.state === 'done' && ' ・完了しました'}
+              {progress.state === 'cancelled' && ' ・中止しました'}
+            </p>
+          </div>
+        )}
+        {failures.length > 0 && (
+          <ul className={styles.failureList}>
+            {failures.map(failure => (
+              <li key={failure.id}>
+                <span className={styles.failureTitle}>{failure.title}</span>
+                <span className={styles.failureReason}>{failure.reason}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </details>
+  );
+}
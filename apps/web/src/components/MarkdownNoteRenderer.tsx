@@ -0,0 +1,58 @@
+// apps/web/src/components/MarkdownNoteRenderer.tsx
+'use client';
+
+import React, { useMemo } from 'react';
+import FormattedTextRenderer from './FormattedTextRenderer';
+import styles from './MarkdownNoteRenderer.module.css';
+import { parseMarkdownBlocks } from '@/lib/markdownBlocks';
+
+interface MarkdownNoteRendererProps {
+  text: string;
+}
+
+// **太字** と `コード` だけをインラインで扱い、それ以外は FormattedTextRenderer (LaTeX) に渡す
+const inlinePattern = /(\*\*[^*\n]+\*\*|`[^`\n]+`)/g;
+
+function renderInline(text: string): React.ReactNode[] {
+  return text.split(inlinePattern).map((segment, index) => {
+    if (!segment) return null;
+    if (segment.startsWith('**') && segment.endsWith('**') && segment.length > 4) {
+      return <strong key={index}><FormattedTextRenderer text={segment.slice(2, -2)} /></strong>;
+    }
+    if (segment.startsWith('`') && segment.endsWith('`') && segment.length > 2) {
+      return <code key={index} className={styles.inlineCode}>{segment.slice(1, -1)}</code>;
+    }
+    return <FormattedTextRenderer key={index} text={segment} />;
+  });
+}
+
+export default function MarkdownNoteRenderer({ text }: MarkdownNoteRendererProps) {
+  const blocks = useMemo(() => parseMarkdownBlocks(text), [text]);
+
+  return (
+    <div className={styles.markdown}>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading': {
+            const HeadingTag = (['h3', 'h4', 'h5'] as const)[block.level - 1];
+            return <HeadingTag key={index} className={styles.heading}>{renderInline(block.text)}</HeadingTag>;
+          }
+          case 'list': {
+            const ListTag = block.ordered ? 'ol' : 'ul';
+            return (
+              <ListTag key={index} className={styles.list}>
+                {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+              </ListTag>
+            );
+          }
+          case 'quote':
+            return <blockquote key={index} className={styles.quote}>{renderInline(block.text)}</blockquote>;
+          case 'code':
+            return <pre key={index} className={styles.codeBlock}><code>{block.text}</code></pre>;
+          default:
+            return <p key={index} className={styles.paragraph}>{renderInline(block.text)}</p>;
+        }
+      })}
+    </div>
+  );
+}
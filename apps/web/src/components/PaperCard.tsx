@@ -1,65 +1,113 @@
 // apps/web/src/components/PaperCard.tsx
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import FormattedTextRenderer from '@/components/FormattedTextRenderer';
+import StructuredSummaryView from '@/components/StructuredSummaryView';
+import BilingualAbstract from '@/components/BilingualAbstract';
 import styles from './PaperCard.module.css'; // CSS Modules を作成
-import { SparklesIcon, ChevronRightIcon, ArrowDownTrayIcon, HandThumbUpIcon, HandThumbDownIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { SparklesIcon, ChevronRightIcon, ArrowDownTrayIcon, HandThumbUpIcon, HandThumbDownIcon, TrashIcon, ClockIcon } from '@heroicons/react/24/outline';
 import type { Paper } from '@/contexts/LikedPapersContext'; // LikedPapersContextからPaper型をインポート (または共通の型定義から)
+import { getPaperSourceLabel } from '@/lib/paperSources/catalog';
+import type { RecommendationExplanation } from '@/lib/recommendation';
+import type { SwipeInteractionState } from '@/components/SwipeDeck';
+import { findSummaryVariant } from '@/lib/summaryClient';
+import { isTranslationOf } from '@/lib/abstractTranslation';
+import { DEFAULT_SUMMARY_OPTIONS, describeSummaryOptions, summaryVariantKey, type SummaryOptions, type SummarySource } from '@/lib/summaryOptions';
 
 interface PaperCardProps {
   paper: Paper;
   isSummarizing?: boolean; // AI要約生成中かどうか
-  onGenerateAiSummary?: (paperId: string, pdfUrl: string, paperTitle: string) => void; // AI要約生成関数
+  summaryDraft?: string; // 生成中の要約 (ストリーミングで届いた分)
+  summaryOptions?: SummaryOptions; // 生成する要約の設定。この設定の要約があればそれを表示する
+  onCancelAiSummary?: () => void; // 生成中の要約を中止する
+  isTranslatingAbstract?: boolean; // Abstract を翻訳中かどうか
+  onTranslateAbstract?: (paperId: string) => void; // Abstract を文ごとに和訳する
+  onGenerateAiSummary?: (paperId: string, pdfUrl: string, paperTitle: string, regenerate?: boolean, source?: SummarySource) => void; // AI要約生成関数 (regenerate: キャッシュを使わず作り直す / source: 省略時は全文から)
   onLike?: (paper: Paper) => void; // いいね関数 (Paperオブジェクト全体を渡すように変更も検討)
   onDislike?: () => void; // ★★★ paperId を受け取らないように変更 ★★★
+  onSaveForLater?: () => void; // あとで読むに保存 (ホームページ用)
   onRemoveFromLibrary?: (paperId: string) => void; // ライブラリから削除する関数 (ライブラリページ用)
   showSwipeButtons?: boolean; // ホームページのようにスワイプ操作を示唆するボタンを表示するか
   isLiked?: boolean; // この論文がいいねされているか (UI表示用)
+  recommendation?: RecommendationExplanation; // おすすめ順で並べた理由 (ホームページ用)
   cardRef?: React.RefObject<HTMLDivElement | null> | undefined; // スワイプアニメーション用
   cardStyle?: React.CSSProperties; // スワイプアニメーション用
-  onTouchStart?: (e: React.TouchEvent<HTMLDivElement>) => void; // スワイプ用
-  onTouchMove?: (e: React.TouchEvent<HTMLDivElement>) => void; // スワイプ用
-  onTouchEnd?: (e: React.TouchEvent<HTMLDivElement>) => void; // スワイプ用
-  onTouchCancel?: (e: React.TouchEvent<HTMLDivElement>) => void; // スワイプ用
+  onPointerDown?: (e: React.PointerEvent<HTMLDivElement>) => void; // スワイプ用 (マウス・ペン・タッチ共通)
+  onPointerMove?: (e: React.PointerEvent<HTMLDivElement>) => void; // スワイプ用
+  onPointerUp?: (e: React.PointerEvent<HTMLDivElement>) => void; // スワイプ用
+  onPointerCancel?: (e: React.PointerEvent<HTMLDivElement>) => void; // スワイプ用
   className?: string; // 追加のクラス名
   isTopCard?: boolean; // スワイプインタラクションを有効にするかどうかの判断材料
-  interactionState?: { // ホームページから渡されるスワイプインタラクションの状態
-    isSwiping: boolean;
-    feedbackColor: string;
-    flyingDirection: 'left' | 'right' | null;
-  };
+  interactionState?: SwipeInteractionState; // SwipeDeck から渡されるスワイプインタラクションの状態
+  isAbstractOpen?: boolean; // 指定するとAbstractの開閉を外から制御する (キーボード操作用)
+  onAbstractToggle?: (isOpen: boolean) => void;
   onViewDetails?: (paperId: string) => void; // 詳細表示への遷移関数 (ライブラリ一覧ページ用)
 }
 
 export default function PaperCard({
   paper,
   isSummarizing,
+  summaryDraft,
+  summaryOptions,
+  onCancelAiSummary,
+  isTranslatingAbstract,
+  onTranslateAbstract,
   onGenerateAiSummary,
   onLike,
   onDislike,
+  onSaveForLater,
   onRemoveFromLibrary,
   showSwipeButtons = true, // デフォルトは表示
   isLiked = false, // デフォルトはいいねされていない
+  recommendation,
   cardRef,
   cardStyle,
-  onTouchStart,
-  onTouchMove,
-  onTouchEnd,
-  onTouchCancel,
+  onPointerDown,
+  onPointerMove,
+  onPointerUp,
+  onPointerCancel,
   className = '',
   isTopCard = false,
   interactionState,
+  isAbstractOpen,
+  onAbstractToggle,
   onViewDetails,
 }: PaperCardProps) {
+  // 選んでいる設定の要約が無ければ、表示中の (別の設定の) 要約を出しておく
+  const preferredSummary = summaryOptions ? findSummaryVariant(paper, summaryOptions) : undefined;
+  const hasPreferredSummary = summaryOptions ? preferredSummary !== undefined : Boolean(paper.aiSummary);
+  const shownSummary = preferredSummary?.summary ?? paper.aiSummary;
+  const shownStructured = preferredSummary ? preferredSummary.structured : paper.aiSummaryStructured;
+  const shownSource = preferredSummary
+    ? preferredSummary.source
+    : paper.aiSummaryVariants?.[summaryVariantKey(paper.aiSummaryOptions ?? DEFAULT_SUMMARY_OPTIONS)]?.source;
+  // Abstract が更新されていたら、古い翻訳は表示しない
+  const translation = paper.abstractTranslation && isTranslationOf(paper.abstractTranslation, paper.summary) ? paper.abstractTranslation : undefined;
+  const [showOriginalOnly, setShowOriginalOnly] = useState(false);
+  // PDF が無い論文は Abstract だけから要約する
+  const defaultSource: SummarySource | null = paper.pdfLink ? 'pdf' : paper.summary ? 'abstract' : null;
 
-  const handleGenerateSummaryClick = (e: React.MouseEvent) => {
+  const handleGenerateSummaryClick = (e: React.MouseEvent, source: SummarySource | null = defaultSource) => {
     e.stopPropagation(); // 親要素へのイベント伝播を停止
-    if (onGenerateAiSummary && paper.pdfLink) {
-      onGenerateAiSummary(paper.id, paper.pdfLink, paper.title);
+    if (onGenerateAiSummary && source) {
+      onGenerateAiSummary(paper.id, paper.pdfLink, paper.title, false, source);
+    }
+  };
+
+  const handleRegenerateSummaryClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const source = shownSource === 'abstract' ? 'abstract' : defaultSource;
+    if (onGenerateAiSummary && source && confirm('保存されている要約を使わずに、AI要約を作り直しますか？')) {
+      onGenerateAiSummary(paper.id, paper.pdfLink, paper.title, true, source);
     }
   };
 
+  const handleCancelSummaryClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onCancelAiSummary?.();
+  };
+
   const handleLikeClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (onLike) {
@@ -74,6 +122,13 @@ const handleDislikeClick = (e: React.MouseEvent) => {
   }
 };
 
+  const handleSaveForLaterClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onSaveForLater) {
+      onSaveForLater();
+    }
+  };
+
   const handleRemoveFromLibraryClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (onRemoveFromLibrary) {
@@ -94,10 +149,10 @@ const handleDislikeClick = (e: React.MouseEvent) => {
         ref={cardRef}
         className={`${styles.card} ${styles.endOfFeedCard} ${className}`}
         style={{ ...cardStyle, touchAction: isTopCard ? 'pan-y' : 'auto' }} // スワイプを許可しつつ縦スクロールも考慮
-        onTouchStart={isTopCard ? onTouchStart : undefined}
-        onTouchMove={isTopCard ? onTouchMove : undefined}
-        onTouchEnd={isTopCard ? onTouchEnd : undefined}
-        onTouchCancel={isTopCard ? onTouchCancel : undefined}
+        onPointerDown={isTopCard ? onPointerDown : undefined}
+        onPointerMove={isTopCard ? onPointerMove : undefined}
+        onPointerUp={isTopCard ? onPointerUp : undefined}
+        onPointerCancel={isTopCard ? onPointerCancel : undefined}
       >
         <div className={styles.endOfFeedContent}>
           <h2 className={`${styles.cardTitle} ${styles.endOfFeedTitle}`}>{paper.title}</h2>
@@ -113,11 +168,11 @@ const handleDislikeClick = (e: React.MouseEvent) => {
     <div
       ref={cardRef}
       className={`${styles.card} ${className} ${isTopCard && interactionState?.isSwiping ? styles.activeGrab : ''}`}
-      style={{ ...cardStyle, touchAction: isTopCard ? 'none' : 'auto' }} // トップカードでスワイプ中は縦スクロール無効
-      onTouchStart={isTopCard ? onTouchStart : undefined}
-      onTouchMove={isTopCard ? onTouchMove : undefined}
-      onTouchEnd={isTopCard ? onTouchEnd : undefined}
-      onTouchCancel={isTopCard ? onTouchCancel : undefined}
+      style={{ touchAction: isTopCard ? 'none' : 'auto', ...cardStyle }} // トップカードは縦スクロール無効 (SwipeDeck が cardStyle で上書きする)
+      onPointerDown={isTopCard ? onPointerDown : undefined}
+      onPointerMove={isTopCard ? onPointerMove : undefined}
+      onPointerUp={isTopCard ? onPointerUp : undefined}
+      onPointerCancel={isTopCard ? onPointerCancel : undefined}
       onClick={onViewDetails ? handleCardClick : undefined} // 詳細表示関数があればクリックイベントを設定
       role={onViewDetails ? "button" : undefined}
       tabIndex={onViewDetails ? 0 : undefined}
@@ -137,45 +192,133 @@ const handleDislikeClick = (e: React.MouseEvent) => {
           <span>Updated: {new Date(paper.updated).toLocaleDateString()}</span>
         </div>
 
+        {recommendation && (recommendation.matchedTerms.length > 0 || recommendation.matchedCategories.length > 0 || recommendation.matchedAuthors.length > 0) && (
+          <details className={styles.recommendationSection} onClick={(e) => e.stopPropagation()}>
+            <summary className={styles.abstractSummary}>
+              <ChevronRightIcon />
+              なぜこの論文？
+            </summary>
+            <div className={styles.recommendationContent}>
+              {recommendation.matchedTerms.length > 0 && (
+                <p>一致したキーワード: {recommendation.matchedTerms.map(term => <span key={term} className={styles.recommendationTerm}>{term}</span>)}</p>
+              )}
+              {recommendation.matchedCategories.length > 0 && (
+                <p>よくいいねするカテゴリ: {recommendation.matchedCategories.join(', ')}</p>
+              )}
+              {recommendation.matchedAuthors.length > 0 && (
+                <p>いいねした論文の著者: {recommendation.matchedAuthors.join(', ')}</p>
+              )}
+            </div>
+          </details>
+        )}
+
         <div className={styles.aiSummarySection}>
           <h3 className={styles.aiSummaryHeader}>
             <span className={styles.aiSummaryHeaderText}>
               <SparklesIcon />
               AIによる要約
             </span>
-            {!paper.aiSummary && !isSummarizing && onGenerateAiSummary && (
+            {!paper.aiSummary && !isSummarizing && onGenerateAiSummary && defaultSource && (
               <button onClick={handleGenerateSummaryClick} className={styles.generateButton}>
-                生成
+                {defaultSource === 'abstract' ? 'Abstractから生成' : '生成'}
+              </button>
+            )}
+            {paper.aiSummary && !hasPreferredSummary && !isSummarizing && onGenerateAiSummary && defaultSource && (
+              <button onClick={handleGenerateSummaryClick} className={styles.generateButton} title={summaryOptions && describeSummaryOptions(summaryOptions)}>
+                この設定で生成
+              </button>
+            )}
+            {hasPreferredSummary && shownSource === 'abstract' && paper.pdfLink && !isSummarizing && onGenerateAiSummary && (
+              <button onClick={(e) => handleGenerateSummaryClick(e, 'pdf')} className={styles.generateButton} title="PDF の全文を読んで要約し直します">
+                全文で要約
+              </button>
+            )}
+            {hasPreferredSummary && !(shownSource === 'abstract' && paper.pdfLink) && !isSummarizing && onGenerateAiSummary && (
+              <button onClick={handleRegenerateSummaryClick} className={`${styles.generateButton} ${styles.regenerateButton}`}>
+                再生成
+              </button>
+            )}
+            {isSummarizing && onCancelAiSummary && (
+              <button onClick={handleCancelSummaryClick} className={`${styles.generateButton} ${styles.regenerateButton}`}>
+                中止
               </button>
             )}
           </h3>
-          {isSummarizing && !paper.aiSummary ? ( // paper.aiSummaryがまだない場合のみローディング表示
-            <p className={styles.aiSummaryLoading}>AIが要約を生成中です...</p>
-          ) : paper.aiSummary ? (
-            <p className={styles.aiSummaryText}>
-              <FormattedTextRenderer text={paper.aiSummary} />
+          {isSummarizing && summaryDraft ? (
+            <p className={`${styles.aiSummaryText} ${styles.aiSummaryStreaming}`}>
+              <FormattedTextRenderer text={summaryDraft} />
             </p>
+          ) : isSummarizing ? (
+            <p className={styles.aiSummaryLoading}>AIが要約を生成中です...</p>
+          ) : shownSummary ? (
+            <>
+              {!hasPreferredSummary && (
+                <p className={styles.aiSummaryVariantNote}>
+                  {describeSummaryOptions(paper.aiSummaryOptions ?? DEFAULT_SUMMARY_OPTIONS)}の要約を表示しています
+                </p>
+              )}
+              {shownSource === 'abstract' && (
+                <p className={styles.aiSummaryVariantNote}>Abstractだけから生成した簡易要約です</p>
+              )}
+              {shownStructured ? ( // TL;DR をカードの表面に出し、各項目は開いて読む
+                <StructuredSummaryView summary={shownStructured} />
+              ) : (
+                <p className={styles.aiSummaryText}>
+                  <FormattedTextRenderer text={shownSummary} />
+                </p>
+              )}
+            </>
           ) : (
             <p className={styles.aiSummaryPlaceholder}>（AI要約を生成しますか？）</p>
           )}
         </div>
 
-        <details className={styles.abstractSection} onClick={(e) => e.stopPropagation()}>
+        <details
+          className={styles.abstractSection}
+          open={isAbstractOpen}
+          onToggle={onAbstractToggle ? (e) => onAbstractToggle(e.currentTarget.open) : undefined}
+          onClick={(e) => e.stopPropagation()}
+        >
           <summary className={styles.abstractSummary}>
             <ChevronRightIcon />
             元のAbstractを見る
           </summary>
           <div className={styles.abstractContent}>
-            <FormattedTextRenderer text={paper.summary} />
+            {translation && !showOriginalOnly ? (
+              <BilingualAbstract translation={translation} />
+            ) : (
+              <FormattedTextRenderer text={paper.summary} />
+            )}
           </div>
+          {paper.summary && (translation || onTranslateAbstract) && (
+            <div className={styles.translationActions}>
+              {translation ? (
+                <button type="button" onClick={() => setShowOriginalOnly(prev => !prev)} className={styles.translationButton}>
+                  {showOriginalOnly ? '対訳を表示' : '原文のみ表示'}
+                </button>
+              ) : (
+                <button type="button" onClick={() => onTranslateAbstract?.(paper.id)} disabled={isTranslatingAbstract} className={styles.translationButton}>
+                  {isTranslatingAbstract ? '翻訳中...' : '文ごとに和訳する'}
+                </button>
+              )}
+            </div>
+          )}
         </details>
 
         <div className={styles.categoriesContainer}>
+          {paper.source && paper.source !== 'arxiv' && ( // arXiv 以外のソースはバッジで区別する
+            <span className={`${styles.categoryTag} ${styles.sourceTag}`}>{getPaperSourceLabel(paper.source)}</span>
+          )}
           {paper.categories.map((category) => (
             <span key={category} className={styles.categoryTag}>
               {category}
             </span>
           ))}
+          {paper.tags?.map((tag) => ( // ライブラリでユーザーが付けたタグ
+            <span key={`tag-${tag}`} className={`${styles.categoryTag} ${styles.userTag}`}>
+              #{tag}
+            </span>
+          ))}
         </div>
       </div>
 
@@ -208,6 +351,16 @@ const handleDislikeClick = (e: React.MouseEvent) => {
         )}
         {!paper.pdfLink && <div className={styles.pdfPlaceholder}></div>}
 
+        {showSwipeButtons && onSaveForLater && (
+          <button
+            onClick={handleSaveForLaterClick}
+            className={`${styles.pcActionButton} ${styles.pcLaterButton}`}
+            aria-label="あとで読む"
+          >
+            <ClockIcon className={styles.pcActionButtonIcon} />
+            <span className={styles.pcActionButtonText}>あとで</span>
+          </button>
+        )}
 
         {showSwipeButtons && onLike && (
           <button
@@ -0,0 +1,87 @@
+// apps/web/src/components/PaperNotesEditor.tsx
+'use client';
+
+import React, { useState } from 'react';
+import MarkdownNoteRenderer from './MarkdownNoteRenderer';
+import styles from './PaperNotesEditor.module.css';
+
+interface PaperNotesEditorProps {
+  notes: string;
+  onSave: (notes: string) => void;
+}
+
+type NotesMode = 'edit' | 'preview';
+
+// 論文ごとのメモ。論文が切り替わった時は key で作り直す前提 (下書きは props から初期化するだけ)
+export default function PaperNotesEditor({ notes, onSave }: PaperNotesEditorProps) {
+  const [draft, setDraft] = useState(notes);
+  const [mode, setMode] = useState<NotesMode>(notes ? 'preview' : 'edit');
+  const isDirty = draft !== notes;
+
+  const handleSave = () => {
+    onSave(draft);
+    if (draft.trim()) setMode('preview');
+  };
+
+  // Ctrl/Cmd + Enter で保存
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleSave();
+    }
+  };
+
+  return (
+    <div className={styles.notesEditor}>
+      <div className={styles.toolbar}>
+        <div className={styles.modeTabs} role="tablist">
+          <button
+            type="button"
+            role="tab"
+            aria-selected={mode === 'edit'}
+            onClick={() => setMode('edit')}
+            className={`${styles.modeTab} ${mode === 'edit' ? styles.modeTabActive : ''}`}
+          >
+            編集
+          </button>
+          <button
+            type="button"
+            role="tab"
+            aria-selected={mode === 'preview'}
+            onClick={() => setMode('preview')}
+            className={`${styles.modeTab} ${mode === 'preview' ? styles.modeTabActive : ''}`}
+          >
+            プレビュー
+          </button>
+        </div>
+        {isDirty && <span className={styles.unsavedLabel}>未保存の変更があります</span>}
+      </div>
+
+      {mode === 'edit' ? (
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={'この論文についてのメモ (Markdown と $LaTeX$ が使えます)\n例: ## 気になった点\n- 損失関数 $\\mathcal{L}$ の設計'}
+          className={styles.notesInput}
+          rows={8}
+        />
+      ) : draft.trim() ? (
+        <div className={styles.preview}><MarkdownNoteRenderer text={draft} /></div>
+      ) : (
+        <p className={styles.emptyText}>メモはまだありません。「編集」から書き始めましょう。</p>
+      )}
+
+      <div className={styles.actions}>
+        {isDirty && (
+          <button type="button" onClick={() => setDraft(notes)} className={styles.discardButton}>
+            変更を破棄
+          </button>
+        )}
+        <button type="button" onClick={handleSave} disabled={!isDirty} className={styles.saveButton}>
+          保存
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+// apps/web/src/components/StructuredSummaryView.tsx
+'use client';
+
+import React from 'react';
+import FormattedTextRenderer from '@/components/FormattedTextRenderer';
+import { STRUCTURED_SUMMARY_SECTIONS, type StructuredSummary } from '@/lib/structuredSummary';
+import { ChevronRightIcon } from '@heroicons/react/24/outline';
+import styles from './StructuredSummaryView.module.css';
+
+interface StructuredSummaryViewProps {
+  summary: StructuredSummary;
+  variant?: 'compact' | 'full'; // compact: カード用 (項目は閉じておく) / full: 詳細ページ用 (項目を開いておく)
+}
+
+// TL;DR と、目的・手法・結果などの折りたたみ可能な項目で項目別のAI要約を表示する
+export default function StructuredSummaryView({ summary, variant = 'compact' }: StructuredSummaryViewProps) {
+  const sections = STRUCTURED_SUMMARY_SECTIONS.filter(({ key }) => summary[key].length > 0);
+
+  return (
+    <div className={`${styles.structuredSummary} ${styles[variant]}`}>
+      <p className={styles.tldr}>
+        <span className={styles.tldrLabel}>TL;DR</span>
+        <FormattedTextRenderer text={summary.tldr} />
+      </p>
+      {sections.map(({ key, label }) => {
+        const value = summary[key];
+        return (
+          <details key={key} className={styles.section} open={variant === 'full'} onClick={(e) => e.stopPropagation()}>
+            <summary className={styles.sectionSummary}>
+              <ChevronRightIcon />
+              {label}
+            </summary>
+            {Array.isArray(value) ? (
+              <ul className={styles.sectionList}>
+                {value.map((item, index) => (
+                  <li key={index}><FormattedTextRenderer text={item} /></li>
+                ))}
+              </ul>
+            ) : (
+              <p className={styles.sectionText}><FormattedTextRenderer text={value} /></p>
+            )}
+          </details>
+        );
+      })}
+    </div>
+  );
+}
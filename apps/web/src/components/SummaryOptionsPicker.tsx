@@ -0,0 +1,70 @@
+// apps/web/src/components/SummaryOptionsPicker.tsx
+'use client';
+
+import React from 'react';
+import { useSummaryPreferences } from '@/contexts/SummaryPreferencesContext';
+import {
+  SUMMARY_AUDIENCE_LABELS, SUMMARY_LANGUAGE_LABELS, SUMMARY_LENGTH_LABELS,
+  type SummaryAudience, type SummaryLanguage, type SummaryLength, type SummarySource,
+} from '@/lib/summaryOptions';
+import styles from './SummaryOptionsPicker.module.css';
+
+const AUTO_SUMMARY_OFF = 'off';
+
+interface SummaryOptionsPickerProps {
+  showAutoSummarySelect?: boolean; // 先読み要約の設定を表示する (ホーム用)
+}
+
+// これから生成するAI要約の言語・長さ・対象読者を選ぶ (選んだ設定はこのブラウザに保存される)
+export default function SummaryOptionsPicker({ showAutoSummarySelect = false }: SummaryOptionsPickerProps) {
+  const { summaryOptions, setSummaryOptions, autoSummarySource, setAutoSummarySource } = useSummaryPreferences();
+
+  return (
+    <span className={styles.summaryOptionsPicker} title="AI要約を生成するときの設定">
+      <span className={styles.label}>AI要約:</span>
+      <select
+        value={summaryOptions.language}
+        onChange={(e) => setSummaryOptions({ ...summaryOptions, language: e.target.value as SummaryLanguage })}
+        className={styles.select}
+        aria-label="AI要約の言語"
+      >
+        {(Object.keys(SUMMARY_LANGUAGE_LABELS) as SummaryLanguage[]).map(language => (
+          <option key={language} value={language}>{SUMMARY_LANGUAGE_LABELS[language]}</option>
+        ))}
+      </select>
+      <select
+        value={summaryOptions.length}
+        onChange={(e) => setSummaryOptions({ ...summaryOptions, length: e.target.value as SummaryLength })}
+        className={styles.select}
+        aria-label="AI要約の長さ"
+      >
+        {(Object.keys(SUMMARY_LENGTH_LABELS) as SummaryLength[]).map(length => (
+          <option key={length} value={length}>{SUMMARY_LENGTH_LABELS[length]}</option>
+        ))}
+      </select>
+      <select
+        value={summaryOptions.audience}
+        onChange={(e) => setSummaryOptions({ ...summaryOptions, audience: e.target.value as SummaryAudience })}
+        className={styles.select}
+        aria-label="AI要約の対象読者"
+      >
+        {(Object.keys(SUMMARY_AUDIENCE_LABELS) as SummaryAudience[]).map(audience => (
+          <option key={audience} value={audience}>{SUMMARY_AUDIENCE_LABELS[audience]}</option>
+        ))}
+      </select>
+      {showAutoSummarySelect && (
+        <select
+          value={autoSummarySource ?? AUTO_SUMMARY_OFF}
+          onChange={(e) => setAutoSummarySource(e.target.value === AUTO_SUMMARY_OFF ? null : e.target.value as SummarySource)}
+          className={styles.select}
+          aria-label="先読み要約"
+          title="これから表示するカードを先に要約しておきます (Abstract だけなら速く、全文は時間とAPIの利用量がかかります)"
+        >
+          <option value={AUTO_SUMMARY_OFF}>先読み: しない</option>
+          <option value="abstract">先読み: Abstract</option>
+          <option value="pdf">先読み: 全文</option>
+        </select>
+      )}
+    </span>
+  );
+}
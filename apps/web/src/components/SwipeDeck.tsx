@@ -0,0 +1,269 @@
+// apps/web/src/components/SwipeDeck.tsx
+'use client';
+
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import styles from './SwipeDeck.module.css';
+
+export type SwipeDirection = 'left' | 'right' | 'up';
+
+// カードに渡すスワイプインタラクションの状態
+export interface SwipeInteractionState {
+  isSwiping: boolean;
+  feedbackColor: string;
+  flyingDirection: SwipeDirection | null;
+}
+
+// renderCard に渡す、カードの要素に付ける props
+export interface SwipeDeckCardProps {
+  isTopCard: boolean;
+  cardRef?: React.RefObject<HTMLDivElement | null>;
+  cardStyle: React.CSSProperties;
+  className: string;
+  interactionState?: SwipeInteractionState;
+  onPointerDown?: (e: React.PointerEvent<HTMLDivElement>) => void;
+  onPointerMove?: (e: React.PointerEvent<HTMLDivElement>) => void;
+  onPointerUp?: (e: React.PointerEvent<HTMLDivElement>) => void;
+  onPointerCancel?: (e: React.PointerEvent<HTMLDivElement>) => void;
+  swipe?: (direction: SwipeDirection) => void; // ボタンなどからスワイプさせる (トップカードのみ)
+}
+
+interface SwipeDeckProps<T extends { id: string }> {
+  items: T[];
+  currentIndex: number; // トップに表示する items の位置。スワイプ後に進めるのは呼び出し側
+  onSwipe: (item: T, direction: SwipeDirection) => void; // スワイプが確定した時点で呼ばれる (飛んでいくアニメーションは SwipeDeck 側で続ける)
+  renderCard: (item: T, cardProps: SwipeDeckCardProps) => React.ReactNode;
+  directions?: SwipeDirection[]; // 受け付けるスワイプ方向
+  visibleCount?: number; // 重ねて表示するカードの枚数
+  keyBindings?: Record<string, (item: T) => void>; // 矢印キー以外のキー操作 (キーは KeyboardEvent.key の小文字、スペースは ' ')
+}
+
+const DEFAULT_DIRECTIONS: SwipeDirection[] = ['left', 'right'];
+const SWIPE_DISTANCE_RATIO = 0.4; // カード幅に対してこの割合以上ドラッグしたら確定
+const FLING_VELOCITY = 0.5; // px/ms。これより速く払った場合は短い距離でも確定
+const FLING_MIN_DISTANCE = 30;
+const VELOCITY_SAMPLE_MS = 100; // 直近この時間のポインター移動から速度を計算する
+const FEEDBACK_DISTANCE = 35;
+const MAX_ROTATION = 12;
+const TRANSLATE_X_SCALE = 1.1;
+const FLY_OUT_MS = 500;
+const RETURN_MS = 400;
+
+const FLY_OUT_TRANSFORMS: Record<SwipeDirection, string> = {
+  left: 'translateX(-120vw) translateY(-10vh) rotate(-35deg)',
+  right: 'translateX(120vw) translateY(-10vh) rotate(35deg)',
+  up: 'translateY(-120vh)',
+};
+const FEEDBACK_CLASSES: Record<SwipeDirection, string> = {
+  left: styles.feedbackLimeDislike,
+  right: styles.feedbackPinkLike,
+  up: styles.feedbackSkyLater,
+};
+const RETURN_CLASSES: Record<SwipeDirection, string> = {
+  left: styles.animateReturnFromLeft,
+  right: styles.animateReturnFromRight,
+  up: styles.animateReturnFromTop,
+};
+
+// ボタンやリンクの上からはドラッグを始めない (クリックを優先する)
+const INTERACTIVE_SELECTOR = 'button, a, summary, input, textarea, select, [role="button"]';
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable;
+}
+
+// フォーカスしたボタンやリンクはスペース・Enter で押せるように、ショートカットに使わない
+function isActivationKeyOnInteractive(e: KeyboardEvent): boolean {
+  return (e.key === ' ' || e.key === 'Enter') && e.target instanceof Element && e.target.closest(INTERACTIVE_SELECTOR) !== null;
+}
+
+/**
+ * カードを重ねて表示し、マウス・ペン・タッチのドラッグ、矢印キー、ボタンでスワイプさせるデッキ。
+ * ドラッグの距離だけでなく離した時の速度も見て、素早く払った場合も確定させる。
+ * currentIndex が戻された場合 (取り消し) は、そのカードを飛んでいった方向から戻すアニメーションを表示する。
+ */
+export default function SwipeDeck<T extends { id: string }>({
+  items,
+  currentIndex,
+  onSwipe,
+  renderCard,
+  directions = DEFAULT_DIRECTIONS,
+  visibleCount = 2,
+  keyBindings,
+}: SwipeDeckProps<T>) {
+  const [drag, setDrag] = useState<{ dx: number; dy: number } | null>(null);
+  const [flyingCards, setFlyingCards] = useState<{ item: T; direction: SwipeDirection }[]>([]);
+  const [returning, setReturning] = useState<{ id: string; direction: SwipeDirection } | null>(null);
+  const flyingCardsRef = useRef(flyingCards); // トップに戻ってきたカードが飛んでいる途中かを、effect の依存にせずに読むため
+
+  useEffect(() => {
+    flyingCardsRef.current = flyingCards;
+  }, [flyingCards]);
+  const topCardRef = useRef<HTMLDivElement>(null);
+  const pointerRef = useRef<{ pointerId: number; startX: number; startY: number; samples: { x: number; y: number; t: number }[] } | null>(null);
+  const flownDirectionsRef = useRef(new Map<string, SwipeDirection>()); // 取り消された時に戻す方向
+
+  const topItem = items[currentIndex];
+  const allowsUp = directions.includes('up');
+
+  const commitSwipe = useCallback((direction: SwipeDirection) => {
+    if (!topItem || !directions.includes(direction)) return;
+    pointerRef.current = null;
+    setDrag(null);
+    setReturning(null);
+    flownDirectionsRef.current.set(topItem.id, direction);
+    setFlyingCards(prev => [...prev.filter(card => card.item.id !== topItem.id), { item: topItem, direction }]);
+    setTimeout(() => setFlyingCards(prev => prev.filter(card => card.item.id !== topItem.id)), FLY_OUT_MS);
+    onSwipe(topItem, direction);
+  }, [topItem, directions, onSwipe]);
+
+  // 取り消しで一度スワイプしたカードがトップに戻ってきたら、逆向きのアニメーションで戻す
+  useEffect(() => {
+    if (!topItem) return;
+    const direction = flownDirectionsRef.current.get(topItem.id);
+    if (!direction) return;
+    flownDirectionsRef.current.delete(topItem.id);
+    const wasStillFlying = flyingCardsRef.current.some(card => card.item.id === topItem.id);
+    setFlyingCards(prev => prev.filter(card => card.item.id !== topItem.id));
+    if (wasStillFlying) return; // 飛んでいる途中なら transition でそのまま戻る
+    setReturning({ id: topItem.id, direction });
+    const timer = setTimeout(() => setReturning(null), RETURN_MS);
+    return () => clearTimeout(timer);
+  }, [topItem]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target) || e.ctrlKey || e.metaKey || e.altKey || !topItem) return;
+      const arrowDirection: SwipeDirection | undefined =
+        e.key === 'ArrowLeft' ? 'left' : e.key === 'ArrowRight' ? 'right' : e.key === 'ArrowUp' ? 'up' : undefined;
+      if (arrowDirection) {
+        if (!directions.includes(arrowDirection)) return;
+        e.preventDefault();
+        if (!e.repeat) commitSwipe(arrowDirection);
+        return;
+      }
+      const binding = keyBindings?.[e.key.toLowerCase()];
+      if (binding && !isActivationKeyOnInteractive(e)) {
+        e.preventDefault();
+        if (!e.repeat) binding(topItem);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [topItem, directions, keyBindings, commitSwipe]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (pointerRef.current || (e.pointerType === 'mouse' && e.button !== 0)) return;
+    if (e.target instanceof Element && e.target.closest(INTERACTIVE_SELECTOR)) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointerRef.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, samples: [{ x: e.clientX, y: e.clientY, t: e.timeStamp }] };
+    setDrag({ dx: 0, dy: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pointer = pointerRef.current;
+    if (!pointer || pointer.pointerId !== e.pointerId) return;
+    pointer.samples = [...pointer.samples.filter(sample => e.timeStamp - sample.t <= VELOCITY_SAMPLE_MS), { x: e.clientX, y: e.clientY, t: e.timeStamp }];
+    setDrag({ dx: e.clientX - pointer.startX, dy: allowsUp ? Math.min(0, e.clientY - pointer.startY) : 0 });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pointer = pointerRef.current;
+    if (!pointer || pointer.pointerId !== e.pointerId) return;
+    pointerRef.current = null;
+    const dx = e.clientX - pointer.startX;
+    const dy = e.clientY - pointer.startY;
+    const firstSample = pointer.samples[0];
+    const elapsed = Math.max(1, e.timeStamp - firstSample.t);
+    const vx = (e.clientX - firstSample.x) / elapsed;
+    const vy = (e.clientY - firstSample.y) / elapsed;
+    const distanceThreshold = (topCardRef.current?.offsetWidth ?? 300) * SWIPE_DISTANCE_RATIO;
+
+    const isUpGesture = allowsUp && -dy > Math.abs(dx);
+    const distance = isUpGesture ? -dy : Math.abs(dx);
+    const velocity = isUpGesture ? -vy : Math.abs(vx);
+    const isFlungInSameDirection = isUpGesture ? vy < 0 : Math.sign(vx) === Math.sign(dx);
+    if (distance > distanceThreshold || (velocity > FLING_VELOCITY && distance > FLING_MIN_DISTANCE && isFlungInSameDirection)) {
+      commitSwipe(isUpGesture ? 'up' : dx > 0 ? 'right' : 'left');
+    } else {
+      setDrag(null);
+    }
+  };
+
+  // タッチで縦スクロールが始まった場合などはブラウザにキャンセルされるので、元の位置に戻す
+  const handlePointerCancel = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (pointerRef.current?.pointerId !== e.pointerId) return;
+    pointerRef.current = null;
+    setDrag(null);
+  };
+
+  const feedbackDirection: SwipeDirection | null = !drag ? null
+    : allowsUp && -drag.dy > Math.abs(drag.dx) && -drag.dy > FEEDBACK_DISTANCE ? 'up'
+    : Math.abs(drag.dx) > FEEDBACK_DISTANCE ? (drag.dx > 0 ? 'right' : 'left')
+    : null;
+
+  const stackItems = items.slice(currentIndex, currentIndex + visibleCount);
+  const flyingIds = new Set(flyingCards.map(card => card.item.id));
+
+  // 下のカードから順に描画する。飛んでいくカードは最前面に残してDOMの位置を動かさない (transition を途切れさせないため)
+  const renderedCards = [
+    ...stackItems
+      .filter(item => !flyingIds.has(item.id))
+      .map((item, indexInStack) => ({ item, indexInStack, flyingDirection: null as SwipeDirection | null }))
+      .reverse(),
+    ...flyingCards.map(card => ({ item: card.item, indexInStack: -1, flyingDirection: card.direction })),
+  ];
+
+  return (
+    <>
+      {renderedCards.map(({ item, indexInStack, flyingDirection }) => {
+        const isTopCard = indexInStack === 0;
+        let cardProps: SwipeDeckCardProps;
+        if (flyingDirection) {
+          cardProps = {
+            isTopCard: false,
+            cardStyle: {
+              transform: FLY_OUT_TRANSFORMS[flyingDirection],
+              opacity: 0,
+              transition: `transform ${FLY_OUT_MS}ms ease-in, opacity ${FLY_OUT_MS}ms ease-in`,
+              zIndex: visibleCount + 1,
+              pointerEvents: 'none',
+            },
+            className: '',
+            interactionState: { isSwiping: false, feedbackColor: '', flyingDirection },
+          };
+        } else if (isTopCard) {
+          const rotation = drag ? (drag.dx / (topCardRef.current?.offsetWidth || 1)) * MAX_ROTATION : 0;
+          cardProps = {
+            isTopCard: true,
+            cardRef: topCardRef,
+            cardStyle: {
+              transform: drag ? `translate(${drag.dx * TRANSLATE_X_SCALE}px, ${drag.dy}px) rotate(${rotation}deg)` : '',
+              transition: drag ? 'none' : undefined, // ドラッグ中はポインターに遅れずに追従させる
+              touchAction: allowsUp ? 'none' : 'pan-y', // 上スワイプがなければ縦スクロールはブラウザに任せる
+              zIndex: visibleCount,
+            },
+            className: returning?.id === item.id ? RETURN_CLASSES[returning.direction] : '',
+            interactionState: { isSwiping: drag !== null, feedbackColor: feedbackDirection ? FEEDBACK_CLASSES[feedbackDirection] : '', flyingDirection: null },
+            onPointerDown: handlePointerDown,
+            onPointerMove: handlePointerMove,
+            onPointerUp: handlePointerUp,
+            onPointerCancel: handlePointerCancel,
+            swipe: commitSwipe,
+          };
+        } else {
+          cardProps = {
+            isTopCard: false,
+            cardStyle: {
+              transform: `scale(${1 - (indexInStack * 0.04)}) translateY(${indexInStack * 8}px) rotate(${indexInStack * (indexInStack % 2 === 0 ? -1 : 1) * 1}deg)`,
+              opacity: 1 - (indexInStack * 0.4),
+              zIndex: visibleCount - indexInStack,
+            },
+            className: '',
+          };
+        }
+        return <React.Fragment key={item.id}>{renderCard(item, cardProps)}</React.Fragment>;
+      })}
+    </>
+  );
+}
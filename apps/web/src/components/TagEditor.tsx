@@ -0,0 +1,72 @@
+// apps/web/src/components/TagEditor.tsx
+'use client';
+
+import React, { useId, useState } from 'react';
+import styles from './TagEditor.module.css';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { parseTagInput } from '@/lib/paperTags';
+
+interface TagEditorProps {
+  tags: string[];
+  onAddTags: (tags: string[]) => void;
+  onRemoveTag?: (tag: string) => void; // 未指定の場合は追加のみ (一括操作用)
+  suggestions?: string[]; // 入力候補 (ライブラリ内の既存タグ)
+  placeholder?: string;
+  submitLabel?: string;
+}
+
+export default function TagEditor({ tags, onAddTags, onRemoveTag, suggestions = [], placeholder = 'タグを追加 (カンマ区切り)', submitLabel = '追加' }: TagEditorProps) {
+  const [input, setInput] = useState('');
+  const datalistId = useId();
+
+  const handleSubmit = () => {
+    const parsedTags = parseTagInput(input);
+    if (parsedTags.length === 0) return;
+    onAddTags(parsedTags);
+    setInput('');
+  };
+
+  // フォームの中に置かれることもあるので、Enter キーで送信されないようにする
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className={styles.tagEditor}>
+      {tags.length > 0 && (
+        <ul className={styles.tagList}>
+          {tags.map(tag => (
+            <li key={tag} className={styles.tag}>
+              #{tag}
+              {onRemoveTag && (
+                <button type="button" onClick={() => onRemoveTag(tag)} className={styles.removeTagButton} aria-label={`タグ「${tag}」を削除`}>
+                  <XMarkIcon className={styles.removeTagIcon} />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className={styles.inputRow}>
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          list={suggestions.length > 0 ? datalistId : undefined}
+          className={styles.tagInput}
+        />
+        <button type="button" onClick={handleSubmit} disabled={!input.trim()} className={styles.addTagButton}>{submitLabel}</button>
+        {suggestions.length > 0 && (
+          <datalist id={datalistId}>
+            {suggestions.map(tag => <option key={tag} value={tag} />)}
+          </datalist>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+// apps/web/src/contexts/AccountContext.tsx
+'use client';
+
+import React, { createContext, useState, useContext, ReactNode, useEffect, useCallback } from 'react';
+
+// ログインは任意。ログインしていない間はこれまでどおりこの端末のみに保存する
+export interface AccountUser {
+  id: string;
+  username: string;
+}
+
+interface AccountSession {
+  token: string;
+  user: AccountUser;
+}
+
+interface AccountContextType {
+  user: AccountUser | null;
+  sessionToken: string | null;
+  isAccountsAvailable: boolean; // サーバー側でアカウント機能が無効な場合は false
+  register: (username: string, password: string) => Promise<void>; // 失敗時はメッセージ付きの Error を投げる
+  login: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  expireSession: () => void; // API が 401 を返した時に呼ぶ
+  isLoadingAccount: boolean;
+}
+
+const AccountContext = createContext<AccountContextType | undefined>(undefined);
+
+const LOCAL_STORAGE_KEY = 'kigaers_accountSession';
+
+function isAccountSession(value: unknown): value is AccountSession {
+  const session = value as AccountSession | null;
+  return typeof session?.token === 'string' && typeof session.user?.id === 'string' && typeof session.user?.username === 'string';
+}
+
+async function requestSession(path: string, username: string, password: string): Promise<AccountSession> {
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `リクエストに失敗しました (Status: ${response.status})`);
+  }
+  if (!isAccountSession({ token: data.token, user: data.user })) {
+    throw new Error('サーバーから不正な応答が返されました。');
+  }
+  return { token: data.token, user: data.user };
+}
+
+export const AccountProvider = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState<AccountSession | null>(null);
+  const [isAccountsAvailable, setIsAccountsAvailable] = useState(true);
+  const [isLoadingAccount, setIsLoadingAccount] = useState(true);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') {
+      setIsLoadingAccount(false);
+      return;
+    }
+    let savedSession: AccountSession | null = null;
+    try {
+      const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved);
+        if (isAccountSession(parsed)) {
+          savedSession = parsed;
+        } else {
+          console.warn("AccountContext: Session in localStorage is not in expected format.");
+          localStorage.removeItem(LOCAL_STORAGE_KEY);
+        }
+      }
+    } catch (error) {
+      console.error("AccountContext: Failed to load session from localStorage:", error);
+      localStorage.removeItem(LOCAL_STORAGE_KEY);
+    }
+    setSession(savedSession);
+
+    // 保存済みのセッションがまだ有効か (無い場合はアカウント機能が使えるサーバーか) を確認する
+    const verify = async () => {
+      try {
+        const response = await fetch('/api/auth/me', {
+          headers: savedSession ? { Authorization: `Bearer ${savedSession.token}` } : undefined,
+        });
+        if (response.status === 503) {
+          setIsAccountsAvailable(false);
+          setSession(null);
+        } else if (response.status === 401 && savedSession) {
+          console.warn("AccountContext: Saved session is no longer valid.");
+          setSession(null);
+        }
+      } catch (error) {
+        // オフラインの場合は保存済みのセッションのまま続ける
+        console.warn("AccountContext: Could not verify session:", error);
+      } finally {
+        setIsLoadingAccount(false);
+      }
+    };
+    verify();
+  }, []);
+
+  useEffect(() => {
+    if (typeof window !== 'undefined' && !isLoadingAccount) {
+      try {
+        if (session) {
+          localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(session));
+        } else {
+          localStorage.removeItem(LOCAL_STORAGE_KEY);
+        }
+      } catch (error) {
+        console.error("AccountContext: Failed to save session to localStorage:", error);
+      }
+    }
+  }, [session, isLoadingAccount]);
+
+  const register = useCallback(async (username: string, password: string) => {
+    setSession(await requestSession('/api/auth/register', username, password));
+  }, []);
+
+  const login = useCallback(async (username: string, password: string) => {
+    setSession(await requestSession('/api/auth/login', username, password));
+  }, []);
+
+  // ライブラリはローカルに残したまま、同期だけを止める (別のアカウントでログインした時に、統合するかを確認する)
+  const logout = useCallback(async () => {
+    const token = session?.token;
+    setSession(null);
+    if (!token) return;
+    try {
+      await fetch('/api/auth/logout', { method: 'POST', headers: { Authorization: `Bearer ${token}` } });
+    } catch (error) {
+      console.warn("AccountContext: Failed to revoke session on server:", error);
+    }
+  }, [session]);
+
+  const expireSession = useCallback(() => {
+    setSession(null);
+  }, []);
+
+  return (
+    <AccountContext.Provider value={{
+      user: session?.user ?? null,
+      sessionToken: session?.token ?? null,
+      isAccountsAvailable, register, login, logout, expireSession,
+      isLoadingAccount,
+    }}>
+      {children}
+    </AccountContext.Provider>
+  );
+};
+
+export const useAccount = () => {
+  const context = useContext(AccountContext);
+  if (context === undefined) {
+    throw new Error('useAccount must be used within an AccountProvider');
+  }
+  return context;
+};
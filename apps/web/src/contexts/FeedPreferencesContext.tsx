@@ -0,0 +1,63 @@
+// apps/web/src/contexts/FeedPreferencesContext.tsx
+'use client';
+
+import React, { createContext, useState, useContext, ReactNode, useEffect } from 'react';
+
+export type RankingMode = 'personalized' | 'chronological';
+
+// 興味なしの論文はスワイプ履歴 (SwipeHistoryContext) に保存される
+interface FeedPreferencesContextType {
+  rankingMode: RankingMode;
+  setRankingMode: (mode: RankingMode) => void;
+  isLoadingPreferences: boolean;
+}
+
+const FeedPreferencesContext = createContext<FeedPreferencesContextType | undefined>(undefined);
+
+const RANKING_MODE_STORAGE_KEY = 'kigaers_rankingMode';
+
+export const FeedPreferencesProvider = ({ children }: { children: ReactNode }) => {
+  const [rankingMode, setRankingMode] = useState<RankingMode>('personalized');
+  const [isLoadingPreferences, setIsLoadingPreferences] = useState(true);
+
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      try {
+        const savedMode = localStorage.getItem(RANKING_MODE_STORAGE_KEY);
+        if (savedMode === 'personalized' || savedMode === 'chronological') {
+          setRankingMode(savedMode);
+        }
+      } catch (error) {
+        console.error("FeedPreferencesContext: Failed to load preferences from localStorage:", error);
+      } finally {
+        setIsLoadingPreferences(false);
+      }
+    } else {
+        setIsLoadingPreferences(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (typeof window !== 'undefined' && !isLoadingPreferences) {
+      try {
+        localStorage.setItem(RANKING_MODE_STORAGE_KEY, rankingMode);
+      } catch (error) {
+        console.error("FeedPreferencesContext: Failed to save preferences to localStorage:", error);
+      }
+    }
+  }, [rankingMode, isLoadingPreferences]);
+
+  return (
+    <FeedPreferencesContext.Provider value={{ rankingMode, setRankingMode, isLoadingPreferences }}>
+      {children}
+    </FeedPreferencesContext.Provider>
+  );
+};
+
+export const useFeedPreferences = () => {
+  const context = useContext(FeedPreferencesContext);
+  if (context === undefined) {
+    throw new Error('useFeedPreferences must be used within a FeedPreferencesProvider');
+  }
+  return context;
+};
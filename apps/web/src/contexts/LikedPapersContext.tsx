@@ -1,7 +1,24 @@
 // apps/web/src/contexts/LikedPapersContext.tsx
 'use client';
 
-import React, { createContext, useState, useContext, ReactNode, useEffect, useCallback } from 'react';
+import React, { createContext, useState, useContext, ReactNode, useEffect, useCallback, useRef } from 'react';
+import type { PaperSourceId } from '@/lib/paperSources/catalog';
+import { mergeTags } from '@/lib/paperTags';
+import { findDuplicatePaper } from '@/lib/paperImport';
+import type { StructuredSummary } from '@/lib/structuredSummary';
+import type { PaperSummaryVariant, SummaryOptions } from '@/lib/summaryOptions';
+import type { AbstractTranslation } from '@/lib/abstractTranslation';
+import { applySummaryVariant } from '@/lib/summaryClient';
+import { useAccount } from '@/contexts/AccountContext';
+import {
+  emptyTombstones, mergeLibrarySnapshots, mergeTombstones, parseLibrarySnapshot,
+  type LibrarySnapshot, type LibraryTombstones,
+} from '@/lib/librarySync';
+import {
+  clearQuarantinedRecords, diffLibraryRecords, hasLibraryRecordChanges, loadLibraryFromDb,
+  writeLibraryRecords, writeLibraryTombstones,
+} from '@/lib/libraryDb';
+import { applyRecordChanges, openLibraryChannel, type LibraryChannel } from '@/lib/libraryBroadcast';
 
 export interface Paper {
   id: string;
@@ -12,75 +29,422 @@ export interface Paper {
   updated: string;
   pdfLink: string;
   categories: string[];
-  aiSummary?: string; // AIによる日本語要約
+  source?: PaperSourceId; // 取得元 (未設定の古いデータは arXiv)
+  doi?: string;
+  journalRef?: string; // 掲載誌 (エクスポート時に使う)
+  comment?: string; // arXiv の著者コメント
+  aiSummary?: string; // 表示中のAI要約 (項目別の要約をテキストにしたもの。エクスポートやハイライトで使う)
+  aiSummaryStructured?: StructuredSummary; // 項目別のAI要約 (以前のバージョンで生成した要約には無い)
+  aiSummaryOptions?: SummaryOptions; // 表示中のAI要約の言語・長さ・対象読者 (未設定は既定の設定)
+  aiSummaryVariants?: Record<string, PaperSummaryVariant>; // 設定ごとに生成したAI要約 (キーは summaryVariantKey)
+  abstractTranslation?: AbstractTranslation; // Abstract の文ごとの和訳
+  collectionId?: string; // 所属するコレクション (未設定は未分類)
+  tags?: string[]; // ユーザーが付けたタグ
+  notes?: string; // ユーザーのメモ (Markdown + LaTeX)
+  highlights?: PaperHighlight[];
+  chatThreads?: PaperChatThread[]; // 「AIに質問する」の会話 (分岐すると複数になる)
+  updatedAt?: string; // ライブラリ上で最後に変更した日時 (同期で新しい方を採用するのに使う)
   isEndOfFeedCard?: boolean;
   endOfFeedMessage?: string;
 }
 
+// ライブラリの論文を分類するフォルダ。論文は最大1つのコレクションに属する
+export interface PaperCollection {
+  id: string;
+  name: string;
+  createdAt: string; // ISO 8601
+  updatedAt?: string;
+}
+
+export type HighlightSource = 'abstract' | 'aiSummary';
+
+// Abstract や AI要約から選択して保存した一節
+export interface PaperHighlight {
+  id: string;
+  source: HighlightSource;
+  text: string;
+  comment: string;
+  createdAt: string; // ISO 8601
+}
+
+export type ChatRole = 'user' | 'ai';
+
+export interface PaperChatMessage {
+  role: ChatRole;
+  content: string;
+  createdAt: string; // ISO 8601
+  isError?: boolean; // エラー表示用。次の質問の文脈には含めない
+}
+
+export interface PaperChatThread {
+  id: string;
+  messages: PaperChatMessage[];
+  createdAt: string;
+  updatedAt: string;
+  branchedFrom?: string; // 分岐元の会話のID
+}
+
 interface LikedPapersContextType {
   likedPapers: Paper[];
   addLikedPaper: (paper: Paper) => void;
+  addLikedPapers: (papers: Paper[]) => void; // インポート用。同じID・同じDOIの論文は追加しない
   removeLikedPaper: (paperId: string) => void;
   isPaperLiked: (paperId: string) => boolean;
-  updateLikedPaperSummary: (paperId: string, aiSummary: string) => void; // ★★★ 追加 ★★★
+  updateLikedPaperSummary: (paperId: string, variant: PaperSummaryVariant) => void;
+  updateLikedPaperTranslation: (paperId: string, translation: AbstractTranslation) => void; // ★★★ 追加 ★★★
   clearLikedPapers: () => void;
+  collections: PaperCollection[];
+  createCollection: (name: string) => PaperCollection | null; // 空の名前・同名のコレクションがある場合は null
+  renameCollection: (collectionId: string, name: string) => void;
+  deleteCollection: (collectionId: string) => void; // 属していた論文は未分類に戻る
+  movePapersToCollection: (paperIds: string[], collectionId: string | null) => void;
+  addTagsToPapers: (paperIds: string[], tags: string[]) => void;
+  removeTagFromPaper: (paperId: string, tag: string) => void;
+  updatePaperNotes: (paperId: string, notes: string) => void;
+  addHighlight: (paperId: string, source: HighlightSource, text: string, comment: string) => PaperHighlight | null; // 空のテキストは null
+  updateHighlightComment: (paperId: string, highlightId: string, comment: string) => void;
+  removeHighlight: (paperId: string, highlightId: string) => void;
+  appendChatMessages: (paperId: string, threadId: string | null, messages: PaperChatMessage[]) => string; // threadId が null なら新しい会話を始める。会話のIDを返す
+  branchChatThread: (paperId: string, threadId: string, messageCount: number) => string | null; // 先頭から messageCount 件を引き継いだ会話を作る
+  deleteChatThread: (paperId: string, threadId: string) => void;
   isLoadingPersistence: boolean;
+  quarantinedCount: number; // 読み込めずに隔離したレコードの数
+  clearQuarantine: () => Promise<void>;
+  syncStatus: LibrarySyncStatus;
+  lastSyncedAt: string | null;
+  lastPulledCount: number; // 直前の同期で他の端末から取り込んだ件数
+  syncError: string | null;
+  syncNow: () => Promise<void>;
+  hasLibraryOwnerConflict: boolean; // 別のアカウントと同期していたライブラリのまま、別のアカウントでログインした (選ぶまで同期を止める)
+  resolveLibraryOwnerConflict: (choice: LibraryOwnerChoice) => void;
 }
 
+// merge: この端末のライブラリをログイン中のアカウントに統合する / clear: 消去してからログイン中のアカウントのライブラリを読み込む
+export type LibraryOwnerChoice = 'merge' | 'clear';
+
+// local: ログインしていない (この端末のみに保存) / paused: ライブラリの扱いを選ぶまで同期を止めている
+export type LibrarySyncStatus = 'local' | 'syncing' | 'synced' | 'error' | 'paused';
+
 const LikedPapersContext = createContext<LikedPapersContextType | undefined>(undefined);
 
-const LOCAL_STORAGE_KEY = 'kigaers_likedPapers';
+const SYNC_DEBOUNCE_MS = 2000; // 変更が続いている間は送らない
+const FOCUS_SYNC_THROTTLE_MS = 30 * 1000;
+const PERIODIC_SYNC_MS = 5 * 60 * 1000;
+// この端末のライブラリを最後に同期したアカウント (共用の端末で、別のアカウントのライブラリに黙って統合しないため)
+const SYNCED_USER_STORAGE_KEY = 'kigaers_librarySyncedUserId';
+
+function readSyncedUserId(): string | null {
+  try {
+    return localStorage.getItem(SYNCED_USER_STORAGE_KEY);
+  } catch (error) {
+    console.error("LikedPapersContext: Failed to read synced user from localStorage:", error);
+    return null;
+  }
+}
+
+function writeSyncedUserId(userId: string) {
+  try {
+    localStorage.setItem(SYNCED_USER_STORAGE_KEY, userId);
+  } catch (error) {
+    console.error("LikedPapersContext: Failed to save synced user to localStorage:", error);
+  }
+}
+
+function generateCollectionId(): string {
+  return `col_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 7)}`;
+}
+
+function generateHighlightId(): string {
+  return `hl_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 7)}`;
+}
+
+function generateChatThreadId(): string {
+  return `chat_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 7)}`;
+}
 
 export const LikedPapersProvider = ({ children }: { children: ReactNode }) => {
+  const { user, sessionToken, expireSession, isLoadingAccount } = useAccount();
   const [likedPapers, setLikedPapers] = useState<Paper[]>([]);
+  const [collections, setCollections] = useState<PaperCollection[]>([]);
+  const [tombstones, setTombstones] = useState<LibraryTombstones>(emptyTombstones);
   const [isLoadingPersistence, setIsLoadingPersistence] = useState(true);
+  const [quarantinedCount, setQuarantinedCount] = useState(0);
+  const [localRevision, setLocalRevision] = useState(0); // ユーザー操作で変更するたびに増やす (同期の結果を反映した時は増やさない)
+  const [syncStatus, setSyncStatus] = useState<LibrarySyncStatus>('local');
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const [lastPulledCount, setLastPulledCount] = useState(0);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [hasLibraryOwnerConflict, setHasLibraryOwnerConflict] = useState(false);
+
+  // 同期処理は非同期に走るため、最新の状態は ref から読む
+  const snapshotRef = useRef<LibrarySnapshot>({ papers: [], collections: [], tombstones: emptyTombstones() });
+  const localRevisionRef = useRef(0);
+  const isSyncingRef = useRef(false);
+  const needsResyncRef = useRef(false);
+  const lastSyncStartedAtRef = useRef(0);
+  const persistedRef = useRef<{ papers: Paper[]; collections: PaperCollection[] }>({ papers: [], collections: [] });
+  const isPersistenceAvailableRef = useRef(false);
+  const channelRef = useRef<LibraryChannel | null>(null);
+
+  useEffect(() => {
+    snapshotRef.current = { papers: likedPapers, collections, tombstones };
+  }, [likedPapers, collections, tombstones]);
+
+  useEffect(() => {
+    localRevisionRef.current = localRevision;
+  }, [localRevision]);
 
   useEffect(() => {
-    if (typeof window !== 'undefined') {
+    if (typeof window === 'undefined') {
+      setIsLoadingPersistence(false);
+      return;
+    }
+    const load = async () => {
       try {
-        const savedPapers = localStorage.getItem(LOCAL_STORAGE_KEY);
-        if (savedPapers) {
-          const parsedPapers = JSON.parse(savedPapers);
-          if (Array.isArray(parsedPapers) && parsedPapers.every(p => typeof p.id === 'string' && typeof p.title === 'string')) {
-            setLikedPapers(parsedPapers);
-          } else {
-            console.warn("LikedPapersContext: Data in localStorage is not in expected format.");
-            localStorage.removeItem(LOCAL_STORAGE_KEY);
-          }
-        }
+        const library = await loadLibraryFromDb();
+        persistedRef.current = { papers: library.papers, collections: library.collections };
+        isPersistenceAvailableRef.current = true;
+        setLikedPapers(library.papers);
+        setCollections(library.collections);
+        setTombstones(library.tombstones);
+        setQuarantinedCount(library.quarantinedCount);
       } catch (error) {
-        console.error("LikedPapersContext: Failed to load liked papers from localStorage:", error);
-        localStorage.removeItem(LOCAL_STORAGE_KEY);
+        // 読み込めなかった場合は書き込みも止め、保存済みのデータを上書きしないようにする
+        console.error("LikedPapersContext: Failed to load library from IndexedDB:", error);
       } finally {
         setIsLoadingPersistence(false);
       }
-    } else {
-        setIsLoadingPersistence(false);
-    }
+    };
+    load();
   }, []);
 
+  // 他のタブで保存された変更をそのまま反映する。
+  // persistedRef は DB の内容に合わせて更新するので、手元の方が新しいレコードだけが書き戻される
   useEffect(() => {
-    if (typeof window !== 'undefined' && !isLoadingPersistence) {
-      try {
-        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(likedPapers));
-      } catch (error) {
-        console.error("LikedPapersContext: Failed to save liked papers to localStorage:", error);
+    if (isLoadingPersistence || !isPersistenceAvailableRef.current) return;
+    const channel = openLibraryChannel((message) => {
+      if (message.type === 'tombstones') {
+        setTombstones((prevTombstones) => mergeTombstones(prevTombstones, message.tombstones));
+      } else if (message.kind === 'papers') {
+        persistedRef.current.papers = applyRecordChanges(persistedRef.current.papers, message);
+        setLikedPapers((prevPapers) => applyRecordChanges(prevPapers, message, true));
+      } else {
+        persistedRef.current.collections = applyRecordChanges(persistedRef.current.collections, message);
+        setCollections((prevCollections) => applyRecordChanges(prevCollections, message, true));
       }
-    }
+    });
+    channelRef.current = channel;
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [isLoadingPersistence]);
+
+  // 前回保存した状態との差分だけを書き込み、他のタブに伝える
+  useEffect(() => {
+    if (isLoadingPersistence || !isPersistenceAvailableRef.current) return;
+    const changes = diffLibraryRecords(persistedRef.current.papers, likedPapers);
+    persistedRef.current.papers = likedPapers;
+    if (!hasLibraryRecordChanges(changes)) return;
+    writeLibraryRecords('papers', changes)
+      .then(() => channelRef.current?.post({ type: 'records', kind: 'papers', ...changes }))
+      .catch((error) => {
+        console.error("LikedPapersContext: Failed to save liked papers to IndexedDB:", error);
+      });
   }, [likedPapers, isLoadingPersistence]);
 
+  useEffect(() => {
+    if (isLoadingPersistence || !isPersistenceAvailableRef.current) return;
+    const changes = diffLibraryRecords(persistedRef.current.collections, collections);
+    persistedRef.current.collections = collections;
+    if (!hasLibraryRecordChanges(changes)) return;
+    writeLibraryRecords('collections', changes)
+      .then(() => channelRef.current?.post({ type: 'records', kind: 'collections', ...changes }))
+      .catch((error) => {
+        console.error("LikedPapersContext: Failed to save collections to IndexedDB:", error);
+      });
+  }, [collections, isLoadingPersistence]);
+
+  useEffect(() => {
+    if (isLoadingPersistence || !isPersistenceAvailableRef.current) return;
+    writeLibraryTombstones(tombstones)
+      .then(() => channelRef.current?.post({ type: 'tombstones', tombstones }))
+      .catch((error) => {
+        console.error("LikedPapersContext: Failed to save tombstones to IndexedDB:", error);
+      });
+  }, [tombstones, isLoadingPersistence]);
+
+  const clearQuarantine = useCallback(async () => {
+    await clearQuarantinedRecords();
+    setQuarantinedCount(0);
+  }, []);
+
+  const markLibraryChanged = useCallback(() => {
+    setLocalRevision((prevRevision) => prevRevision + 1);
+  }, []);
+
+  // 条件に合う論文を更新し、同期のために updatedAt を付ける
+  const updatePapers = useCallback((isTarget: (paper: Paper) => boolean, update: (paper: Paper) => Paper) => {
+    const updatedAt = new Date().toISOString();
+    setLikedPapers((prevPapers) =>
+      prevPapers.map((p) => isTarget(p) ? { ...update(p), updatedAt } : p)
+    );
+    markLibraryChanged();
+  }, [markLibraryChanged]);
+
+  // 削除したことを他の端末に伝えるため、削除日時を残しておく
+  const recordDeletions = useCallback((kind: keyof LibraryTombstones, ids: string[]) => {
+    if (ids.length === 0) return;
+    const deletedAt = new Date().toISOString();
+    setTombstones((prevTombstones) => ({
+      ...prevTombstones,
+      [kind]: { ...prevTombstones[kind], ...Object.fromEntries(ids.map((id) => [id, deletedAt])) },
+    }));
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (!sessionToken || !user || isLoadingPersistence) return;
+    if (isSyncingRef.current) {
+      needsResyncRef.current = true;
+      return;
+    }
+    // 前回別のアカウントと同期したライブラリは、統合するか消去するかを選んでもらうまで送らない
+    const syncedUserId = readSyncedUserId();
+    if (syncedUserId !== user.id) {
+      const { papers: localPapers, collections: localCollections } = snapshotRef.current;
+      if (syncedUserId !== null && (localPapers.length > 0 || localCollections.length > 0)) {
+        console.warn("LikedPapersContext: Local library was synced with another account. Waiting for the user to choose.");
+        setHasLibraryOwnerConflict(true);
+        setSyncStatus('paused');
+        return;
+      }
+      writeSyncedUserId(user.id);
+    }
+    isSyncingRef.current = true;
+    lastSyncStartedAtRef.current = Date.now();
+    setSyncStatus('syncing');
+    const sentRevision = localRevisionRef.current;
+    try {
+      const response = await fetch('/api/library/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${sessionToken}` },
+        body: JSON.stringify(snapshotRef.current),
+      });
+      if (response.status === 401) {
+        console.warn("LikedPapersContext: Session expired while syncing.");
+        expireSession();
+        setSyncStatus('local');
+        return;
+      }
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Status: ${response.status}`);
+      }
+      const serverSnapshot = parseLibrarySnapshot(data.snapshot);
+      if (!serverSnapshot) {
+        throw new Error('サーバーから不正な応答が返されました。');
+      }
+      // 送信中にローカルで変更された分は、サーバーの結果に重ねてから次の同期で送る
+      const changedWhileSyncing = localRevisionRef.current !== sentRevision;
+      const nextSnapshot = changedWhileSyncing
+        ? mergeLibrarySnapshots(serverSnapshot, snapshotRef.current).snapshot
+        : serverSnapshot;
+      snapshotRef.current = nextSnapshot;
+      setLikedPapers(nextSnapshot.papers);
+      setCollections(nextSnapshot.collections);
+      setTombstones(nextSnapshot.tombstones);
+      if (changedWhileSyncing) needsResyncRef.current = true;
+      setLastPulledCount(typeof data.pulledCount === 'number' ? data.pulledCount : 0);
+      setLastSyncedAt(typeof data.syncedAt === 'string' ? data.syncedAt : new Date().toISOString());
+      setSyncError(null);
+      setSyncStatus('synced');
+    } catch (error) {
+      console.error("LikedPapersContext: Failed to sync library:", error);
+      setSyncError(error instanceof Error ? error.message : '不明なエラー');
+      setSyncStatus('error');
+    } finally {
+      isSyncingRef.current = false;
+      if (needsResyncRef.current) {
+        needsResyncRef.current = false;
+        markLibraryChanged(); // デバウンスを経由してもう一度同期する
+      }
+    }
+  }, [sessionToken, user, isLoadingPersistence, expireSession, markLibraryChanged]);
+
+  const resolveLibraryOwnerConflict = useCallback((choice: LibraryOwnerChoice) => {
+    if (!user) return;
+    if (choice === 'clear') {
+      console.log("LikedPapersContext: Clearing the local library that was synced with another account.");
+      snapshotRef.current = { papers: [], collections: [], tombstones: emptyTombstones() };
+      setLikedPapers([]);
+      setCollections([]);
+      setTombstones(snapshotRef.current.tombstones);
+    }
+    writeSyncedUserId(user.id);
+    setHasLibraryOwnerConflict(false); // 自動同期を再開する
+  }, [user]);
+
+  // ログイン直後・起動時に同期し、その後はタブに戻った時と一定間隔で他の端末の変更を取り込む
+  useEffect(() => {
+    if (!sessionToken || isLoadingAccount || isLoadingPersistence) {
+      setSyncStatus('local');
+      setHasLibraryOwnerConflict(false);
+      return;
+    }
+    if (hasLibraryOwnerConflict) return; // ライブラリの扱いを選ぶまで自動では同期しない
+    syncNow();
+    const handleVisible = () => {
+      if (document.visibilityState !== 'visible') return;
+      if (Date.now() - lastSyncStartedAtRef.current < FOCUS_SYNC_THROTTLE_MS) return;
+      syncNow();
+    };
+    const intervalId = setInterval(() => {
+      if (document.visibilityState === 'visible') syncNow();
+    }, PERIODIC_SYNC_MS);
+    window.addEventListener('focus', handleVisible);
+    document.addEventListener('visibilitychange', handleVisible);
+    return () => {
+      clearInterval(intervalId);
+      window.removeEventListener('focus', handleVisible);
+      document.removeEventListener('visibilitychange', handleVisible);
+    };
+  }, [sessionToken, isLoadingAccount, isLoadingPersistence, hasLibraryOwnerConflict, syncNow]);
+
+  useEffect(() => {
+    if (!sessionToken || isLoadingAccount || isLoadingPersistence || hasLibraryOwnerConflict || localRevision === 0) return;
+    const timeoutId = setTimeout(() => { syncNow(); }, SYNC_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [localRevision, sessionToken, isLoadingAccount, isLoadingPersistence, hasLibraryOwnerConflict, syncNow]);
+
   const addLikedPaper = useCallback((paper: Paper) => {
+    const updatedAt = new Date().toISOString();
     setLikedPapers((prevPapers) => {
       if (!prevPapers.find(p => p.id === paper.id)) {
-        return [...prevPapers, paper];
+        return [...prevPapers, { ...paper, updatedAt }];
       }
       return prevPapers;
     });
-  }, []);
+    markLibraryChanged();
+  }, [markLibraryChanged]);
+
+  const addLikedPapers = useCallback((papers: Paper[]) => {
+    const updatedAt = new Date().toISOString();
+    setLikedPapers((prevPapers) => {
+      const merged = [...prevPapers];
+      for (const paper of papers) {
+        if (!findDuplicatePaper(merged, paper)) merged.push({ ...paper, updatedAt });
+      }
+      return merged.length === prevPapers.length ? prevPapers : merged;
+    });
+    markLibraryChanged();
+  }, [markLibraryChanged]);
 
   const removeLikedPaper = useCallback((paperId: string) => {
+    if (!snapshotRef.current.papers.some((p) => p.id === paperId)) return;
     setLikedPapers((prevPapers) => prevPapers.filter((p) => p.id !== paperId));
-  }, []);
+    recordDeletions('papers', [paperId]);
+    markLibraryChanged();
+  }, [recordDeletions, markLibraryChanged]);
 
   const isPaperLiked = useCallback((paperId: string) => {
     if (isLoadingPersistence) return false;
@@ -88,20 +452,147 @@ export const LikedPapersProvider = ({ children }: { children: ReactNode }) => {
   }, [likedPapers, isLoadingPersistence]);
 
   // ★★★ 追加: 特定の論文のAI要約を更新する関数 ★★★
-  const updateLikedPaperSummary = useCallback((paperId: string, aiSummary: string) => {
-    setLikedPapers((prevPapers) =>
-      prevPapers.map((p) =>
-        p.id === paperId ? { ...p, aiSummary: aiSummary } : p
-      )
-    );
-  }, []);
+  const updateLikedPaperSummary = useCallback((paperId: string, variant: PaperSummaryVariant) => {
+    updatePapers((p) => p.id === paperId, (p) => applySummaryVariant(p, variant));
+  }, [updatePapers]);
+
+  const updateLikedPaperTranslation = useCallback((paperId: string, translation: AbstractTranslation) => {
+    updatePapers((p) => p.id === paperId, (p) => ({ ...p, abstractTranslation: translation }));
+  }, [updatePapers]);
 
   const clearLikedPapers = useCallback(() => {
+    recordDeletions('papers', likedPapers.map((p) => p.id));
     setLikedPapers([]);
-  }, []);
+    markLibraryChanged();
+  }, [likedPapers, recordDeletions, markLibraryChanged]);
+
+  const createCollection = useCallback((name: string) => {
+    const trimmedName = name.trim();
+    if (!trimmedName || collections.some(c => c.name === trimmedName)) return null;
+    const createdAt = new Date().toISOString();
+    const collection: PaperCollection = { id: generateCollectionId(), name: trimmedName, createdAt, updatedAt: createdAt };
+    setCollections((prevCollections) => [...prevCollections, collection]);
+    markLibraryChanged();
+    return collection;
+  }, [collections, markLibraryChanged]);
+
+  const renameCollection = useCallback((collectionId: string, name: string) => {
+    const trimmedName = name.trim();
+    if (!trimmedName) return;
+    const updatedAt = new Date().toISOString();
+    setCollections((prevCollections) =>
+      prevCollections.map((c) => c.id === collectionId ? { ...c, name: trimmedName, updatedAt } : c)
+    );
+    markLibraryChanged();
+  }, [markLibraryChanged]);
+
+  const deleteCollection = useCallback((collectionId: string) => {
+    setCollections((prevCollections) => prevCollections.filter((c) => c.id !== collectionId));
+    recordDeletions('collections', [collectionId]);
+    updatePapers((p) => p.collectionId === collectionId, (p) => ({ ...p, collectionId: undefined }));
+  }, [recordDeletions, updatePapers]);
+
+  const movePapersToCollection = useCallback((paperIds: string[], collectionId: string | null) => {
+    const targetIds = new Set(paperIds);
+    updatePapers((p) => targetIds.has(p.id), (p) => ({ ...p, collectionId: collectionId ?? undefined }));
+  }, [updatePapers]);
+
+  const addTagsToPapers = useCallback((paperIds: string[], tags: string[]) => {
+    const targetIds = new Set(paperIds);
+    updatePapers((p) => targetIds.has(p.id), (p) => ({ ...p, tags: mergeTags(p.tags ?? [], tags) }));
+  }, [updatePapers]);
+
+  const removeTagFromPaper = useCallback((paperId: string, tag: string) => {
+    updatePapers(
+      (p) => p.id === paperId,
+      (p) => ({ ...p, tags: (p.tags ?? []).filter((t) => t.toLowerCase() !== tag.toLowerCase()) }),
+    );
+  }, [updatePapers]);
+
+  const updatePaperNotes = useCallback((paperId: string, notes: string) => {
+    updatePapers((p) => p.id === paperId, (p) => ({ ...p, notes: notes.trim() ? notes : undefined }));
+  }, [updatePapers]);
+
+  const addHighlight = useCallback((paperId: string, source: HighlightSource, text: string, comment: string) => {
+    const trimmedText = text.trim();
+    if (!trimmedText) return null;
+    const highlight: PaperHighlight = {
+      id: generateHighlightId(),
+      source,
+      text: trimmedText,
+      comment: comment.trim(),
+      createdAt: new Date().toISOString(),
+    };
+    updatePapers((p) => p.id === paperId, (p) => ({ ...p, highlights: [...(p.highlights ?? []), highlight] }));
+    return highlight;
+  }, [updatePapers]);
+
+  const updateHighlightComment = useCallback((paperId: string, highlightId: string, comment: string) => {
+    updatePapers(
+      (p) => p.id === paperId,
+      (p) => ({ ...p, highlights: (p.highlights ?? []).map((h) => h.id === highlightId ? { ...h, comment: comment.trim() } : h) }),
+    );
+  }, [updatePapers]);
+
+  const removeHighlight = useCallback((paperId: string, highlightId: string) => {
+    updatePapers(
+      (p) => p.id === paperId,
+      (p) => ({ ...p, highlights: (p.highlights ?? []).filter((h) => h.id !== highlightId) }),
+    );
+  }, [updatePapers]);
+
+  const appendChatMessages = useCallback((paperId: string, threadId: string | null, messages: PaperChatMessage[]) => {
+    const targetThreadId = threadId ?? generateChatThreadId();
+    const now = new Date().toISOString();
+    updatePapers((p) => p.id === paperId, (p) => {
+      const threads = p.chatThreads ?? [];
+      const hasThread = threads.some((t) => t.id === targetThreadId);
+      return {
+        ...p,
+        chatThreads: hasThread
+          ? threads.map((t) => t.id === targetThreadId ? { ...t, messages: [...t.messages, ...messages], updatedAt: now } : t)
+          : [...threads, { id: targetThreadId, messages, createdAt: now, updatedAt: now }],
+      };
+    });
+    return targetThreadId;
+  }, [updatePapers]);
+
+  const branchChatThread = useCallback((paperId: string, threadId: string, messageCount: number) => {
+    const paper = snapshotRef.current.papers.find((p) => p.id === paperId);
+    const source = paper?.chatThreads?.find((t) => t.id === threadId);
+    if (!source || messageCount <= 0) return null;
+    const now = new Date().toISOString();
+    const branch: PaperChatThread = {
+      id: generateChatThreadId(),
+      messages: source.messages.slice(0, messageCount),
+      createdAt: now,
+      updatedAt: now,
+      branchedFrom: source.id,
+    };
+    updatePapers((p) => p.id === paperId, (p) => ({ ...p, chatThreads: [...(p.chatThreads ?? []), branch] }));
+    return branch.id;
+  }, [updatePapers]);
+
+  const deleteChatThread = useCallback((paperId: string, threadId: string) => {
+    updatePapers(
+      (p) => p.id === paperId,
+      (p) => {
+        const chatThreads = (p.chatThreads ?? []).filter((t) => t.id !== threadId);
+        return { ...p, chatThreads: chatThreads.length > 0 ? chatThreads : undefined };
+      },
+    );
+  }, [updatePapers]);
 
   return (
-    <LikedPapersContext.Provider value={{ likedPapers, addLikedPaper, removeLikedPaper, isPaperLiked, updateLikedPaperSummary, clearLikedPapers, isLoadingPersistence }}>
+    <LikedPapersContext.Provider value={{
+      likedPapers, addLikedPaper, addLikedPapers, removeLikedPaper, isPaperLiked, updateLikedPaperSummary, updateLikedPaperTranslation, clearLikedPapers,
+      collections, createCollection, renameCollection, deleteCollection, movePapersToCollection, addTagsToPapers, removeTagFromPaper,
+      updatePaperNotes, addHighlight, updateHighlightComment, removeHighlight,
+      appendChatMessages, branchChatThread, deleteChatThread,
+      isLoadingPersistence, quarantinedCount, clearQuarantine,
+      syncStatus, lastSyncedAt, lastPulledCount, syncError, syncNow,
+      hasLibraryOwnerConflict, resolveLibraryOwnerConflict,
+    }}>
       {children}
     </LikedPapersContext.Provider>
   );
@@ -0,0 +1,107 @@
+// apps/web/src/contexts/ReadLaterContext.tsx
+'use client';
+
+import React, { createContext, useState, useContext, ReactNode, useEffect, useCallback } from 'react';
+import type { Paper } from '@/contexts/LikedPapersContext';
+
+// 「あとで読む」キュー。ライブラリ (いいね) とは別に、後で目を通したい論文を保存しておく
+interface ReadLaterContextType {
+  readLaterPapers: Paper[]; // 追加した順 (古いものが先頭)
+  addToReadLater: (paper: Paper) => void;
+  removeFromReadLater: (paperId: string) => void;
+  isInReadLater: (paperId: string) => boolean;
+  isLoadingReadLater: boolean;
+}
+
+const ReadLaterContext = createContext<ReadLaterContextType | undefined>(undefined);
+
+const LOCAL_STORAGE_KEY = 'kigaers_readLater';
+
+export const ReadLaterProvider = ({ children }: { children: ReactNode }) => {
+  const [readLaterPapers, setReadLaterPapers] = useState<Paper[]>([]);
+  const [isLoadingReadLater, setIsLoadingReadLater] = useState(true);
+
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      try {
+        const savedPapers = localStorage.getItem(LOCAL_STORAGE_KEY);
+        if (savedPapers) {
+          const parsedPapers = JSON.parse(savedPapers);
+          if (Array.isArray(parsedPapers) && parsedPapers.every(p => typeof p.id === 'string' && typeof p.title === 'string')) {
+            setReadLaterPapers(parsedPapers);
+          } else {
+            console.warn("ReadLaterContext: Data in localStorage is not in expected format.");
+            localStorage.removeItem(LOCAL_STORAGE_KEY);
+          }
+        }
+      } catch (error) {
+        console.error("ReadLaterContext: Failed to load read-later papers from localStorage:", error);
+        localStorage.removeItem(LOCAL_STORAGE_KEY);
+      } finally {
+        setIsLoadingReadLater(false);
+      }
+    } else {
+        setIsLoadingReadLater(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (typeof window !== 'undefined' && !isLoadingReadLater) {
+      try {
+        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(readLaterPapers));
+      } catch (error) {
+        console.error("ReadLaterContext: Failed to save read-later papers to localStorage:", error);
+      }
+    }
+  }, [readLaterPapers, isLoadingReadLater]);
+
+  // 他のタブで変更された場合は読み込み直す (storage イベントは変更したタブ自身には届かない)
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== LOCAL_STORAGE_KEY) return;
+      try {
+        const parsedPapers = event.newValue ? JSON.parse(event.newValue) : [];
+        if (Array.isArray(parsedPapers) && parsedPapers.every(p => typeof p.id === 'string' && typeof p.title === 'string')) {
+          setReadLaterPapers(parsedPapers);
+        }
+      } catch (error) {
+        console.error("ReadLaterContext: Failed to apply read-later papers from another tab:", error);
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const addToReadLater = useCallback((paper: Paper) => {
+    if (paper.isEndOfFeedCard) return;
+    setReadLaterPapers((prevPapers) => {
+      if (!prevPapers.find(p => p.id === paper.id)) {
+        return [...prevPapers, paper];
+      }
+      return prevPapers;
+    });
+  }, []);
+
+  const removeFromReadLater = useCallback((paperId: string) => {
+    setReadLaterPapers((prevPapers) => prevPapers.filter((p) => p.id !== paperId));
+  }, []);
+
+  const isInReadLater = useCallback((paperId: string) => {
+    if (isLoadingReadLater) return false;
+    return readLaterPapers.some(p => p.id === paperId);
+  }, [readLaterPapers, isLoadingReadLater]);
+
+  return (
+    <ReadLaterContext.Provider value={{ readLaterPapers, addToReadLater, removeFromReadLater, isInReadLater, isLoadingReadLater }}>
+      {children}
+    </ReadLaterContext.Provider>
+  );
+};
+
+export const useReadLater = () => {
+  const context = useContext(ReadLaterContext);
+  if (context === undefined) {
+    throw new Error('useReadLater must be used within a ReadLaterProvider');
+  }
+  return context;
+};
@@ -0,0 +1,74 @@
+// apps/web/src/contexts/SummaryPreferencesContext.tsx
+'use client';
+
+import React, { createContext, useState, useContext, ReactNode, useEffect } from 'react';
+import { DEFAULT_SUMMARY_OPTIONS, parseSummaryOptions, type SummaryOptions, type SummarySource } from '@/lib/summaryOptions';
+
+// AI要約を生成するときの言語・長さ・対象読者の既定値 (このブラウザに保存する)
+interface SummaryPreferencesContextType {
+  summaryOptions: SummaryOptions;
+  setSummaryOptions: (options: SummaryOptions) => void;
+  autoSummarySource: SummarySource | null; // ホームでこれから表示するカードを先に要約しておく (null: しない)
+  setAutoSummarySource: (source: SummarySource | null) => void;
+  isLoadingSummaryPreferences: boolean;
+}
+
+const SummaryPreferencesContext = createContext<SummaryPreferencesContextType | undefined>(undefined);
+
+const SUMMARY_OPTIONS_STORAGE_KEY = 'kigaers_summaryOptions';
+const AUTO_SUMMARY_SOURCE_STORAGE_KEY = 'kigaers_autoSummarySource';
+const AUTO_SUMMARY_OFF = 'off';
+
+export const SummaryPreferencesProvider = ({ children }: { children: ReactNode }) => {
+  const [summaryOptions, setSummaryOptions] = useState<SummaryOptions>(DEFAULT_SUMMARY_OPTIONS);
+  const [autoSummarySource, setAutoSummarySource] = useState<SummarySource | null>('abstract'); // Abstract だけなら速く、PDF も使わない
+  const [isLoadingSummaryPreferences, setIsLoadingSummaryPreferences] = useState(true);
+
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      try {
+        const savedOptions = localStorage.getItem(SUMMARY_OPTIONS_STORAGE_KEY);
+        if (savedOptions) {
+          setSummaryOptions(parseSummaryOptions(JSON.parse(savedOptions)));
+        }
+        const savedAutoSource = localStorage.getItem(AUTO_SUMMARY_SOURCE_STORAGE_KEY);
+        if (savedAutoSource === 'abstract' || savedAutoSource === 'pdf') {
+          setAutoSummarySource(savedAutoSource);
+        } else if (savedAutoSource === AUTO_SUMMARY_OFF) {
+          setAutoSummarySource(null);
+        }
+      } catch (error) {
+        console.error("SummaryPreferencesContext: Failed to load preferences from localStorage:", error);
+      } finally {
+        setIsLoadingSummaryPreferences(false);
+      }
+    } else {
+        setIsLoadingSummaryPreferences(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (typeof window !== 'undefined' && !isLoadingSummaryPreferences) {
+      try {
+        localStorage.setItem(SUMMARY_OPTIONS_STORAGE_KEY, JSON.stringify(summaryOptions));
+        localStorage.setItem(AUTO_SUMMARY_SOURCE_STORAGE_KEY, autoSummarySource ?? AUTO_SUMMARY_OFF);
+      } catch (error) {
+        console.error("SummaryPreferencesContext: Failed to save preferences to localStorage:", error);
+      }
+    }
+  }, [summaryOptions, autoSummarySource, isLoadingSummaryPreferences]);
+
+  return (
+    <SummaryPreferencesContext.Provider value={{ summaryOptions, setSummaryOptions, autoSummarySource, setAutoSummarySource, isLoadingSummaryPreferences }}>
+      {children}
+    </SummaryPreferencesContext.Provider>
+  );
+};
+
+export const useSummaryPreferences = () => {
+  const context = useContext(SummaryPreferencesContext);
+  if (context === undefined) {
+    throw new Error('useSummaryPreferences must be used within a SummaryPreferencesProvider');
+  }
+  return context;
+};
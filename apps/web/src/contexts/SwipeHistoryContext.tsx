@@ -0,0 +1,190 @@
+// apps/web/src/contexts/SwipeHistoryContext.tsx
+'use client';
+
+import React, { createContext, useState, useContext, ReactNode, useEffect, useCallback } from 'react';
+import type { Paper } from '@/contexts/LikedPapersContext';
+
+export type SwipeDecision = 'like' | 'dislike' | 'later'; // later: あとで読むキューに保存
+
+// 履歴から論文を見返したり、いいねに変更したりするのに必要な項目だけを保存する
+export type HistoryPaper = Pick<Paper, 'id' | 'title' | 'summary' | 'authors' | 'published' | 'updated' | 'pdfLink' | 'categories' | 'source' | 'doi'>;
+
+export interface SwipeHistoryEntry {
+  paperId: string;
+  decision: SwipeDecision;
+  timestamp: string; // ISO 8601
+  sourceQuery: string; // スワイプした時の検索条件 (表示用、デフォルトフィードは空文字列)
+  paper: HistoryPaper;
+}
+
+interface SwipeHistoryContextType {
+  history: SwipeHistoryEntry[]; // 新しい順
+  recordDecision: (paper: Paper, decision: SwipeDecision, sourceQuery: string) => void;
+  reviseDecision: (paperId: string, decision: SwipeDecision) => void;
+  removeHistoryEntry: (paperId: string) => void;
+  hasJudged: (paperId: string) => boolean;
+  clearHistory: () => void;
+  isLoadingHistory: boolean;
+}
+
+const SwipeHistoryContext = createContext<SwipeHistoryContextType | undefined>(undefined);
+
+const LOCAL_STORAGE_KEY = 'kigaers_swipeHistory';
+const LEGACY_DISLIKED_STORAGE_KEY = 'kigaers_dislikedPapers'; // 履歴導入前に興味なしだけを保存していたキー
+const JUDGED_IDS_STORAGE_KEY = 'kigaers_judgedPaperIds'; // 判定した全ての論文のID (履歴から古いエントリを捨てても、フィードには再び出さない)
+const MAX_HISTORY_ENTRIES = 1000; // 論文の情報は古いものから捨てて localStorage の容量を抑える (IDは捨てない)
+const MAX_STORED_SUMMARY_LENGTH = 600;
+
+function toHistoryPaper(paper: Paper): HistoryPaper {
+  const { id, title, summary, authors, published, updated, pdfLink, categories, source, doi } = paper;
+  const storedSummary = summary.length > MAX_STORED_SUMMARY_LENGTH ? `${summary.slice(0, MAX_STORED_SUMMARY_LENGTH)}…` : summary;
+  return { id, title, summary: storedSummary, authors, published, updated, pdfLink, categories, source, doi };
+}
+
+function isHistoryEntry(value: unknown): value is SwipeHistoryEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as SwipeHistoryEntry;
+  return typeof entry.paperId === 'string'
+    && (entry.decision === 'like' || entry.decision === 'dislike' || entry.decision === 'later')
+    && typeof entry.timestamp === 'string'
+    && typeof entry.paper === 'object' && entry.paper !== null && typeof entry.paper.title === 'string';
+}
+
+// 旧形式 (興味なしの論文の配列) を履歴エントリに変換する
+function migrateLegacyDisliked(raw: string): SwipeHistoryEntry[] {
+  const parsed = JSON.parse(raw);
+  if (!Array.isArray(parsed)) return [];
+  const migratedAt = new Date().toISOString();
+  return parsed
+    .filter(p => typeof p?.id === 'string' && typeof p?.title === 'string')
+    .map(p => ({
+      paperId: p.id,
+      decision: 'dislike' as const,
+      timestamp: migratedAt,
+      sourceQuery: '',
+      paper: toHistoryPaper({ published: '', updated: '', pdfLink: '', summary: '', authors: [], categories: [], ...p }),
+    }))
+    .reverse();
+}
+
+export const SwipeHistoryProvider = ({ children }: { children: ReactNode }) => {
+  const [history, setHistory] = useState<SwipeHistoryEntry[]>([]);
+  const [judgedIds, setJudgedIds] = useState<Set<string>>(new Set());
+  const [isLoadingHistory, setIsLoadingHistory] = useState(true);
+
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      try {
+        let loaded: SwipeHistoryEntry[] = [];
+        const savedHistory = localStorage.getItem(LOCAL_STORAGE_KEY);
+        if (savedHistory) {
+          const parsedHistory = JSON.parse(savedHistory);
+          if (Array.isArray(parsedHistory)) {
+            loaded = parsedHistory.filter(isHistoryEntry);
+            if (loaded.length < parsedHistory.length) {
+              console.warn(`SwipeHistoryContext: Dropped ${parsedHistory.length - loaded.length} malformed history entries.`);
+            }
+          } else {
+            console.warn("SwipeHistoryContext: Data in localStorage is not in expected format.");
+          }
+        }
+        const legacyDisliked = localStorage.getItem(LEGACY_DISLIKED_STORAGE_KEY);
+        if (legacyDisliked) {
+          const knownIds = new Set(loaded.map(entry => entry.paperId));
+          const migrated = migrateLegacyDisliked(legacyDisliked).filter(entry => !knownIds.has(entry.paperId));
+          console.log(`SwipeHistoryContext: Migrated ${migrated.length} legacy disliked papers into swipe history.`);
+          loaded = [...loaded, ...migrated];
+          localStorage.removeItem(LEGACY_DISLIKED_STORAGE_KEY);
+        }
+        let savedJudgedIds: string[] = [];
+        const savedIds = localStorage.getItem(JUDGED_IDS_STORAGE_KEY);
+        if (savedIds) {
+          const parsedIds = JSON.parse(savedIds);
+          if (Array.isArray(parsedIds)) {
+            savedJudgedIds = parsedIds.filter((id): id is string => typeof id === 'string');
+          } else {
+            console.warn("SwipeHistoryContext: Judged paper IDs in localStorage are not in expected format.");
+          }
+        }
+        // IDを別に保存するようになる前の履歴も含める
+        setJudgedIds(new Set([...savedJudgedIds, ...loaded.map(entry => entry.paperId)]));
+        setHistory(loaded.slice(0, MAX_HISTORY_ENTRIES));
+      } catch (error) {
+        console.error("SwipeHistoryContext: Failed to load swipe history from localStorage:", error);
+        localStorage.removeItem(LOCAL_STORAGE_KEY);
+      } finally {
+        setIsLoadingHistory(false);
+      }
+    } else {
+        setIsLoadingHistory(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (typeof window !== 'undefined' && !isLoadingHistory) {
+      try {
+        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(history));
+      } catch (error) {
+        console.error("SwipeHistoryContext: Failed to save swipe history to localStorage:", error);
+      }
+    }
+  }, [history, isLoadingHistory]);
+
+  useEffect(() => {
+    if (typeof window !== 'undefined' && !isLoadingHistory) {
+      try {
+        localStorage.setItem(JUDGED_IDS_STORAGE_KEY, JSON.stringify(Array.from(judgedIds)));
+      } catch (error) {
+        console.error("SwipeHistoryContext: Failed to save judged paper IDs to localStorage:", error);
+      }
+    }
+  }, [judgedIds, isLoadingHistory]);
+
+  // 同じ論文を再度判定した場合は古いエントリを置き換えて先頭に移動する
+  const recordDecision = useCallback((paper: Paper, decision: SwipeDecision, sourceQuery: string) => {
+    if (paper.isEndOfFeedCard) return;
+    const entry: SwipeHistoryEntry = { paperId: paper.id, decision, timestamp: new Date().toISOString(), sourceQuery, paper: toHistoryPaper(paper) };
+    setHistory((prevHistory) => [entry, ...prevHistory.filter(e => e.paperId !== paper.id)].slice(0, MAX_HISTORY_ENTRIES));
+    setJudgedIds((prevIds) => prevIds.has(paper.id) ? prevIds : new Set(prevIds).add(paper.id));
+  }, []);
+
+  const reviseDecision = useCallback((paperId: string, decision: SwipeDecision) => {
+    setHistory((prevHistory) =>
+      prevHistory.map((entry) =>
+        entry.paperId === paperId ? { ...entry, decision, timestamp: new Date().toISOString() } : entry
+      )
+    );
+  }, []);
+
+  // 履歴から消した論文は再びフィードに表示されるようになる
+  const removeHistoryEntry = useCallback((paperId: string) => {
+    setHistory((prevHistory) => prevHistory.filter((entry) => entry.paperId !== paperId));
+    setJudgedIds((prevIds) => {
+      if (!prevIds.has(paperId)) return prevIds;
+      const nextIds = new Set(prevIds);
+      nextIds.delete(paperId);
+      return nextIds;
+    });
+  }, []);
+
+  const hasJudged = useCallback((paperId: string) => judgedIds.has(paperId), [judgedIds]);
+
+  const clearHistory = useCallback(() => {
+    setHistory([]);
+    setJudgedIds(new Set());
+  }, []);
+
+  return (
+    <SwipeHistoryContext.Provider value={{ history, recordDecision, reviseDecision, removeHistoryEntry, hasJudged, clearHistory, isLoadingHistory }}>
+      {children}
+    </SwipeHistoryContext.Provider>
+  );
+};
+
+export const useSwipeHistory = () => {
+  const context = useContext(SwipeHistoryContext);
+  if (context === undefined) {
+    throw new Error('useSwipeHistory must be used within a SwipeHistoryProvider');
+  }
+  return context;
+};
@@ -0,0 +1,80 @@
+// apps/web/src/lib/abstractTranslation.ts
+// Abstract の文ごとの和訳 (/api/translate が返し、Paper に保存する)。サーバー・クライアントの両方で使う。
+// 数式 (LaTeX) は翻訳で崩れないように ⟦M0⟧ のような記号に置き換えて LLM に渡し、訳文の中で元に戻す。
+
+export interface TranslatedSentence {
+  source: string; // 原文の1文
+  translation: string; // 日本語訳
+}
+
+export interface AbstractTranslation {
+  sentences: TranslatedSentence[];
+  model: string; // 翻訳したモデル
+  createdAt: string; // ISO 8601
+}
+
+// FormattedTextRenderer が数式として表示するもの ($...$, $$...$$, \(...\), \[...\])
+const MATH_PATTERN = /\$\$[\s\S]*?\$\$|\$[^$]+?\$|\\\[[\s\S]*?\\\]|\\\([\s\S]*?\\\)/g;
+const MATH_PLACEHOLDER_PATTERN = /⟦M(\d+)⟧/g;
+// 文末と間違えやすい略語 (e.g. / et al. / Fig. など) と、名前のイニシャル
+const ABBREVIATION_PATTERN = /(?:\b(?:e\.g|i\.e|et al|etc|vs|cf|approx|Fig|Figs|Eq|Eqs|Sec|Ref|Refs|No)|(?:^|\s)[A-Z])\.$/;
+// 「. 」の後に大文字・数字・記号・数式が続く位置を文の区切りとする
+const SENTENCE_END_PATTERN = /[.?!](?=\s+(?:[A-Z0-9"'(\[]|⟦M\d+⟧))/g;
+
+export const normalizeAbstractText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/** 数式を ⟦M0⟧ のような記号に置き換える */
+export function maskMath(text: string): { masked: string; segments: string[] } {
+  const segments: string[] = [];
+  const masked = text.replace(MATH_PATTERN, (segment) => `⟦M${segments.push(segment) - 1}⟧`);
+  return { masked, segments };
+}
+
+/** 記号を数式に戻す。訳文から抜け落ちた数式は末尾に付け足す (数式を失わないため) */
+export function restoreMath(text: string, segments: string[]): string {
+  const used = new Set<number>();
+  const restored = text.replace(MATH_PLACEHOLDER_PATTERN, (placeholder, index: string) => {
+    const segment = segments[Number(index)];
+    if (segment === undefined) return placeholder;
+    used.add(Number(index));
+    return segment;
+  });
+  const missing = segments.filter((_, index) => !used.has(index));
+  return missing.length > 0 ? `${restored} ${missing.join(' ')}` : restored;
+}
+
+/** Abstract を文に分ける。数式の中の「.」では区切らない */
+export function splitSentences(text: string): string[] {
+  const { masked, segments } = maskMath(normalizeAbstractText(text));
+  const sentences: string[] = [];
+  let start = 0;
+  for (const match of masked.matchAll(SENTENCE_END_PATTERN)) {
+    const end = match.index + 1;
+    const sentence = masked.slice(start, end).trim();
+    if (ABBREVIATION_PATTERN.test(sentence)) continue;
+    if (sentence) sentences.push(sentence);
+    start = end;
+  }
+  const rest = masked.slice(start).trim();
+  if (rest) sentences.push(rest);
+  // 文ごとに数式を戻す (記号の番号は Abstract 全体で振っている)
+  return sentences.map(sentence => sentence.replace(MATH_PLACEHOLDER_PATTERN, (placeholder, index: string) => segments[Number(index)] ?? placeholder));
+}
+
+/** 今の Abstract を翻訳したものか (Abstract が更新されていたら翻訳し直す) */
+export function isTranslationOf(translation: AbstractTranslation, abstract: string): boolean {
+  return normalizeAbstractText(translation.sentences.map(s => s.source).join(' ')) === normalizeAbstractText(abstract);
+}
+
+/** 保存されていた翻訳を読み取る。形式が正しくなければ null */
+export function normalizeAbstractTranslation(value: unknown): AbstractTranslation | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+  const { sentences, model, createdAt } = value as Partial<AbstractTranslation>;
+  if (!Array.isArray(sentences) || sentences.length === 0) return null;
+  if (!sentences.every(s => typeof s?.source === 'string' && typeof s?.translation === 'string')) return null;
+  return {
+    sentences: sentences.map(({ source, translation }) => ({ source, translation })),
+    model: typeof model === 'string' ? model : '',
+    createdAt: typeof createdAt === 'string' ? createdAt : '',
+  };
+}
@@ -0,0 +1,144 @@
+// apps/web/src/lib/accounts/auth.ts
+// パスワードのハッシュ化 (scrypt) とセッショントークンの発行・検証 (サーバー専用)
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import type { NextRequest } from 'next/server';
+import { AccountError, isAccountStoreEnabled, readAccounts, withStoreLock, writeAccounts, type StoredUser } from './store';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const PASSWORD_KEY_LENGTH = 64;
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30日
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{3,32}$/;
+export const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 200;
+// ユーザーが存在しない場合も同じだけ時間をかけるために照合するハッシュ (どのパスワードとも一致しない)
+const DUMMY_PASSWORD_HASH = `scrypt$${'00'.repeat(16)}$${'00'.repeat(PASSWORD_KEY_LENGTH)}`;
+
+// クライアントに返すユーザー情報 (パスワードハッシュは含めない)
+export interface PublicUser {
+  id: string;
+  username: string;
+}
+
+function toPublicUser(user: StoredUser): PublicUser {
+  return { id: user.id, username: user.username };
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// トークンそのものは保存せず、ハッシュだけをストアに置く
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function assertAccountsEnabled() {
+  if (!isAccountStoreEnabled()) {
+    throw new AccountError('このサーバーではアカウント機能が無効になっています。', 503);
+  }
+}
+
+function validateCredentials(username: unknown, password: unknown): { username: string; password: string } {
+  if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+    throw new AccountError('ユーザー名は3〜32文字の英数字と _ . - で入力してください。');
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH) {
+    throw new AccountError(`パスワードは${MIN_PASSWORD_LENGTH}文字以上で入力してください。`);
+  }
+  return { username, password };
+}
+
+async function issueSession(userId: string): Promise<string> {
+  const token = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  await withStoreLock(async () => {
+    const accounts = await readAccounts();
+    // 期限切れのセッションはこのタイミングで掃除する
+    for (const [tokenHash, session] of Object.entries(accounts.sessions)) {
+      if (Date.parse(session.expiresAt) < now) delete accounts.sessions[tokenHash];
+    }
+    accounts.sessions[hashToken(token)] = {
+      userId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+    };
+    await writeAccounts(accounts);
+  });
+  return token;
+}
+
+export async function registerUser(usernameInput: unknown, passwordInput: unknown): Promise<{ user: PublicUser; token: string }> {
+  assertAccountsEnabled();
+  const { username, password } = validateCredentials(usernameInput, passwordInput);
+  const passwordHash = await hashPassword(password);
+  const user = await withStoreLock(async () => {
+    const accounts = await readAccounts();
+    if (Object.values(accounts.users).some(u => u.username.toLowerCase() === username.toLowerCase())) {
+      throw new AccountError('このユーザー名は既に使われています。', 409);
+    }
+    const newUser: StoredUser = { id: randomUUID(), username, passwordHash, createdAt: new Date().toISOString() };
+    accounts.users[newUser.id] = newUser;
+    await writeAccounts(accounts);
+    return newUser;
+  });
+  console.log(`accounts: Registered user "${user.username}".`);
+  return { user: toPublicUser(user), token: await issueSession(user.id) };
+}
+
+export async function loginUser(usernameInput: unknown, passwordInput: unknown): Promise<{ user: PublicUser; token: string }> {
+  assertAccountsEnabled();
+  if (typeof usernameInput !== 'string' || typeof passwordInput !== 'string') {
+    throw new AccountError('ユーザー名とパスワードを入力してください。');
+  }
+  const accounts = await readAccounts();
+  const user = Object.values(accounts.users).find(u => u.username.toLowerCase() === usernameInput.toLowerCase());
+  // ユーザーが存在しない場合も同じメッセージにし、応答時間でユーザー名を推測されないようにパスワードの照合もする
+  const isPasswordValid = await verifyPassword(passwordInput, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+  if (!user || !isPasswordValid) {
+    throw new AccountError('ユーザー名またはパスワードが正しくありません。', 401);
+  }
+  return { user: toPublicUser(user), token: await issueSession(user.id) };
+}
+
+function readBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/** Authorization: Bearer <token> からログイン中のユーザーを取得する。無効な場合は 401 */
+export async function requireUser(request: NextRequest): Promise<PublicUser> {
+  assertAccountsEnabled();
+  const token = readBearerToken(request);
+  if (!token) throw new AccountError('ログインが必要です。', 401);
+  const accounts = await readAccounts();
+  const session = accounts.sessions[hashToken(token)];
+  const user = session ? accounts.users[session.userId] : undefined;
+  if (!session || !user || Date.parse(session.expiresAt) < Date.now()) {
+    throw new AccountError('セッションの有効期限が切れました。もう一度ログインしてください。', 401);
+  }
+  return toPublicUser(user);
+}
+
+export async function revokeSession(request: NextRequest): Promise<void> {
+  assertAccountsEnabled();
+  const token = readBearerToken(request);
+  if (!token) return;
+  await withStoreLock(async () => {
+    const accounts = await readAccounts();
+    delete accounts.sessions[hashToken(token)];
+    await writeAccounts(accounts);
+  });
+}
@@ -0,0 +1,43 @@
+// apps/web/src/lib/accounts/rateLimit.ts
+// ログイン・アカウント作成の試行回数を IP アドレスごとに制限する (サーバー専用)。
+// 1プロセスで動かす前提で、回数はメモリ上で数える (再起動するとリセットされる)。
+import type { NextRequest } from 'next/server';
+import { AccountError } from './store';
+
+export type AuthAction = 'login' | 'register';
+
+const RATE_LIMITS: Record<AuthAction, { limit: number; windowMs: number }> = {
+  login: { limit: 10, windowMs: 15 * 60 * 1000 }, // 15分に10回
+  register: { limit: 5, windowMs: 60 * 60 * 1000 }, // 1時間に5回
+};
+const MAX_TRACKED_KEYS = 10000; // これを超えたら期限切れの記録を掃除する
+
+const attempts = new Map<string, { count: number; resetAt: number }>();
+
+// リバースプロキシの後ろでは X-Forwarded-For の先頭がクライアントのアドレス
+function clientAddress(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return forwarded || request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+/** 試行を1回数え、上限を超えていれば 429 の AccountError を投げる */
+export function assertAuthRateLimit(request: NextRequest, action: AuthAction): void {
+  const now = Date.now();
+  if (attempts.size > MAX_TRACKED_KEYS) {
+    for (const [key, entry] of attempts) {
+      if (entry.resetAt <= now) attempts.delete(key);
+    }
+  }
+  const { limit, windowMs } = RATE_LIMITS[action];
+  const key = `${action}:${clientAddress(request)}`;
+  const entry = attempts.get(key);
+  if (!entry || entry.resetAt <= now) {
+    attempts.set(key, { count: 1, resetAt: now + windowMs });
+    return;
+  }
+  entry.count += 1;
+  if (entry.count > limit) {
+    const minutes = Math.ceil((entry.resetAt - now) / 60000);
+    throw new AccountError(`試行回数が多すぎます。${minutes}分ほど待ってから、もう一度お試しください。`, 429);
+  }
+}
@@ -0,0 +1,98 @@
+// apps/web/src/lib/accounts/store.ts
+// アカウントとライブラリをサーバーのディスクに JSON で保存する (サーバー専用)。
+// 1プロセスで動かす前提で、読み込み〜書き込みは withStoreLock で直列化する。
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { emptyTombstones, type LibrarySnapshot } from '@/lib/librarySync';
+
+export interface StoredUser {
+  id: string;
+  username: string;
+  passwordHash: string; // "scrypt$<salt>$<hash>"
+  createdAt: string;
+}
+
+export interface StoredSession {
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+interface AccountsFile {
+  users: Record<string, StoredUser>; // ユーザーID → ユーザー
+  sessions: Record<string, StoredSession>; // セッショントークンの SHA-256 → セッション
+}
+
+export interface StoredLibrary extends LibrarySnapshot {
+  updatedAt: string;
+}
+
+// 入力の不備や認証の失敗など、アカウント関連のエラー (API では status をそのまま返す)
+export class AccountError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'AccountError';
+    this.status = status;
+  }
+}
+
+/** アカウント機能は任意。サーバーのディスクに保存できる環境で ACCOUNTS_ENABLED=true の場合だけ有効にする */
+export function isAccountStoreEnabled(): boolean {
+  return process.env.ACCOUNTS_ENABLED === 'true';
+}
+
+function dataDir(): string {
+  return process.env.ACCOUNT_DATA_DIR ?? path.join(process.cwd(), '.data');
+}
+
+const accountsFilePath = () => path.join(dataDir(), 'accounts.json');
+const libraryFilePath = (userId: string) => path.join(dataDir(), 'libraries', `${userId}.json`);
+
+async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+// 書き込み途中で落ちてもファイルが壊れないように、一時ファイルに書いてから置き換える
+async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data), 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+let storeQueue: Promise<unknown> = Promise.resolve();
+
+export function withStoreLock<T>(task: () => Promise<T>): Promise<T> {
+  const result = storeQueue.then(task, task);
+  storeQueue = result.catch(() => undefined);
+  return result;
+}
+
+export async function readAccounts(): Promise<AccountsFile> {
+  const accounts = await readJsonFile<AccountsFile>(accountsFilePath(), { users: {}, sessions: {} });
+  return { users: accounts.users ?? {}, sessions: accounts.sessions ?? {} };
+}
+
+export async function writeAccounts(accounts: AccountsFile): Promise<void> {
+  await writeJsonFile(accountsFilePath(), accounts);
+}
+
+export async function readLibrary(userId: string): Promise<StoredLibrary> {
+  return readJsonFile<StoredLibrary>(libraryFilePath(userId), {
+    papers: [],
+    collections: [],
+    tombstones: emptyTombstones(),
+    updatedAt: new Date(0).toISOString(),
+  });
+}
+
+export async function writeLibrary(userId: string, library: StoredLibrary): Promise<void> {
+  await writeJsonFile(libraryFilePath(userId), library);
+}
@@ -0,0 +1,94 @@
+// apps/web/src/lib/aiStream.ts
+// AI の応答を生成しながら少しずつ返すためのストリーム (サーバー・クライアントの両方で使う)。
+// 形式は NDJSON (1行に1イベント)。POST で使うため EventSource (SSE) ではなく fetch で読む。
+
+export type AiStreamEvent<TMeta = undefined> =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; meta?: TMeta }
+  | { type: 'error'; error: string };
+
+const AI_STREAM_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8';
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * サーバー: run の中で send したイベントを順に送るレスポンスを作る。
+ * クライアントが切断・中止した場合は signal が中断されるので、生成を止める (途中の結果はキャッシュしない)。
+ */
+export function createAiStreamResponse<TMeta>(
+  request: Request,
+  run: (send: (event: AiStreamEvent<TMeta>) => void, signal: AbortSignal) => Promise<void>,
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  request.signal?.addEventListener('abort', () => abortController.abort());
+  let isClosed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AiStreamEvent<TMeta>) => {
+        if (isClosed) return;
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+      try {
+        await run(send, abortController.signal);
+      } catch (error) {
+        if (!abortController.signal.aborted) {
+          send({ type: 'error', error: error instanceof Error ? error.message : '不明なサーバーエラーが発生しました。' });
+        }
+      } finally {
+        if (!isClosed) {
+          isClosed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      isClosed = true;
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: { 'Content-Type': AI_STREAM_CONTENT_TYPE, 'Cache-Control': 'no-cache, no-transform' },
+  });
+}
+
+/** クライアント: ストリームを最後まで読み、届いたテキストを onDelta に渡す。error イベントは Error として投げる */
+export async function readAiStream<TMeta = undefined>(
+  response: Response,
+  onDelta?: (text: string, fullText: string) => void,
+): Promise<{ text: string; meta?: TMeta }> {
+  if (!response.body) throw new Error('サーバーからの応答が空でした。');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  const handleLine = (line: string): { meta?: TMeta } | null => {
+    if (!line.trim()) return null;
+    const event = JSON.parse(line) as AiStreamEvent<TMeta>;
+    if (event.type === 'delta') {
+      text += event.text;
+      onDelta?.(event.text, text);
+      return null;
+    }
+    if (event.type === 'error') throw new Error(event.error);
+    return { meta: event.meta };
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      const result = handleLine(line);
+      if (result) return { text, meta: result.meta };
+    }
+    if (done) break;
+  }
+  throw new Error('応答が途中で途切れました。');
+}
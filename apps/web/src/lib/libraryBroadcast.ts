@@ -0,0 +1,101 @@
+// apps/web/src/lib/libraryBroadcast.ts
+// 同じブラウザで開いている他のタブに、保存したライブラリの変更を伝える (クライアント専用)。
+// BroadcastChannel が使えない環境では localStorage の storage イベントで代用する。
+import type { LibraryRecordChanges, LibraryRecordKind } from '@/lib/libraryDb';
+import type { LibraryTombstones } from '@/lib/librarySync';
+
+export type LibraryBroadcastMessage =
+  | ({ type: 'records'; kind: LibraryRecordKind } & LibraryRecordChanges<{ id: string; updatedAt?: string }>)
+  | { type: 'tombstones'; tombstones: LibraryTombstones };
+
+export interface LibraryChannel {
+  post: (message: LibraryBroadcastMessage) => void;
+  close: () => void;
+}
+
+const CHANNEL_NAME = 'kigaers_library';
+const FALLBACK_STORAGE_KEY = 'kigaers_libraryBroadcast';
+
+function isLibraryBroadcastMessage(value: unknown): value is LibraryBroadcastMessage {
+  const message = value as LibraryBroadcastMessage | null;
+  if (message?.type === 'records') {
+    return (message.kind === 'papers' || message.kind === 'collections')
+      && Array.isArray(message.puts) && Array.isArray(message.deletedIds);
+  }
+  return message?.type === 'tombstones' && typeof message.tombstones === 'object' && message.tombstones !== null;
+}
+
+/** 自分のタブが送ったメッセージは受け取らない (BroadcastChannel・storage イベントとも送信元には届かない) */
+export function openLibraryChannel(onMessage: (message: LibraryBroadcastMessage) => void): LibraryChannel {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent) => {
+      if (isLibraryBroadcastMessage(event.data)) onMessage(event.data);
+    };
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== FALLBACK_STORAGE_KEY || !event.newValue) return;
+    try {
+      const { message } = JSON.parse(event.newValue);
+      if (isLibraryBroadcastMessage(message)) onMessage(message);
+    } catch (error) {
+      console.warn('libraryBroadcast: Ignoring malformed message:', error);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: (message) => {
+      try {
+        // 同じ内容が続いてもイベントが発生するように sentAt を含め、すぐに消す
+        localStorage.setItem(FALLBACK_STORAGE_KEY, JSON.stringify({ message, sentAt: Date.now() }));
+        localStorage.removeItem(FALLBACK_STORAGE_KEY);
+      } catch (error) {
+        console.warn('libraryBroadcast: Failed to post message:', error);
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+}
+
+/**
+ * 他のタブで保存された変更を手元の配列に反映する。
+ * keepNewerLocal の場合、手元の方が新しいレコードはそのまま残す (手元の保存処理がもう一度書き込んで伝える)。
+ */
+export function applyRecordChanges<T extends { id: string; updatedAt?: string }>(
+  records: T[],
+  changes: LibraryRecordChanges<{ id: string; updatedAt?: string }>,
+  keepNewerLocal = false,
+): T[] {
+  const deletedIds = new Set(changes.deletedIds);
+  const putsById = new Map(changes.puts.map(record => [record.id, record as T]));
+  const next: T[] = [];
+  for (const record of records) {
+    if (deletedIds.has(record.id)) continue;
+    const incoming = putsById.get(record.id);
+    putsById.delete(record.id);
+    if (!incoming || (keepNewerLocal && (record.updatedAt ?? '') > (incoming.updatedAt ?? ''))) {
+      next.push(record);
+    } else {
+      next.push(incoming);
+    }
+  }
+  next.push(...putsById.values());
+  if (!changes.order) return next;
+
+  // 並び順に無いもの (手元で追加したばかりのもの) は後ろに残す
+  const byId = new Map(next.map(record => [record.id, record]));
+  const ordered: T[] = [];
+  for (const id of changes.order) {
+    const record = byId.get(id);
+    if (record) {
+      ordered.push(record);
+      byId.delete(id);
+    }
+  }
+  return [...ordered, ...byId.values()];
+}
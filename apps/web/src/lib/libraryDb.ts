@@ -0,0 +1,333 @@
+// apps/web/src/lib/libraryDb.ts
+// ライブラリ (論文・コレクション・削除記録) を IndexedDB に保存する (クライアント専用)。
+// localStorage のように全体を1つの JSON で書き直さず、変更のあったレコードだけを書き込む。
+import type { Paper, PaperCollection } from '@/contexts/LikedPapersContext';
+import { emptyTombstones, type LibraryTombstones } from '@/lib/librarySync';
+import { normalizeStructuredSummary } from '@/lib/structuredSummary';
+import { normalizeSummaryVariants, parseSummaryOptions } from '@/lib/summaryOptions';
+import { normalizeAbstractTranslation } from '@/lib/abstractTranslation';
+
+const DB_NAME = 'kigaers_library';
+
+// 旧形式 (v0: localStorage に配列を丸ごと保存) のキー
+const LEGACY_PAPERS_KEY = 'kigaers_likedPapers';
+const LEGACY_COLLECTIONS_KEY = 'kigaers_collections';
+const LEGACY_TOMBSTONES_KEY = 'kigaers_libraryTombstones';
+
+const PAPERS_STORE = 'papers';
+const COLLECTIONS_STORE = 'collections';
+const META_STORE = 'meta'; // 並び順・削除記録など、レコード単位でないデータ
+const QUARANTINE_STORE = 'quarantine';
+
+const PAPER_ORDER_KEY = 'paperOrder';
+const COLLECTION_ORDER_KEY = 'collectionOrder';
+const TOMBSTONES_KEY = 'tombstones';
+
+export type LibraryRecordKind = 'papers' | 'collections';
+
+// 読み込めなかったレコード。ライブラリからは外すが、消さずに残して書き出せるようにする
+export interface QuarantinedRecord {
+  id?: number;
+  kind: LibraryRecordKind | 'legacy';
+  record: unknown;
+  reason: string;
+  quarantinedAt: string; // ISO 8601
+}
+
+export interface LoadedLibrary {
+  papers: Paper[];
+  collections: PaperCollection[];
+  tombstones: LibraryTombstones;
+  quarantinedCount: number;
+}
+
+export interface LibraryRecordChanges<T> {
+  puts: T[];
+  deletedIds: string[];
+  order: string[] | null; // 並び順が変わった場合のみ
+}
+
+interface LibraryMigration {
+  version: number;
+  description: string;
+  // versionchange トランザクション内で同期的にリクエストを積む
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+function quarantineEntry(kind: QuarantinedRecord['kind'], record: unknown, reason: string): QuarantinedRecord {
+  return { kind, record, reason, quarantinedAt: new Date().toISOString() };
+}
+
+/** 論文として扱えるか確認する。欠けている配列は補い、扱えない場合は理由を返す */
+export function normalizePaperRecord(value: unknown): Paper | string {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return 'オブジェクトではありません';
+  const paper = value as Partial<Paper>;
+  if (typeof paper.id !== 'string' || !paper.id) return 'id がありません';
+  if (typeof paper.title !== 'string') return 'title がありません';
+  if (paper.authors !== undefined && !Array.isArray(paper.authors)) return 'authors が配列ではありません';
+  if (paper.categories !== undefined && !Array.isArray(paper.categories)) return 'categories が配列ではありません';
+  if (paper.tags !== undefined && !Array.isArray(paper.tags)) return 'tags が配列ではありません';
+  if (paper.highlights !== undefined && !Array.isArray(paper.highlights)) return 'highlights が配列ではありません';
+  if (paper.chatThreads !== undefined && (!Array.isArray(paper.chatThreads) || paper.chatThreads.some(t => !Array.isArray(t?.messages)))) {
+    return 'chatThreads の形式が正しくありません';
+  }
+  return {
+    ...paper,
+    // 項目別の要約が読めない場合はテキストの要約だけを残す
+    ...(paper.aiSummaryStructured !== undefined ? { aiSummaryStructured: normalizeStructuredSummary(paper.aiSummaryStructured) ?? undefined } : {}),
+    ...(paper.aiSummaryOptions !== undefined ? { aiSummaryOptions: parseSummaryOptions(paper.aiSummaryOptions) } : {}),
+    ...(paper.aiSummaryVariants !== undefined ? { aiSummaryVariants: normalizeSummaryVariants(paper.aiSummaryVariants) } : {}),
+    ...(paper.abstractTranslation !== undefined ? { abstractTranslation: normalizeAbstractTranslation(paper.abstractTranslation) ?? undefined } : {}),
+    summary: typeof paper.summary === 'string' ? paper.summary : '',
+    authors: paper.authors ?? [],
+    categories: paper.categories ?? [],
+    published: typeof paper.published === 'string' ? paper.published : '',
+    updated: typeof paper.updated === 'string' ? paper.updated : '',
+    pdfLink: typeof paper.pdfLink === 'string' ? paper.pdfLink : '',
+  } as Paper;
+}
+
+export function normalizeCollectionRecord(value: unknown): PaperCollection | string {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return 'オブジェクトではありません';
+  const collection = value as Partial<PaperCollection>;
+  if (typeof collection.id !== 'string' || !collection.id) return 'id がありません';
+  if (typeof collection.name !== 'string') return 'name がありません';
+  return { ...collection, createdAt: typeof collection.createdAt === 'string' ? collection.createdAt : new Date(0).toISOString() } as PaperCollection;
+}
+
+function isTombstones(value: unknown): value is LibraryTombstones {
+  const tombstones = value as LibraryTombstones | null;
+  return typeof tombstones?.papers === 'object' && tombstones.papers !== null
+    && typeof tombstones.collections === 'object' && tombstones.collections !== null;
+}
+
+// v0 → v1 で読み込んだ localStorage のキー。アップグレードが完了してから削除する
+let pendingLegacyKeys: string[] = [];
+
+function readLegacyJson(key: string): { value: unknown } | { raw: string; error: string } | null {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return null;
+  try {
+    return { value: JSON.parse(raw) };
+  } catch (error) {
+    return { raw, error: error instanceof Error ? error.message : 'JSON として読み込めません' };
+  }
+}
+
+function importLegacyRecords(
+  transaction: IDBTransaction,
+  key: string,
+  storeName: string,
+  orderKey: string,
+  normalize: (value: unknown) => { id: string } | string,
+) {
+  const legacy = readLegacyJson(key);
+  if (!legacy) return;
+  pendingLegacyKeys.push(key);
+  const quarantine = transaction.objectStore(QUARANTINE_STORE);
+  if ('raw' in legacy || !Array.isArray(legacy.value)) {
+    quarantine.add(quarantineEntry('legacy', 'raw' in legacy ? legacy.raw : legacy.value, `${key} を読み込めません`));
+    return;
+  }
+  const store = transaction.objectStore(storeName);
+  const order: string[] = [];
+  for (const value of legacy.value) {
+    const record = normalize(value);
+    if (typeof record === 'string') {
+      quarantine.add(quarantineEntry(storeName as LibraryRecordKind, value, record));
+    } else if (!order.includes(record.id)) {
+      store.put(record);
+      order.push(record.id);
+    }
+  }
+  transaction.objectStore(META_STORE).put(order, orderKey);
+}
+
+// 追加する場合は version を増やして末尾に足す (既存のものは書き換えない)
+const MIGRATIONS: LibraryMigration[] = [
+  {
+    version: 1,
+    description: 'ストアを作成し、localStorage に保存されていたライブラリを移行する',
+    migrate: (db, transaction) => {
+      db.createObjectStore(PAPERS_STORE, { keyPath: 'id' });
+      db.createObjectStore(COLLECTIONS_STORE, { keyPath: 'id' });
+      db.createObjectStore(META_STORE);
+      db.createObjectStore(QUARANTINE_STORE, { keyPath: 'id', autoIncrement: true });
+
+      importLegacyRecords(transaction, LEGACY_PAPERS_KEY, PAPERS_STORE, PAPER_ORDER_KEY, normalizePaperRecord);
+      importLegacyRecords(transaction, LEGACY_COLLECTIONS_KEY, COLLECTIONS_STORE, COLLECTION_ORDER_KEY, normalizeCollectionRecord);
+      const legacyTombstones = readLegacyJson(LEGACY_TOMBSTONES_KEY);
+      if (legacyTombstones) {
+        pendingLegacyKeys.push(LEGACY_TOMBSTONES_KEY);
+        if ('value' in legacyTombstones && isTombstones(legacyTombstones.value)) {
+          transaction.objectStore(META_STORE).put(legacyTombstones.value, TOMBSTONES_KEY);
+        }
+      }
+    },
+  },
+];
+
+export const LIBRARY_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openLibraryDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment.'));
+      return;
+    }
+    pendingLegacyKeys = [];
+    const request = indexedDB.open(DB_NAME, LIBRARY_SCHEMA_VERSION);
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction!;
+      for (const migration of MIGRATIONS) {
+        if (migration.version > event.oldVersion) {
+          console.log(`libraryDb: Migrating to schema v${migration.version} (${migration.description}).`);
+          migration.migrate(request.result, transaction);
+        }
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // 移行がコミットされてから旧データを消す (失敗した場合は次回もう一度移行する)
+      pendingLegacyKeys.forEach(key => localStorage.removeItem(key));
+      pendingLegacyKeys = [];
+      // 別のタブが新しいスキーマに上げようとしたら接続を閉じて譲る
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('libraryDb: Upgrade is blocked by another open tab.');
+  }).catch((error) => {
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+}
+
+function applyOrder<T extends { id: string }>(records: T[], order: unknown): T[] {
+  if (!Array.isArray(order)) return records;
+  const byId = new Map(records.map(record => [record.id, record]));
+  const ordered: T[] = [];
+  for (const id of order) {
+    const record = byId.get(id);
+    if (record) {
+      ordered.push(record);
+      byId.delete(id);
+    }
+  }
+  return [...ordered, ...byId.values()]; // 並び順に無いものは後ろに足す
+}
+
+/** ライブラリ全体を読み込む。不正なレコードは隔離してから除外する */
+export async function loadLibraryFromDb(): Promise<LoadedLibrary> {
+  const db = await openLibraryDb();
+  const transaction = db.transaction([PAPERS_STORE, COLLECTIONS_STORE, META_STORE, QUARANTINE_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const [rawPapers, rawCollections, paperOrder, collectionOrder, tombstones] = await Promise.all([
+    requestToPromise(transaction.objectStore(PAPERS_STORE).getAll()),
+    requestToPromise(transaction.objectStore(COLLECTIONS_STORE).getAll()),
+    requestToPromise(transaction.objectStore(META_STORE).get(PAPER_ORDER_KEY)),
+    requestToPromise(transaction.objectStore(META_STORE).get(COLLECTION_ORDER_KEY)),
+    requestToPromise(transaction.objectStore(META_STORE).get(TOMBSTONES_KEY)),
+  ]);
+
+  const quarantine = transaction.objectStore(QUARANTINE_STORE);
+  const validate = <T>(kind: LibraryRecordKind, values: unknown[], normalize: (value: unknown) => T | string): T[] => {
+    const records: T[] = [];
+    for (const value of values) {
+      const record = normalize(value);
+      if (typeof record === 'string') {
+        console.warn(`libraryDb: Quarantining invalid ${kind} record (${record}).`);
+        quarantine.add(quarantineEntry(kind, value, record));
+        const id = (value as { id?: unknown } | null)?.id;
+        if (typeof id === 'string') transaction.objectStore(kind).delete(id);
+      } else {
+        records.push(record);
+      }
+    }
+    return records;
+  };
+  const papers = validate('papers', rawPapers, normalizePaperRecord);
+  const collections = validate('collections', rawCollections, normalizeCollectionRecord);
+  const quarantinedCount = await requestToPromise(quarantine.count());
+  await done;
+
+  return {
+    papers: applyOrder(papers, paperOrder),
+    collections: applyOrder(collections, collectionOrder),
+    tombstones: isTombstones(tombstones) ? tombstones : emptyTombstones(),
+    quarantinedCount,
+  };
+}
+
+/** 前回保存した配列と比べて、追加・変更・削除されたレコードを求める */
+export function diffLibraryRecords<T extends { id: string }>(previous: T[], next: T[]): LibraryRecordChanges<T> {
+  const previousById = new Map(previous.map(record => [record.id, record]));
+  const nextIds = new Set(next.map(record => record.id));
+  // 同期で同じ内容のオブジェクトに置き換わった場合は書き込まない
+  const puts = next.filter((record) => {
+    const previousRecord = previousById.get(record.id);
+    return previousRecord !== record && JSON.stringify(previousRecord) !== JSON.stringify(record);
+  });
+  const deletedIds = previous.filter(record => !nextIds.has(record.id)).map(record => record.id);
+  const isOrderChanged = previous.length !== next.length || previous.some((record, index) => record.id !== next[index].id);
+  return { puts, deletedIds, order: isOrderChanged ? next.map(record => record.id) : null };
+}
+
+export function hasLibraryRecordChanges(changes: LibraryRecordChanges<unknown>): boolean {
+  return changes.puts.length > 0 || changes.deletedIds.length > 0 || changes.order !== null;
+}
+
+export async function writeLibraryRecords<T extends { id: string }>(kind: LibraryRecordKind, changes: LibraryRecordChanges<T>): Promise<void> {
+  if (!hasLibraryRecordChanges(changes)) return;
+  const db = await openLibraryDb();
+  const transaction = db.transaction([kind, META_STORE], 'readwrite');
+  const store = transaction.objectStore(kind);
+  changes.puts.forEach(record => store.put(record));
+  changes.deletedIds.forEach(id => store.delete(id));
+  if (changes.order) {
+    transaction.objectStore(META_STORE).put(changes.order, kind === 'papers' ? PAPER_ORDER_KEY : COLLECTION_ORDER_KEY);
+  }
+  await transactionDone(transaction);
+}
+
+export async function writeLibraryTombstones(tombstones: LibraryTombstones): Promise<void> {
+  const db = await openLibraryDb();
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  transaction.objectStore(META_STORE).put(tombstones, TOMBSTONES_KEY);
+  await transactionDone(transaction);
+}
+
+export async function getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+  const db = await openLibraryDb();
+  const transaction = db.transaction(QUARANTINE_STORE, 'readonly');
+  return requestToPromise(transaction.objectStore(QUARANTINE_STORE).getAll());
+}
+
+export async function clearQuarantinedRecords(): Promise<void> {
+  const db = await openLibraryDb();
+  const transaction = db.transaction(QUARANTINE_STORE, 'readwrite');
+  transaction.objectStore(QUARANTINE_STORE).clear();
+  await transactionDone(transaction);
+}
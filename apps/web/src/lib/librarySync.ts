@@ -0,0 +1,143 @@
+// apps/web/src/lib/librarySync.ts
+// ライブラリの同期 (クライアントとサーバーの両方で使う)
+// 論文・コレクションは updatedAt が新しい方を採用し、削除は tombstone (削除日時) で伝える
+import type { Paper, PaperCollection } from '@/contexts/LikedPapersContext';
+
+export interface LibraryTombstones {
+  papers: Record<string, string>; // 論文ID → 削除日時 (ISO 8601)
+  collections: Record<string, string>;
+}
+
+export interface LibrarySnapshot {
+  papers: Paper[];
+  collections: PaperCollection[];
+  tombstones: LibraryTombstones;
+}
+
+export interface LibraryMergeResult {
+  snapshot: LibrarySnapshot;
+  pulledCount: number; // base 側 (他の端末) の変更を採用した件数
+}
+
+export const MAX_SYNCED_PAPERS = 10000;
+const TOMBSTONE_TTL_MS = 180 * 24 * 60 * 60 * 1000; // これより古い削除記録は捨てる
+
+export function emptyTombstones(): LibraryTombstones {
+  return { papers: {}, collections: {} };
+}
+
+// ISO 8601 の文字列はそのまま比較できる (updatedAt の無い古いデータは最も古い扱い)
+function isNewer(a: string | undefined, b: string | undefined): boolean {
+  return (a ?? '') > (b ?? '');
+}
+
+function mergeTombstoneMaps(a: Record<string, string>, b: Record<string, string>, now: number): Record<string, string> {
+  const merged: Record<string, string> = {};
+  for (const [id, deletedAt] of [...Object.entries(a), ...Object.entries(b)]) {
+    if (now - Date.parse(deletedAt) > TOMBSTONE_TTL_MS) continue;
+    if (isNewer(deletedAt, merged[id])) merged[id] = deletedAt;
+  }
+  return merged;
+}
+
+/**
+ * ID ごとに新しい方のレコードを採用する (同時刻なら incoming 側)。
+ * tombstone より古いレコードは削除済みとして落とし、tombstone より新しいレコードが残った場合は tombstone を消す。
+ */
+function mergeRecords<T extends { id: string; updatedAt?: string }>(
+  base: T[],
+  incoming: T[],
+  tombstones: Record<string, string>,
+  combine: (winner: T, loser: T) => T = (winner) => winner,
+): { records: T[]; pulledCount: number } {
+  const baseById = new Map(base.map(record => [record.id, record]));
+  const incomingById = new Map(incoming.map(record => [record.id, record]));
+  // 並び順は incoming (操作している端末) を優先し、base にしか無いものを後ろに足す
+  const ids = Array.from(new Set([...incoming.map(record => record.id), ...base.map(record => record.id)]));
+
+  const records: T[] = [];
+  let pulledCount = 0;
+  for (const id of ids) {
+    const baseRecord = baseById.get(id);
+    const incomingRecord = incomingById.get(id);
+    let winner: T;
+    let isPulled: boolean;
+    if (baseRecord && incomingRecord) {
+      isPulled = isNewer(baseRecord.updatedAt, incomingRecord.updatedAt);
+      winner = isPulled
+        ? combine(baseRecord, incomingRecord)
+        : combine(incomingRecord, baseRecord);
+    } else {
+      winner = (baseRecord ?? incomingRecord)!;
+      isPulled = !incomingRecord;
+    }
+
+    const deletedAt = tombstones[id];
+    if (deletedAt) {
+      if (!isNewer(winner.updatedAt, deletedAt)) continue;
+      delete tombstones[id]; // 削除後に追加し直された
+    }
+    records.push(winner);
+    if (isPulled) pulledCount++;
+  }
+  return { records, pulledCount };
+}
+
+// 新しい方を採用しても、もう一方にしか無い AI要約・翻訳は捨てない (生成に時間がかかるため)。設定ごとの要約は両方を合わせる
+function combinePapers(winner: Paper, loser: Paper): Paper {
+  let combined = !winner.aiSummary && loser.aiSummary
+    ? { ...winner, aiSummary: loser.aiSummary, aiSummaryStructured: loser.aiSummaryStructured, aiSummaryOptions: loser.aiSummaryOptions }
+    : winner;
+  if (!combined.abstractTranslation && loser.abstractTranslation) combined = { ...combined, abstractTranslation: loser.abstractTranslation };
+  if (!loser.aiSummaryVariants) return combined;
+  return { ...combined, aiSummaryVariants: { ...loser.aiSummaryVariants, ...winner.aiSummaryVariants } };
+}
+
+/**
+ * base (サーバーに保存されている状態) に incoming (端末から送られた状態) をマージする。
+ * クライアント側で、送信中に発生したローカルの変更をサーバーの結果に重ねる場合にも使う。
+ */
+export function mergeLibrarySnapshots(base: LibrarySnapshot, incoming: LibrarySnapshot, now = Date.now()): LibraryMergeResult {
+  const tombstones: LibraryTombstones = {
+    papers: mergeTombstoneMaps(base.tombstones.papers, incoming.tombstones.papers, now),
+    collections: mergeTombstoneMaps(base.tombstones.collections, incoming.tombstones.collections, now),
+  };
+  const papers = mergeRecords(base.papers, incoming.papers, tombstones.papers, combinePapers);
+  const collections = mergeRecords(base.collections, incoming.collections, tombstones.collections);
+  return {
+    snapshot: { papers: papers.records, collections: collections.records, tombstones },
+    pulledCount: papers.pulledCount + collections.pulledCount,
+  };
+}
+
+function isSameTombstoneMap(a: Record<string, string>, b: Record<string, string>): boolean {
+  const aKeys = Object.keys(a);
+  return aKeys.length === Object.keys(b).length && aKeys.every(id => a[id] === b[id]);
+}
+
+/** 削除記録だけを統合する (他のタブから届いた場合など)。変化が無ければ base をそのまま返す */
+export function mergeTombstones(base: LibraryTombstones, incoming: LibraryTombstones, now = Date.now()): LibraryTombstones {
+  const merged: LibraryTombstones = {
+    papers: mergeTombstoneMaps(base.papers, incoming.papers, now),
+    collections: mergeTombstoneMaps(base.collections, incoming.collections, now),
+  };
+  return isSameTombstoneMap(merged.papers, base.papers) && isSameTombstoneMap(merged.collections, base.collections)
+    ? base
+    : merged;
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.values(value).every(v => typeof v === 'string');
+}
+
+/** 同期APIで受け取ったデータの形を確認する。不正な場合は null */
+export function parseLibrarySnapshot(value: unknown): LibrarySnapshot | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { papers, collections, tombstones } = value as Partial<LibrarySnapshot>;
+  if (!Array.isArray(papers) || papers.length > MAX_SYNCED_PAPERS) return null;
+  if (!papers.every(p => typeof p?.id === 'string' && typeof p?.title === 'string')) return null;
+  if (!Array.isArray(collections) || !collections.every(c => typeof c?.id === 'string' && typeof c?.name === 'string')) return null;
+  if (!tombstones || !isStringRecord(tombstones.papers) || !isStringRecord(tombstones.collections)) return null;
+  return { papers, collections, tombstones };
+}
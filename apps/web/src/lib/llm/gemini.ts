@@ -0,0 +1,84 @@
+// apps/web/src/lib/llm/gemini.ts
+// Google Gemini (@google/genai)。論文PDFは Files API にアップロードして参照する。
+import { GoogleGenAI, Type, type Schema } from '@google/genai';
+import { acquireGeminiPdf } from '@/lib/pdfFiles/geminiFiles';
+import { LlmError, type LlmJsonSchema, type LlmProvider } from './types';
+
+let client: GoogleGenAI | null = null;
+
+function getClient(): GoogleGenAI {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    console.error('llm/gemini: GEMINI_API_KEY environment variable is not set.');
+    throw new LlmError('サーバー設定エラー: APIキーが設定されていません。', 500);
+  }
+  client ??= new GoogleGenAI({ apiKey });
+  return client;
+}
+
+function toGeminiSchema(schema: LlmJsonSchema): Schema {
+  switch (schema.type) {
+    case 'string':
+      return { type: Type.STRING, description: schema.description };
+    case 'array':
+      return { type: Type.ARRAY, items: toGeminiSchema(schema.items), description: schema.description };
+    case 'object': {
+      const keys = Object.keys(schema.properties);
+      return {
+        type: Type.OBJECT,
+        properties: Object.fromEntries(keys.map(key => [key, toGeminiSchema(schema.properties[key])])),
+        required: keys,
+        propertyOrdering: keys, // 定義した順に出力させる (ストリーミング表示で上から埋まるように)
+        description: schema.description,
+      };
+    }
+  }
+}
+
+export const geminiProvider: LlmProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+
+  async generate(request, onDelta) {
+    const ai = getClient();
+    // PDF のダウンロード・アップロードは要約・質問で共有し、続けて使う場合は再利用する
+    const pdfFile = request.pdfUrl ? await acquireGeminiPdf(ai, request.pdfUrl) : null;
+    try {
+      const contents = request.messages.map((message, index) => ({
+        role: message.role === 'user' ? 'user' : 'model',
+        parts: [
+          ...(index === 0 && pdfFile ? [{ fileData: { mimeType: pdfFile.mimeType, fileUri: pdfFile.uri } }] : []),
+          { text: message.text },
+        ],
+      }));
+      const generationStream = await ai.models.generateContentStream({
+        model: request.model,
+        contents,
+        config: {
+          systemInstruction: request.systemInstruction,
+          temperature: request.temperature,
+          maxOutputTokens: request.maxOutputTokens,
+          ...(request.responseSchema
+            ? { responseMimeType: 'application/json', responseSchema: toGeminiSchema(request.responseSchema) }
+            : {}),
+          abortSignal: request.signal,
+        },
+      });
+      let output = '';
+      for await (const chunk of generationStream) {
+        const text = chunk.text;
+        if (text) {
+          output += text;
+          onDelta(text);
+        }
+      }
+      return output;
+    } catch (error) {
+      // 中止された場合以外は、アップロード済みのファイルが使えなくなっている可能性があるため作り直す
+      if (pdfFile && !request.signal?.aborted) pdfFile.invalidate();
+      throw error;
+    } finally {
+      pdfFile?.release();
+    }
+  },
+};
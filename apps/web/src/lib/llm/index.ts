@@ -0,0 +1,91 @@
+// apps/web/src/lib/llm/index.ts
+// AI を使うルートごとに、どのプロバイダ・モデルで生成するかを環境変数から決める (サーバー専用)。
+//   LLM_PROVIDER=gemini|openai|mock (全ルート共通、既定は gemini)
+//   SUMMARIZE_LLM_PROVIDER / SUMMARIZE_MODEL / SUMMARIZE_TEMPERATURE / SUMMARIZE_MAX_OUTPUT_TOKENS (ask-ai は ASK_AI_、translate は TRANSLATE_ で始まる)
+import { geminiProvider } from './gemini';
+import { openAiCompatibleProvider } from './openaiCompatible';
+import { mockProvider } from './mock';
+import { LlmError, type LlmGenerateRequest, type LlmProvider, type LlmProviderId } from './types';
+
+export { LlmError } from './types';
+export type { LlmJsonSchema, LlmMessage, LlmProvider } from './types';
+
+const LLM_PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  gemini: geminiProvider,
+  openai: openAiCompatibleProvider,
+  mock: mockProvider,
+};
+
+const DEFAULT_PROVIDER_ID: LlmProviderId = 'gemini';
+
+const DEFAULT_MODELS: Record<LlmProviderId, string> = {
+  gemini: 'gemini-2.0-flash',
+  openai: 'gpt-4o-mini',
+  mock: 'mock-1',
+};
+
+export type LlmRouteId = 'summarize' | 'askAi' | 'translate';
+
+const ROUTE_ENV_PREFIXES: Record<LlmRouteId, string> = {
+  summarize: 'SUMMARIZE',
+  askAi: 'ASK_AI',
+  translate: 'TRANSLATE',
+};
+
+// 環境変数で指定しない場合の生成パラメータ (未指定はプロバイダの既定値)
+const ROUTE_DEFAULTS: Record<LlmRouteId, { temperature?: number; maxOutputTokens?: number }> = {
+  summarize: { temperature: 0.4 },
+  askAi: {},
+  translate: { temperature: 0.2 }, // 原文に忠実に訳す
+};
+
+export interface LlmRouteConfig {
+  provider: LlmProvider;
+  model: string;
+  modelLabel: string; // ログやキャッシュキーに使う名前 (Gemini 以外は "openai:gpt-4o-mini" のようにプロバイダ名を前置)
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+function isLlmProviderId(value: string): value is LlmProviderId {
+  return Object.prototype.hasOwnProperty.call(LLM_PROVIDERS, value);
+}
+
+function readNumberEnv(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new LlmError(`サーバー設定エラー: ${name} の値が正しくありません。`, 500);
+  }
+  return parsed;
+}
+
+export function resolveLlmRouteConfig(route: LlmRouteId): LlmRouteConfig {
+  const prefix = ROUTE_ENV_PREFIXES[route];
+  const providerId = (process.env[`${prefix}_LLM_PROVIDER`] || process.env.LLM_PROVIDER || DEFAULT_PROVIDER_ID).trim().toLowerCase();
+  if (!isLlmProviderId(providerId)) {
+    throw new LlmError(`サーバー設定エラー: 不明な LLM プロバイダです: ${providerId}`, 500);
+  }
+  const model = process.env[`${prefix}_MODEL`]?.trim() || DEFAULT_MODELS[providerId];
+  const maxOutputTokens = readNumberEnv(`${prefix}_MAX_OUTPUT_TOKENS`);
+  return {
+    provider: LLM_PROVIDERS[providerId],
+    model,
+    modelLabel: providerId === 'gemini' ? model : `${providerId}:${model}`,
+    temperature: readNumberEnv(`${prefix}_TEMPERATURE`) ?? ROUTE_DEFAULTS[route].temperature,
+    maxOutputTokens: maxOutputTokens !== undefined ? Math.floor(maxOutputTokens) : ROUTE_DEFAULTS[route].maxOutputTokens,
+  };
+}
+
+/** ルートの設定で生成する */
+export function generateWithLlm(
+  config: LlmRouteConfig,
+  request: Omit<LlmGenerateRequest, 'model' | 'temperature' | 'maxOutputTokens'>,
+  onDelta: (text: string) => void,
+): Promise<string> {
+  return config.provider.generate(
+    { ...request, model: config.model, temperature: config.temperature, maxOutputTokens: config.maxOutputTokens },
+    onDelta,
+  );
+}
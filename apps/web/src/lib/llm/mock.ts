@@ -0,0 +1,64 @@
+// apps/web/src/lib/llm/mock.ts
+// API キーやネットワークなしで要約・質問の流れを確認するためのプロバイダ。
+// 同じ入力には常に同じテキストを返し、少しずつ区切ってストリーミングする。
+import { createHash } from 'node:crypto';
+import type { LlmGenerateRequest, LlmJsonSchema, LlmProvider } from './types';
+
+const CHUNK_LENGTH = 16;
+const DEFAULT_CHUNK_DELAY_MS = 20; // ストリーミング表示を確認できるように、チャンクの間を少し空ける
+
+function chunkDelayMs(): number {
+  const configured = Number(process.env.LLM_MOCK_DELAY_MS);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_CHUNK_DELAY_MS;
+}
+
+function abortError(): Error {
+  const error = new Error('生成を中止しました。');
+  error.name = 'AbortError';
+  return error;
+}
+
+// JSON で出力させる場合は、形式どおりの値を作る
+function buildMockJson(schema: LlmJsonSchema, name: string, digest: string): unknown {
+  switch (schema.type) {
+    case 'string':
+      return `モックの${name} (${digest})`;
+    case 'array':
+      return [1, 2].map(n => buildMockJson(schema.items, `${name} ${n}`, digest));
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, buildMockJson(value, key, digest)]));
+  }
+}
+
+function buildMockText(request: LlmGenerateRequest): string {
+  const digest = createHash('sha256')
+    .update(JSON.stringify([request.model, request.systemInstruction ?? '', request.messages, request.pdfUrl ?? '']))
+    .digest('hex')
+    .slice(0, 8);
+  if (request.responseSchema) return JSON.stringify(buildMockJson(request.responseSchema, 'response', digest), null, 2);
+  const lastUserText = [...request.messages].reverse().find(m => m.role === 'user')?.text.trim() ?? '';
+  const excerpt = lastUserText.length > 80 ? `${lastUserText.slice(0, 80)}…` : lastUserText;
+  return [
+    `これはモックプロバイダ (${request.model}) による応答です。`,
+    `- 入力: ${excerpt.replace(/\s+/g, ' ')}`,
+    `- 会話の長さ: ${request.messages.length} 件`,
+    request.pdfUrl ? `- 論文PDF: ${request.pdfUrl}` : null,
+    `- 入力のハッシュ: ${digest}`,
+  ].filter(Boolean).join('\n');
+}
+
+export const mockProvider: LlmProvider = {
+  id: 'mock',
+  label: 'モック (オフライン)',
+
+  async generate(request, onDelta) {
+    const text = buildMockText(request);
+    const delay = chunkDelayMs();
+    for (let i = 0; i < text.length; i += CHUNK_LENGTH) {
+      if (request.signal?.aborted) throw abortError();
+      if (delay > 0) await new Promise(resolve => setTimeout(resolve, delay));
+      onDelta(text.slice(i, i + CHUNK_LENGTH));
+    }
+    return text;
+  },
+};
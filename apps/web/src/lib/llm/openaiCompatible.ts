@@ -0,0 +1,140 @@
+// apps/web/src/lib/llm/openaiCompatible.ts
+// OpenAI の Chat Completions 互換 API (OpenAI 本家、Ollama や llama.cpp のローカルサーバーなど)。
+// OPENAI_BASE_URL でエンドポイントを切り替える。ローカルサーバーでは API キーは不要。
+import { promises as fs } from 'node:fs';
+import { acquirePdf } from '@/lib/pdfFiles/diskCache';
+import { LlmError, type LlmGenerateRequest, type LlmJsonSchema, type LlmProvider } from './types';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+// file: PDF を base64 で添付する (OpenAI の PDF 対応モデル向け)
+// none: 添付しない。PDF を読めないローカルモデルでは URL とタイトルだけで答えることになる
+type PdfInputMode = 'file' | 'none';
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'file'; file: { filename: string; file_data: string } };
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+function baseUrl(): string {
+  return (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+}
+
+function pdfInputMode(): PdfInputMode {
+  return process.env.OPENAI_PDF_INPUT === 'none' ? 'none' : 'file';
+}
+
+async function buildPdfPart(pdfUrl: string): Promise<ChatContentPart> {
+  const pdf = await acquirePdf(pdfUrl);
+  try {
+    const data = await fs.readFile(pdf.filePath);
+    return { type: 'file', file: { filename: 'paper.pdf', file_data: `data:application/pdf;base64,${data.toString('base64')}` } };
+  } finally {
+    pdf.release();
+  }
+}
+
+async function buildMessages(request: LlmGenerateRequest): Promise<ChatMessage[]> {
+  const messages: ChatMessage[] = request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : [];
+  const pdfPart = request.pdfUrl && pdfInputMode() === 'file' ? await buildPdfPart(request.pdfUrl) : null;
+  request.messages.forEach((message, index) => {
+    if (index > 0 || !request.pdfUrl) {
+      messages.push({ role: message.role, content: message.text });
+    } else if (pdfPart) {
+      messages.push({ role: message.role, content: [pdfPart, { type: 'text', text: message.text }] });
+    } else {
+      messages.push({ role: message.role, content: `(論文PDF: ${request.pdfUrl})\n\n${message.text}` });
+    }
+  });
+  return messages;
+}
+
+// Structured Outputs の strict モードでは、全てのプロパティを必須にして追加のプロパティを禁止する必要がある
+function toJsonSchema(schema: LlmJsonSchema): Record<string, unknown> {
+  switch (schema.type) {
+    case 'string':
+      return { type: 'string', ...(schema.description ? { description: schema.description } : {}) };
+    case 'array':
+      return { type: 'array', items: toJsonSchema(schema.items), ...(schema.description ? { description: schema.description } : {}) };
+    case 'object':
+      return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])),
+        required: Object.keys(schema.properties),
+        additionalProperties: false,
+        ...(schema.description ? { description: schema.description } : {}),
+      };
+  }
+}
+
+// Server-Sent Events の "data: {...}" 行から生成されたテキストを取り出す
+async function readCompletionStream(response: Response, onDelta: (text: string) => void): Promise<string> {
+  if (!response.body) throw new LlmError('LLM API からの応答が空でした。');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let output = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const data = trimmed.slice('data:'.length).trim();
+      if (data === '[DONE]') return output;
+      const chunk = JSON.parse(data) as { choices?: { delta?: { content?: string | null } }[]; error?: { message?: string } };
+      if (chunk.error) throw new LlmError(`LLM API エラー: ${chunk.error.message ?? '不明なエラー'}`);
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) {
+        output += text;
+        onDelta(text);
+      }
+    }
+    if (done) return output;
+  }
+}
+
+export const openAiCompatibleProvider: LlmProvider = {
+  id: 'openai',
+  label: 'OpenAI 互換 API',
+
+  async generate(request, onDelta) {
+    const url = baseUrl();
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey && url === DEFAULT_BASE_URL) {
+      console.error('llm/openai: OPENAI_API_KEY environment variable is not set.');
+      throw new LlmError('サーバー設定エラー: APIキーが設定されていません。', 500);
+    }
+
+    const response = await fetch(`${url}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: await buildMessages(request),
+        stream: true,
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+        ...(request.responseSchema
+          ? { response_format: { type: 'json_schema', json_schema: { name: 'response', strict: true, schema: toJsonSchema(request.responseSchema) } } }
+          : {}),
+      }),
+      signal: request.signal,
+    });
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      console.error(`llm/openai: Request to ${url} failed (${response.status}): ${errorText}`);
+      throw new LlmError(`LLM API エラー (Status: ${response.status})`);
+    }
+    return readCompletionStream(response, onDelta);
+  },
+};
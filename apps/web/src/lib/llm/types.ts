@@ -0,0 +1,44 @@
+// apps/web/src/lib/llm/types.ts
+
+export type LlmProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+// JSON で出力させる場合の形式 (各プロバイダが対応する形式に変換する)
+export type LlmJsonSchema =
+  | { type: 'string'; description?: string }
+  | { type: 'array'; items: LlmJsonSchema; description?: string }
+  | { type: 'object'; properties: Record<string, LlmJsonSchema>; description?: string }; // プロパティは全て必須
+
+export interface LlmGenerateRequest {
+  model: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  systemInstruction?: string;
+  messages: LlmMessage[]; // user から始まり、user と assistant が交互に並ぶ
+  pdfUrl?: string; // 指定すると最初の user のメッセージに論文PDFを添付する
+  responseSchema?: LlmJsonSchema; // 指定すると、この形式の JSON で出力させる
+  signal?: AbortSignal;
+}
+
+// LLM のバックエンド (Gemini, OpenAI 互換 API, モック...) の共通インターフェース
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  /** テキストを生成して全文を返す。生成途中のテキストは届いた順に onDelta に渡す */
+  generate(request: LlmGenerateRequest, onDelta: (text: string) => void): Promise<string>;
+}
+
+// 設定の誤りや LLM API の失敗 (API では status をそのまま返す)
+export class LlmError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = 'LlmError';
+    this.status = status;
+  }
+}
@@ -0,0 +1,93 @@
+// apps/web/src/lib/markdownBlocks.ts
+// メモ用の簡易 Markdown パーサー (ブロック単位のみ)
+// インラインの LaTeX は FormattedTextRenderer に任せるため、ここでは $...$ に手を付けない
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'quote'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'paragraph'; text: string };
+
+const HEADING_PATTERN = /^(#{1,3})\s+(.*)$/;
+const UNORDERED_ITEM_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE_PATTERN = /^>\s?(.*)$/;
+const FENCE_PATTERN = /^```/;
+
+/**
+ * 見出し (#〜###)、箇条書き、番号付きリスト、引用、コードブロック、段落に分割する。
+ * 段落内の改行はそのまま残す ($$...$$ が複数行にまたがっても崩れないように)。
+ */
+export function parseMarkdownBlocks(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE_PATTERN.test(line)) {
+      flushParagraph();
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE_PATTERN.test(lines[i])) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'code', text: codeLines.join('\n') });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, text: heading[2] });
+      continue;
+    }
+
+    const unordered = line.match(UNORDERED_ITEM_PATTERN);
+    const ordered = unordered ? null : line.match(ORDERED_ITEM_PATTERN);
+    if (unordered || ordered) {
+      flushParagraph();
+      const isOrdered = !!ordered;
+      const itemText = (unordered ?? ordered)![1];
+      const lastBlock = blocks[blocks.length - 1];
+      if (lastBlock?.type === 'list' && lastBlock.ordered === isOrdered) {
+        lastBlock.items.push(itemText);
+      } else {
+        blocks.push({ type: 'list', ordered: isOrdered, items: [itemText] });
+      }
+      continue;
+    }
+
+    const quote = line.match(QUOTE_PATTERN);
+    if (quote) {
+      flushParagraph();
+      const lastBlock = blocks[blocks.length - 1];
+      if (lastBlock?.type === 'quote') {
+        lastBlock.text += `\n${quote[1]}`;
+      } else {
+        blocks.push({ type: 'quote', text: quote[1] });
+      }
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+  flushParagraph();
+
+  return blocks;
+}
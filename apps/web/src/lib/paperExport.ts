@@ -0,0 +1,311 @@
+// apps/web/src/lib/paperExport.ts
+// ライブラリの論文を文献管理ツール向けの形式 (BibTeX / RIS / CSL-JSON) と Markdown の読書リストに書き出す
+import type { Paper } from '@/contexts/LikedPapersContext';
+import { getPaperSourceLabel, splitPaperId } from '@/lib/paperSources/catalog';
+
+export type ExportFormat = 'bibtex' | 'ris' | 'csl-json' | 'markdown';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'bibtex', label: 'BibTeX', extension: 'bib', mimeType: 'application/x-bibtex' },
+  { id: 'ris', label: 'RIS', extension: 'ris', mimeType: 'application/x-research-info-systems' },
+  { id: 'csl-json', label: 'CSL-JSON', extension: 'json', mimeType: 'application/json' },
+  { id: 'markdown', label: 'Markdown (読書リスト)', extension: 'md', mimeType: 'text/markdown' },
+];
+
+export interface ExportOptions {
+  collectionNames?: Map<string, string>; // Markdown にコレクション名を載せる場合に渡す
+  exportedAt?: Date;
+}
+
+const MONTH_MACROS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// 引用キーに使うソースごとの前置詞 (arXiv は慣例どおり "arXiv:2401.12345")
+const CITATION_KEY_PREFIXES: Record<string, string> = {
+  arxiv: 'arXiv',
+  biorxiv: 'bioRxiv',
+  medrxiv: 'medRxiv',
+  openalex: 'OpenAlex',
+  pubmed: 'PMID',
+  fixture: 'local',
+};
+
+/** "2401.12345v2" のようなバージョン付きIDからバージョンを外す */
+function stripArxivVersion(arxivId: string): string {
+  return arxivId.replace(/v\d+$/, '');
+}
+
+/**
+ * 論文IDから決まる引用キー。同じ論文は何度エクスポートしても同じキーになる。
+ * BibTeX のキーに使えない文字 (空白, カンマ, 波括弧など) は取り除く。
+ */
+export function buildCitationKey(paper: Pick<Paper, 'id' | 'source'>): string {
+  const { source, localId } = splitPaperId(paper.id);
+  const id = source === 'arxiv' ? stripArxivVersion(localId) : localId;
+  return `${CITATION_KEY_PREFIXES[source] ?? source}:${id}`.replace(/[\s,{}()"'#%~=\\]/g, '');
+}
+
+// 同じキーになってしまった論文 (古いバージョン違いなど) には a, b, ... を付ける
+function assignCitationKeys(papers: Paper[]): Map<string, string> {
+  const keys = new Map<string, string>();
+  const usedKeys = new Map<string, number>();
+  for (const paper of papers) {
+    const baseKey = buildCitationKey(paper);
+    const count = usedKeys.get(baseKey) ?? 0;
+    usedKeys.set(baseKey, count + 1);
+    keys.set(paper.id, count === 0 ? baseKey : `${baseKey}${String.fromCharCode(96 + Math.min(count, 26))}`);
+  }
+  return keys;
+}
+
+function parseDateParts(dateString: string): { year: number; month: number; day: number } | null {
+  const match = dateString.match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/);
+  if (!match) return null;
+  return { year: Number(match[1]), month: Number(match[2] ?? 0), day: Number(match[3] ?? 0) };
+}
+
+function landingPageUrl(paper: Paper): string {
+  const { source, localId } = splitPaperId(paper.id);
+  if (source === 'arxiv') return `https://arxiv.org/abs/${localId}`;
+  if (source === 'pubmed') return `https://pubmed.ncbi.nlm.nih.gov/${localId}/`;
+  if (source === 'openalex') return `https://openalex.org/${localId}`;
+  if (paper.doi) return `https://doi.org/${paper.doi}`;
+  return paper.pdfLink;
+}
+
+// 掲載誌が無い論文の発行元 (プレプリントサーバーなど)。ローカルのフィクスチャには付けない
+function publisherOf(paper: Paper): string | undefined {
+  if (paper.journalRef || paper.source === 'fixture') return undefined;
+  return getPaperSourceLabel(paper.source);
+}
+
+// 取得元に Abstract が無かった論文は "要約なし" が入っているので書き出さない
+function abstractOf(paper: Paper): string | undefined {
+  return paper.summary && paper.summary !== '要約なし' ? paper.summary : undefined;
+}
+
+function keywordsOf(paper: Paper): string[] {
+  return [...paper.categories, ...(paper.tags ?? [])];
+}
+
+// 本文中の簡単なHTMLタグ (PubMed など) を取り除く
+function stripMarkup(text: string): string {
+  return text.replace(/<\/?(i|b|sup|sub)>/g, '').replace(/\s\s+/g, ' ').trim();
+}
+
+// ---------------------------------------------------------------------------
+// BibTeX
+// ---------------------------------------------------------------------------
+
+const HTML_TO_LATEX: Record<string, string> = { i: 'textit', b: 'textbf', sup: 'textsuperscript', sub: 'textsubscript' };
+
+/**
+ * BibTeX の値として安全な文字列にする。$...$ の数式はそのまま残し、
+ * それ以外の部分の & % # _ をエスケープし、簡単なHTMLタグは LaTeX のコマンドに置き換える。
+ */
+function escapeBibtex(text: string): string {
+  return text
+    .split(/(\$[^$]*\$)/g)
+    .map((segment) => {
+      if (segment.startsWith('$') && segment.endsWith('$') && segment.length > 1) return segment;
+      return segment
+        .replace(/(?<!\\)([&%#_])/g, '\\$1')
+        .replace(/<(i|b|sup|sub)>([\s\S]*?)<\/\1>/g, (_, tag: string, inner: string) => `\\${HTML_TO_LATEX[tag]}{${inner}}`)
+        .replace(/<[^>]+>/g, '');
+    })
+    .join('')
+    .replace(/\s\s+/g, ' ')
+    .trim();
+}
+
+function formatBibtexEntry(paper: Paper, key: string): string {
+  const { source, localId } = splitPaperId(paper.id);
+  const date = parseDateParts(paper.published);
+  const isArxiv = source === 'arxiv';
+  const abstract = abstractOf(paper);
+  const entryType = paper.journalRef ? 'article' : 'misc';
+
+  const fields: [string, string | undefined][] = [
+    // 二重の波括弧で囲んで、スタイルによる大文字小文字の変換を防ぐ
+    ['title', `{${escapeBibtex(paper.title)}}`],
+    ['author', paper.authors.map(escapeBibtex).join(' and ') || undefined],
+    ['year', date ? String(date.year) : undefined],
+    ['month', date && date.month > 0 ? MONTH_MACROS[date.month - 1] : undefined],
+    ['journal', paper.journalRef ? escapeBibtex(paper.journalRef) : undefined],
+    ['howpublished', isArxiv ? undefined : publisherOf(paper)],
+    ['eprint', isArxiv ? stripArxivVersion(localId) : undefined],
+    ['archivePrefix', isArxiv ? 'arXiv' : undefined],
+    ['primaryClass', isArxiv ? paper.categories[0] : undefined],
+    ['doi', paper.doi],
+    ['url', landingPageUrl(paper) || undefined],
+    ['keywords', keywordsOf(paper).map(escapeBibtex).join(', ') || undefined],
+    ['abstract', abstract ? escapeBibtex(abstract) : undefined],
+  ];
+
+  const body = fields
+    .filter((field): field is [string, string] => Boolean(field[1]))
+    // month はマクロ (jan, feb...) なので波括弧で囲まない
+    .map(([name, value]) => `  ${name} = ${name === 'month' ? value : `{${value}}`}`)
+    .join(',\n');
+  return `@${entryType}{${key},\n${body}\n}`;
+}
+
+export function exportToBibtex(papers: Paper[]): string {
+  const keys = assignCitationKeys(papers);
+  return papers.map(paper => formatBibtexEntry(paper, keys.get(paper.id)!)).join('\n\n') + '\n';
+}
+
+// ---------------------------------------------------------------------------
+// RIS
+// ---------------------------------------------------------------------------
+
+// RIS の日付は "YYYY/MM/DD/" (不明な部分は空)
+function formatRisDate(date: { year: number; month: number; day: number }): string {
+  const pad = (value: number) => (value > 0 ? String(value).padStart(2, '0') : '');
+  return `${date.year}/${pad(date.month)}/${pad(date.day)}/`;
+}
+
+function formatRisEntry(paper: Paper, key: string): string {
+  const date = parseDateParts(paper.published);
+  const abstract = abstractOf(paper);
+  const lines: [string, string | undefined][] = [
+    // 掲載誌が分かるものは雑誌論文、それ以外はプレプリント (未出版) として扱う
+    ['TY', paper.journalRef ? 'JOUR' : 'UNPB'],
+    ['ID', key],
+    ['TI', stripMarkup(paper.title)],
+    ...paper.authors.map((author): [string, string] => ['AU', author]),
+    ['PY', date ? String(date.year) : undefined],
+    ['DA', date ? formatRisDate(date) : undefined],
+    ['JO', paper.journalRef],
+    ['PB', publisherOf(paper)],
+    ['DO', paper.doi],
+    ['UR', landingPageUrl(paper) || undefined],
+    ['L1', paper.pdfLink || undefined],
+    ...keywordsOf(paper).map((keyword): [string, string] => ['KW', keyword]),
+    ['AB', abstract ? stripMarkup(abstract) : undefined],
+    ['N1', paper.comment],
+  ];
+  return lines
+    .filter((line): line is [string, string] => Boolean(line[1]))
+    .map(([tag, value]) => `${tag}  - ${value.replace(/\r?\n/g, ' ')}`)
+    .concat('ER  - ')
+    .join('\r\n');
+}
+
+export function exportToRis(papers: Paper[]): string {
+  const keys = assignCitationKeys(papers);
+  return papers.map(paper => formatRisEntry(paper, keys.get(paper.id)!)).join('\r\n\r\n') + '\r\n';
+}
+
+// ---------------------------------------------------------------------------
+// CSL-JSON
+// ---------------------------------------------------------------------------
+
+interface CslName {
+  family?: string;
+  given?: string;
+  literal?: string;
+}
+
+interface CslItem {
+  id: string;
+  type: 'article' | 'article-journal';
+  title: string;
+  author: CslName[];
+  issued?: { 'date-parts': number[][] };
+  'container-title'?: string;
+  publisher?: string;
+  number?: string;
+  DOI?: string;
+  URL?: string;
+  abstract?: string;
+  keyword?: string;
+  note?: string;
+}
+
+// "Given Family" の形式を想定し、最後の単語を姓とする (1語の場合は団体名などとしてそのまま)
+function toCslName(name: string): CslName {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length < 2) return { literal: name.trim() };
+  return { family: parts[parts.length - 1], given: parts.slice(0, -1).join(' ') };
+}
+
+function toCslItem(paper: Paper, key: string): CslItem {
+  const { source, localId } = splitPaperId(paper.id);
+  const date = parseDateParts(paper.published);
+  const keywords = keywordsOf(paper);
+  const abstract = abstractOf(paper);
+  return {
+    id: key,
+    // CSL では "article" がプレプリントを表す
+    type: paper.journalRef ? 'article-journal' : 'article',
+    title: stripMarkup(paper.title),
+    author: paper.authors.map(toCslName),
+    issued: date ? { 'date-parts': [[date.year, date.month, date.day].filter(part => part > 0)] } : undefined,
+    'container-title': paper.journalRef,
+    publisher: publisherOf(paper),
+    number: source === 'arxiv' ? `arXiv:${stripArxivVersion(localId)}` : undefined,
+    DOI: paper.doi,
+    URL: landingPageUrl(paper) || undefined,
+    abstract: abstract ? stripMarkup(abstract) : undefined,
+    keyword: keywords.length > 0 ? keywords.join(', ') : undefined,
+    note: paper.comment,
+  };
+}
+
+export function exportToCslJson(papers: Paper[]): string {
+  const keys = assignCitationKeys(papers);
+  // undefined のフィールドは JSON.stringify で落ちる
+  return JSON.stringify(papers.map(paper => toCslItem(paper, keys.get(paper.id)!)), null, 2) + '\n';
+}
+
+// ---------------------------------------------------------------------------
+// Markdown (読書リスト)
+// ---------------------------------------------------------------------------
+
+function formatMarkdownEntry(paper: Paper, index: number, key: string, options: ExportOptions): string {
+  const url = landingPageUrl(paper);
+  const collectionName = paper.collectionId ? options.collectionNames?.get(paper.collectionId) : undefined;
+  const metaLines = [
+    `- **著者**: ${paper.authors.join(', ') || '不明'}`,
+    `- **公開日**: ${paper.published ? paper.published.slice(0, 10) : '不明'}`,
+    `- **リンク**: ${[url ? `[${key}](${url})` : key, paper.pdfLink ? `[PDF](${paper.pdfLink})` : null].filter(Boolean).join(' / ')}`,
+    paper.doi ? `- **DOI**: [${paper.doi}](https://doi.org/${paper.doi})` : null,
+    paper.journalRef ? `- **掲載誌**: ${paper.journalRef}` : null,
+    paper.comment ? `- **コメント**: ${paper.comment}` : null,
+    paper.categories.length > 0 ? `- **カテゴリ**: ${paper.categories.join(', ')}` : null,
+    collectionName ? `- **コレクション**: ${collectionName}` : null,
+    paper.tags && paper.tags.length > 0 ? `- **タグ**: ${paper.tags.map(tag => `#${tag}`).join(' ')}` : null,
+  ].filter(Boolean);
+
+  const sections = [`## ${index + 1}. ${stripMarkup(paper.title)}`, metaLines.join('\n')];
+  if (paper.aiSummary) sections.push(`### AIによる要約\n\n${paper.aiSummary.trim()}`);
+  if (paper.notes) sections.push(`### メモ\n\n${paper.notes.trim()}`);
+  if (paper.highlights && paper.highlights.length > 0) {
+    const highlightLines = paper.highlights.map(highlight =>
+      `> ${highlight.text.replace(/\n/g, '\n> ')}${highlight.comment ? `\n\n${highlight.comment}` : ''}`
+    );
+    sections.push(`### ハイライト\n\n${highlightLines.join('\n\n')}`);
+  }
+  return sections.join('\n\n');
+}
+
+export function exportToMarkdown(papers: Paper[], options: ExportOptions = {}): string {
+  const keys = assignCitationKeys(papers);
+  const exportedAt = options.exportedAt ?? new Date();
+  const header = `# 論文リスト\n\n${exportedAt.toLocaleDateString('ja-JP')} に Kiga-ers からエクスポート (${papers.length} 件)`;
+  const entries = papers.map((paper, index) => formatMarkdownEntry(paper, index, keys.get(paper.id)!, options));
+  return [header, ...entries].join('\n\n---\n\n') + '\n';
+}
+
+export function exportPapers(papers: Paper[], format: ExportFormat, options: ExportOptions = {}): string {
+  switch (format) {
+    case 'bibtex':
+      return exportToBibtex(papers);
+    case 'ris':
+      return exportToRis(papers);
+    case 'csl-json':
+      return exportToCslJson(papers);
+    case 'markdown':
+      return exportToMarkdown(papers, options);
+  }
+}
@@ -0,0 +1,256 @@
+// apps/web/src/lib/paperImport.ts
+// 貼り付けた ID リスト / BibTeX / RIS から、/api/papers?id_list= で取得できる論文IDを取り出す
+import type { Paper } from '@/contexts/LikedPapersContext';
+import { splitPaperId } from '@/lib/paperSources/catalog';
+
+export type ImportFormat = 'list' | 'bibtex' | 'ris';
+
+export interface ImportCandidate {
+  paperId: string; // id_list に渡すID ("2401.12345", "openalex:doi:10.xxxx/...", "pubmed:123" ...)
+  label: string; // 結果の表示用 (入力された行、BibTeX のキーなど)
+}
+
+export interface UnresolvedImport {
+  label: string;
+  reason: string;
+}
+
+export interface ImportParseResult {
+  format: ImportFormat;
+  candidates: ImportCandidate[];
+  unresolved: UnresolvedImport[];
+}
+
+const NEW_ARXIV_ID = /^(\d{4}\.\d{4,5})(v\d+)?$/;
+const OLD_ARXIV_ID = /^([a-z-]+(?:\.[A-Z]{2})?\/\d{7})(v\d+)?$/;
+const ARXIV_URL = /arxiv\.org\/(?:abs|pdf)\/(.+?)(?:\.pdf)?\/?(?:[?#].*)?$/i;
+const ARXIV_DOI = /^10\.48550\/arxiv\.(.+)$/i;
+const DOI_PATTERN = /(10\.\d{4,9}\/[^\s"<>]+)/;
+const PUBMED_URL = /pubmed\.ncbi\.nlm\.nih\.gov\/(\d+)/i;
+
+const NO_IDENTIFIER_REASON = '識別子 (arXiv ID / DOI) が見つかりません';
+
+function toArxivId(value: string): string | null {
+  const match = value.match(NEW_ARXIV_ID) ?? value.match(OLD_ARXIV_ID);
+  // バージョンは付けずに最新版を取得する
+  return match ? match[1] : null;
+}
+
+function cleanDoi(doi: string): string {
+  return doi.replace(/[.,;)\]]+$/, '');
+}
+
+/**
+ * 1つの識別子 (arXiv ID / arXiv の URL / DOI / doi.org の URL / PubMed の URL / このアプリの論文ID) を
+ * id_list に渡せる論文IDに変換する。認識できない場合は null。
+ */
+export function identifierToPaperId(rawValue: string): string | null {
+  const value = rawValue.trim().replace(/^<|>$/g, '');
+  if (!value) return null;
+
+  // "openalex:W123" や "pubmed:123" のようなこのアプリの論文ID ("arxiv:" は下で arXiv ID として扱う)
+  const { source, localId } = splitPaperId(value);
+  if (source !== 'arxiv') return localId ? value : null;
+
+  const arxivUrl = value.match(ARXIV_URL);
+  if (arxivUrl) return toArxivId(arxivUrl[1]);
+
+  const withoutPrefix = value.replace(/^arxiv:/i, '');
+  const arxivId = toArxivId(withoutPrefix);
+  if (arxivId) return arxivId;
+
+  const pubmedUrl = value.match(PUBMED_URL);
+  if (pubmedUrl) return `pubmed:${pubmedUrl[1]}`;
+  const pmid = value.match(/^pmid:(\d+)$/i);
+  if (pmid) return `pubmed:${pmid[1]}`;
+
+  const doiMatch = value.replace(/^doi:/i, '').match(DOI_PATTERN);
+  if (doiMatch) {
+    const doi = cleanDoi(doiMatch[1]);
+    // arXiv が発行した DOI は arXiv から直接取得する
+    const arxivDoi = doi.match(ARXIV_DOI);
+    if (arxivDoi) return toArxivId(arxivDoi[1]);
+    // DOI は OpenAlex で解決する ("openalex:doi:10.xxxx/...")
+    return `openalex:doi:${doi}`;
+  }
+  return null;
+}
+
+function pushCandidate(result: ImportParseResult, paperId: string, label: string) {
+  if (result.candidates.some(candidate => candidate.paperId === paperId)) return;
+  result.candidates.push({ paperId, label });
+}
+
+// ---------------------------------------------------------------------------
+// ID / URL のリスト
+// ---------------------------------------------------------------------------
+
+export function parseIdentifierList(text: string): ImportParseResult {
+  const result: ImportParseResult = { format: 'list', candidates: [], unresolved: [] };
+  // "arXiv: 2401.12345" のように前置詞の後に空白がある場合もまとめる
+  const tokens = text.replace(/\b(arxiv|doi|pmid)\s*:\s*/gi, '$1:').split(/[\s,]+/).filter(Boolean);
+  for (const token of tokens) {
+    const paperId = identifierToPaperId(token);
+    if (paperId) {
+      pushCandidate(result, paperId, token);
+    } else {
+      result.unresolved.push({ label: token, reason: '認識できない形式です' });
+    }
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// BibTeX
+// ---------------------------------------------------------------------------
+
+/** 対応する閉じ括弧の位置を返す (見つからない場合は -1) */
+function findClosingBracket(text: string, openIndex: number): number {
+  const open = text[openIndex];
+  const close = open === '(' ? ')' : '}';
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === open) depth++;
+    else if (text[i] === close && --depth === 0) return i;
+  }
+  return -1;
+}
+
+// "name = {value}" / "name = "value"" / "name = 2024" の並びを読む (# による連結は先頭の値だけ使う)
+function parseBibtexFields(body: string): Map<string, string> {
+  const fields = new Map<string, string>();
+  const fieldNamePattern = /([A-Za-z][\w-]*)\s*=\s*/g;
+  let match: RegExpExecArray | null;
+  while ((match = fieldNamePattern.exec(body)) !== null) {
+    const name = match[1].toLowerCase();
+    let index = fieldNamePattern.lastIndex;
+    let value: string;
+    if (body[index] === '{') {
+      const end = findClosingBracket(body, index);
+      if (end < 0) break;
+      value = body.slice(index + 1, end);
+      index = end + 1;
+    } else if (body[index] === '"') {
+      const end = body.indexOf('"', index + 1);
+      if (end < 0) break;
+      value = body.slice(index + 1, end);
+      index = end + 1;
+    } else {
+      const bare = body.slice(index).match(/^[^,\s}]+/);
+      value = bare ? bare[0] : '';
+      index += value.length;
+    }
+    fields.set(name, value.replace(/[{}]/g, '').replace(/\s\s+/g, ' ').trim());
+    // 次のフィールドまで読み飛ばす
+    const nextComma = body.indexOf(',', index);
+    if (nextComma < 0) break;
+    fieldNamePattern.lastIndex = nextComma + 1;
+  }
+  return fields;
+}
+
+export function parseBibtex(text: string): ImportParseResult {
+  const result: ImportParseResult = { format: 'bibtex', candidates: [], unresolved: [] };
+  const entryPattern = /@(\w+)\s*([{(])/g;
+  let match: RegExpExecArray | null;
+  while ((match = entryPattern.exec(text)) !== null) {
+    const entryType = match[1].toLowerCase();
+    const openIndex = match.index + match[0].length - 1;
+    const closeIndex = findClosingBracket(text, openIndex);
+    if (closeIndex < 0) break;
+    entryPattern.lastIndex = closeIndex + 1;
+    if (['comment', 'string', 'preamble'].includes(entryType)) continue;
+
+    const body = text.slice(openIndex + 1, closeIndex);
+    const commaIndex = body.indexOf(',');
+    const key = (commaIndex >= 0 ? body.slice(0, commaIndex) : body).trim();
+    const fields = parseBibtexFields(commaIndex >= 0 ? body.slice(commaIndex + 1) : '');
+    const title = fields.get('title');
+    const label = title ? `${key}: ${title}` : key;
+
+    const identifiers = [
+      fields.get('eprint'), // archivePrefix = {arXiv} の場合の arXiv ID
+      fields.get('doi'),
+      fields.get('url'),
+      fields.get('pmid') ? `pmid:${fields.get('pmid')}` : undefined,
+      key, // このアプリが書き出した "arXiv:2401.12345" 形式のキー
+    ];
+    const paperId = identifiers.map(value => (value ? identifierToPaperId(value) : null)).find(Boolean);
+    if (paperId) {
+      pushCandidate(result, paperId, label);
+    } else {
+      result.unresolved.push({ label, reason: NO_IDENTIFIER_REASON });
+    }
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// RIS
+// ---------------------------------------------------------------------------
+
+export function parseRis(text: string): ImportParseResult {
+  const result: ImportParseResult = { format: 'ris', candidates: [], unresolved: [] };
+  let fields = new Map<string, string[]>();
+
+  const finishEntry = () => {
+    if (fields.size === 0) return;
+    const first = (tag: string) => fields.get(tag)?.[0];
+    const label = first('TI') ?? first('T1') ?? first('ID') ?? '(タイトルなし)';
+    const identifiers = [first('DO'), ...(fields.get('UR') ?? []), ...(fields.get('L1') ?? []), first('AN'), first('ID')];
+    const paperId = identifiers.map(value => (value ? identifierToPaperId(value) : null)).find(Boolean);
+    if (paperId) {
+      pushCandidate(result, paperId, label);
+    } else {
+      result.unresolved.push({ label, reason: NO_IDENTIFIER_REASON });
+    }
+    fields = new Map();
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(/^([A-Z][A-Z0-9])  -\s?(.*)$/);
+    if (!match) continue;
+    const [, tag, value] = match;
+    if (tag === 'ER') {
+      finishEntry();
+      continue;
+    }
+    if (value.trim()) fields.set(tag, [...(fields.get(tag) ?? []), value.trim()]);
+  }
+  finishEntry(); // ER が無いまま終わった場合
+  return result;
+}
+
+/** ファイル名 (拡張子) と内容から形式を判定して読み込む */
+export function parseImportText(text: string, fileName?: string): ImportParseResult {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'bib') return parseBibtex(text);
+  if (extension === 'ris') return parseRis(text);
+  if (/^TY  - /m.test(text)) return parseRis(text);
+  if (/@\w+\s*[{(]/.test(text)) return parseBibtex(text);
+  return parseIdentifierList(text);
+}
+
+/** 取得した論文が候補に対応するか (DOI で取得した論文は OpenAlex のIDで返ってくるので DOI で照合する) */
+export function paperMatchesCandidate(paper: Pick<Paper, 'id' | 'doi'>, candidate: ImportCandidate): boolean {
+  if (paper.id === candidate.paperId) return true;
+  const { source, localId } = splitPaperId(candidate.paperId);
+  if (source === 'openalex' && localId.startsWith('doi:')) {
+    return paper.doi?.toLowerCase() === localId.slice(4).toLowerCase();
+  }
+  return false;
+}
+
+/** ライブラリに同じ論文 (同じID、または同じDOI) があれば返す */
+export function findDuplicatePaper(library: Paper[], paper: Pick<Paper, 'id' | 'doi'>): Paper | undefined {
+  const doi = paper.doi?.toLowerCase();
+  return library.find(p => p.id === paper.id || (doi !== undefined && p.doi?.toLowerCase() === doi));
+}
+
+// インポート結果の報告 (ライブラリページで表示する)
+export interface ImportReport {
+  added: Pick<Paper, 'id' | 'title'>[];
+  duplicates: Pick<Paper, 'id' | 'title'>[];
+  unresolved: UnresolvedImport[];
+}
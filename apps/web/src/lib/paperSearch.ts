@@ -0,0 +1,353 @@
+// apps/web/src/lib/paperSearch.ts
+// 構造化された検索条件 (著者・タイトル・Abstract・カテゴリ・期間・論理演算) を扱うモジュール。
+// クライアント (検索フォーム) とサーバー (/api/papers) の両方から利用する。
+
+export type SearchOperator = 'AND' | 'OR';
+
+export interface PaperSearchCriteria {
+  query?: string; // 全フィールド対象のキーワード (all:)
+  title?: string; // タイトル (ti:)
+  author?: string; // 著者。カンマ区切りで複数指定するとAND (au:)
+  abstract?: string; // Abstract (abs:)
+  categories?: string[]; // カテゴリ。複数指定はOR (cat:)
+  from?: string; // 投稿日の開始 (YYYY-MM-DD)
+  to?: string; // 投稿日の終了 (YYYY-MM-DD)
+  operator?: SearchOperator; // キーワード条件同士の結合方法 (デフォルト AND)
+  exclude?: string; // ANDNOT で除外するキーワード
+}
+
+// 検索条件が不正な場合に投げるエラー (API では 400 として返す)
+export class SearchCriteriaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchCriteriaError';
+  }
+}
+
+const TEXT_FIELDS = [
+  { key: 'query', prefix: 'all', label: 'キーワード' },
+  { key: 'title', prefix: 'ti', label: 'タイトル' },
+  { key: 'author', prefix: 'au', label: '著者' },
+  { key: 'abstract', prefix: 'abs', label: 'Abstract' },
+] as const;
+
+// ユーザーがキーワード欄に直接書いた arXiv のフィールド指定 (例: ti:transformer) はそのまま使う
+const ARXIV_FIELD_PREFIXES = ['all', 'ti', 'au', 'abs', 'co', 'jr', 'cat', 'rn', 'id'];
+const CATEGORY_PATTERN = /^[a-z]+([-_][a-z]+)*(\.[A-Za-z]{1,3}(-[A-Za-z]+)?)?$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MAX_TERM_LENGTH = 300;
+const MAX_CATEGORIES = 10;
+const ARXIV_EPOCH = '19910814'; // arXiv の最初の投稿日
+
+function isValidDateString(value: string): boolean {
+  const match = value.match(DATE_PATTERN);
+  if (!match) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function normalizeText(value: string | null | undefined): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim().replace(/\s+/g, ' ');
+  return trimmed === '' ? undefined : trimmed;
+}
+
+// キーワード欄に書ける論理演算子 (arXiv と同じく大文字のみ演算子として扱う)
+export type BooleanOperator = 'AND' | 'OR' | 'ANDNOT';
+
+const BOOLEAN_OPERATORS: readonly string[] = ['AND', 'OR', 'ANDNOT'];
+
+// キーワード欄の検索式の構文木。演算子を省略して並べた語は AND で結ぶ
+export type SearchExpression =
+  | { type: 'term'; term: string }
+  | { type: 'operator'; operator: BooleanOperator; left: SearchExpression; right: SearchExpression };
+
+type SearchToken =
+  | { kind: 'term'; term: string }
+  | { kind: 'operator'; operator: BooleanOperator }
+  | { kind: 'open' }
+  | { kind: 'close' };
+
+// "..." はフレーズ (ti:"..." のようなフィールド指定付きも可)。arXiv のクエリ構文を壊す [] は取り除く
+function lexSearchText(text: string): SearchToken[] {
+  const tokens: SearchToken[] = [];
+  const pattern = /([a-z]+:)?"([^"]*)"|([()])|([^\s()"]+)/g;
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[2] !== undefined) {
+      const phrase = match[2].replace(/[()[\]]/g, ' ').trim().replace(/\s+/g, ' ');
+      if (phrase) tokens.push({ kind: 'term', term: `${match[1] ?? ''}"${phrase}"` });
+    } else if (match[3] !== undefined) {
+      tokens.push({ kind: match[3] === '(' ? 'open' : 'close' });
+    } else {
+      const word = match[4].replace(/[[\]]/g, '');
+      if (!word) continue;
+      tokens.push(BOOLEAN_OPERATORS.includes(word) ? { kind: 'operator', operator: word as BooleanOperator } : { kind: 'term', term: word });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * フリーテキストから検索語だけを取り出す (論理演算子と括弧は無視する)。
+ * "..." で囲まれた部分はフレーズとして扱う。
+ */
+export function tokenizeSearchText(text: string): string[] {
+  return lexSearchText(text).flatMap(token => (token.kind === 'term' ? [token.term] : []));
+}
+
+/**
+ * フリーテキストを AND / OR / ANDNOT と括弧を含む検索式として解析する。
+ * OR は AND・ANDNOT より優先度が低い。検索語が無ければ null、式が不正なら SearchCriteriaError を投げる。
+ */
+export function parseSearchExpression(text: string): SearchExpression | null {
+  const tokens = lexSearchText(text);
+  if (tokens.length === 0) return null;
+  let position = 0;
+
+  const parsePrimary = (): SearchExpression => {
+    const token = tokens[position++];
+    if (!token) throw new SearchCriteriaError('検索式が演算子で終わっています。');
+    if (token.kind === 'term') return { type: 'term', term: token.term };
+    if (token.kind === 'operator') throw new SearchCriteriaError(`${token.operator} の前に検索語が必要です。`);
+    if (token.kind === 'close') throw new SearchCriteriaError('検索式の括弧の対応が正しくありません。');
+    const inner = parseOr();
+    if (tokens[position]?.kind !== 'close') throw new SearchCriteriaError('検索式の括弧が閉じられていません。');
+    position++;
+    return inner;
+  };
+
+  const parseAnd = (): SearchExpression => {
+    let left = parsePrimary();
+    while (position < tokens.length) {
+      const token = tokens[position];
+      if (token.kind === 'close' || (token.kind === 'operator' && token.operator === 'OR')) break;
+      let operator: BooleanOperator = 'AND';
+      if (token.kind === 'operator') {
+        operator = token.operator;
+        position++;
+      }
+      left = { type: 'operator', operator, left, right: parsePrimary() };
+    }
+    return left;
+  };
+
+  const parseOr = (): SearchExpression => {
+    let left = parseAnd();
+    while (tokens[position]?.kind === 'operator') {
+      position++; // parseAnd は OR の手前で止まる
+      left = { type: 'operator', operator: 'OR', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const expression = parseOr();
+  if (position < tokens.length) throw new SearchCriteriaError('検索式の括弧の対応が正しくありません。');
+  return expression;
+}
+
+/**
+ * 検索式を各ソースのクエリ文字列に変換する。演算子を含む部分は括弧で囲む。
+ * operatorLabels で演算子の表記を差し替えられる (例: PubMed の ANDNOT は NOT)。
+ */
+export function formatSearchExpression(
+  expression: SearchExpression,
+  formatTerm: (term: string) => string,
+  operatorLabels: Record<BooleanOperator, string> = { AND: 'AND', OR: 'OR', ANDNOT: 'ANDNOT' },
+): string {
+  if (expression.type === 'term') return formatTerm(expression.term);
+  const left = formatSearchExpression(expression.left, formatTerm, operatorLabels);
+  const right = formatSearchExpression(expression.right, formatTerm, operatorLabels);
+  return `(${left} ${operatorLabels[expression.operator]} ${right})`;
+}
+
+function formatFieldTerm(prefix: string, token: string): string {
+  const explicitField = token.match(/^([a-z]+):(.+)$/);
+  if (prefix === 'all' && explicitField && ARXIV_FIELD_PREFIXES.includes(explicitField[1])) {
+    return token;
+  }
+  return `${prefix}:${token}`;
+}
+
+function compileTextField(prefix: string, value: string): string | null {
+  if (prefix === 'au') {
+    // 著者はカンマ区切りで複数指定でき、各著者名はフレーズとして扱う
+    const names = value.split(',').map(name => name.replace(/["()[\]]/g, '').trim()).filter(Boolean);
+    const clauses = names.map(name => (name.includes(' ') ? `au:"${name}"` : `au:${name}`));
+    if (clauses.length === 0) return null;
+    return clauses.length === 1 ? clauses[0] : `(${clauses.join(' AND ')})`;
+  }
+  const expression = parseSearchExpression(value);
+  return expression ? formatSearchExpression(expression, term => formatFieldTerm(prefix, term)) : null;
+}
+
+/**
+ * 検索条件を検証する。問題があれば SearchCriteriaError を投げる。
+ */
+export function validateSearchCriteria(criteria: PaperSearchCriteria): void {
+  for (const field of TEXT_FIELDS) {
+    const value = criteria[field.key];
+    if (value && value.length > MAX_TERM_LENGTH) {
+      throw new SearchCriteriaError(`${field.label}が長すぎます (${MAX_TERM_LENGTH}文字以内)。`);
+    }
+  }
+  if (criteria.exclude && criteria.exclude.length > MAX_TERM_LENGTH) {
+    throw new SearchCriteriaError(`除外キーワードが長すぎます (${MAX_TERM_LENGTH}文字以内)。`);
+  }
+  if (criteria.operator && criteria.operator !== 'AND' && criteria.operator !== 'OR') {
+    throw new SearchCriteriaError(`結合条件は AND か OR を指定してください: "${criteria.operator}"`);
+  }
+
+  const categories = criteria.categories ?? [];
+  if (categories.length > MAX_CATEGORIES) {
+    throw new SearchCriteriaError(`カテゴリは${MAX_CATEGORIES}個まで指定できます。`);
+  }
+  const invalidCategory = categories.find(category => !CATEGORY_PATTERN.test(category));
+  if (invalidCategory) {
+    throw new SearchCriteriaError(`カテゴリの形式が不正です: "${invalidCategory}" (例: cs.AI, hep-th)`);
+  }
+
+  if (criteria.from && !isValidDateString(criteria.from)) {
+    throw new SearchCriteriaError(`開始日の形式が不正です: "${criteria.from}" (YYYY-MM-DD)`);
+  }
+  if (criteria.to && !isValidDateString(criteria.to)) {
+    throw new SearchCriteriaError(`終了日の形式が不正です: "${criteria.to}" (YYYY-MM-DD)`);
+  }
+  if (criteria.from && criteria.to && criteria.from > criteria.to) {
+    throw new SearchCriteriaError('開始日が終了日より後になっています。');
+  }
+
+  const hasTextCondition = TEXT_FIELDS.some(field => {
+    const value = criteria[field.key];
+    return value ? compileTextField(field.prefix, value) !== null : false;
+  });
+  if (criteria.operator === 'OR' && !hasTextCondition) {
+    throw new SearchCriteriaError('OR 検索にはキーワード・タイトル・著者・Abstractのいずれかが必要です。');
+  }
+  if (criteria.exclude && tokenizeSearchText(criteria.exclude).length > 0 && !hasSearchCriteria(criteria)) {
+    throw new SearchCriteriaError('除外キーワードだけでは検索できません。検索条件を追加してください。');
+  }
+}
+
+/** 除外キーワード以外の検索条件が指定されているか */
+export function hasSearchCriteria(criteria: PaperSearchCriteria): boolean {
+  return hasTextCriteria(criteria) || (criteria.categories?.length ?? 0) > 0 || Boolean(criteria.from || criteria.to);
+}
+
+/** キーワード系 (関連度順で並べるべき) 条件を含むか */
+export function hasTextCriteria(criteria: PaperSearchCriteria): boolean {
+  return TEXT_FIELDS.some(field => Boolean(criteria[field.key]));
+}
+
+/**
+ * URLSearchParams から検索条件を組み立てて検証する。
+ * category は複数回指定 (?category=cs.AI&category=cs.LG) とカンマ区切りの両方に対応する。
+ */
+export function parseSearchCriteria(params: URLSearchParams): PaperSearchCriteria {
+  const categories = [...params.getAll('category'), ...params.getAll('category[]')]
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(Boolean);
+  const operatorRaw = normalizeText(params.get('operator'));
+
+  const criteria: PaperSearchCriteria = {
+    query: normalizeText(params.get('query')),
+    title: normalizeText(params.get('title')),
+    author: normalizeText(params.get('author')),
+    abstract: normalizeText(params.get('abstract')),
+    categories: categories.length > 0 ? Array.from(new Set(categories)) : undefined,
+    from: normalizeText(params.get('from')),
+    to: normalizeText(params.get('to')),
+    operator: operatorRaw ? (operatorRaw.toUpperCase() as SearchOperator) : undefined,
+    exclude: normalizeText(params.get('exclude')),
+  };
+  validateSearchCriteria(criteria);
+  return criteria;
+}
+
+function toArxivDate(value: string, endOfDay: boolean): string {
+  return `${value.replace(/-/g, '')}${endOfDay ? '2359' : '0000'}`;
+}
+
+/**
+ * 検索条件を arXiv API の search_query 文字列に変換する。
+ * 条件が何も無い場合は null を返す (呼び出し側でデフォルトのカテゴリを使う)。
+ */
+export function compileArxivQuery(criteria: PaperSearchCriteria): string | null {
+  const textClauses = TEXT_FIELDS
+    .map(field => {
+      const value = criteria[field.key];
+      return value ? compileTextField(field.prefix, value) : null;
+    })
+    .filter((clause): clause is string => clause !== null);
+
+  const parts: string[] = [];
+  if (textClauses.length > 0) {
+    const operator = criteria.operator ?? 'AND';
+    parts.push(textClauses.length === 1 ? textClauses[0] : `(${textClauses.join(` ${operator} `)})`);
+  }
+
+  const categories = criteria.categories ?? [];
+  if (categories.length > 0) {
+    const categoryClauses = categories.map(category => `cat:${category}`);
+    parts.push(categoryClauses.length === 1 ? categoryClauses[0] : `(${categoryClauses.join(' OR ')})`);
+  }
+
+  if (criteria.from || criteria.to) {
+    const from = criteria.from ? toArxivDate(criteria.from, false) : `${ARXIV_EPOCH}0000`;
+    const to = criteria.to ? toArxivDate(criteria.to, true) : toArxivDate(new Date().toISOString().slice(0, 10), true);
+    parts.push(`submittedDate:[${from} TO ${to}]`);
+  }
+
+  if (parts.length === 0) return null;
+
+  let compiled = parts.join(' AND ');
+  const excludeTokens = criteria.exclude ? tokenizeSearchText(criteria.exclude) : [];
+  for (const token of excludeTokens) {
+    compiled = `${compiled} ANDNOT ${formatFieldTerm('all', token)}`;
+  }
+  return compiled;
+}
+
+/**
+ * 検索条件をクライアントから /api/papers に渡すクエリパラメータに変換する。
+ */
+export function searchCriteriaToParams(criteria: PaperSearchCriteria): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const field of TEXT_FIELDS) {
+    const value = normalizeText(criteria[field.key]);
+    if (value) params.set(field.key, value);
+  }
+  for (const category of criteria.categories ?? []) {
+    params.append('category', category);
+  }
+  if (criteria.from) params.set('from', criteria.from);
+  if (criteria.to) params.set('to', criteria.to);
+  if (criteria.operator && criteria.operator !== 'AND') params.set('operator', criteria.operator);
+  const exclude = normalizeText(criteria.exclude);
+  if (exclude) params.set('exclude', exclude);
+  return params;
+}
+
+/**
+ * 画面表示用に検索条件を短い文字列にまとめる (例: "transformer / 著者: Hinton / cs.AI")。
+ */
+export function describeSearchCriteria(criteria: PaperSearchCriteria): string {
+  const textParts = TEXT_FIELDS
+    .filter(field => Boolean(criteria[field.key]))
+    .map(field => (field.key === 'query' ? criteria[field.key] : `${field.label}: ${criteria[field.key]}`));
+  const parts: string[] = [];
+  if (textParts.length > 0) {
+    parts.push(textParts.join(criteria.operator === 'OR' ? ' OR ' : ' / '));
+  }
+  if (criteria.categories && criteria.categories.length > 0) {
+    parts.push(criteria.categories.join(' | '));
+  }
+  if (criteria.from || criteria.to) {
+    parts.push(`${criteria.from ?? ''}〜${criteria.to ?? ''}`);
+  }
+  if (criteria.exclude) {
+    parts.push(`除外: ${criteria.exclude}`);
+  }
+  return parts.join(' / ');
+}
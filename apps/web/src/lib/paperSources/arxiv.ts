@@ -0,0 +1,232 @@
+// apps/web/src/lib/paperSources/arxiv.ts
+import { XMLParser, X2jOptions } from 'fast-xml-parser';
+import { compileArxivQuery, hasTextCriteria, type PaperSearchCriteria } from '@/lib/paperSearch';
+import { PaperSourceError, type PaperSearchOptions, type PaperSource, type PaperSummary } from './types';
+import { cleanMarkup } from './markup';
+
+interface ArxivLinkAttribute {
+  '@_href'?: string;
+  '@_rel'?: string;
+  '@_title'?: string;
+  '@_type'?: string;
+}
+
+interface ArxivAuthor {
+  name?: string;
+  'arxiv:affiliation'?: string;
+}
+
+interface ArxivCategoryAttribute {
+  '@_term'?: string;
+  '@_scheme'?: string;
+}
+
+interface ArxivEntry {
+  id?: string;
+  updated?: string;
+  published?: string;
+  title?: string;
+  summary?: string;
+  author?: ArxivAuthor | ArxivAuthor[];
+  link?: ArxivLinkAttribute | ArxivLinkAttribute[];
+  category?: ArxivCategoryAttribute | ArxivCategoryAttribute[];
+  'arxiv:comment'?: string | number;
+  'arxiv:primary_category'?: ArxivCategoryAttribute;
+  'arxiv:doi'?: string;
+  'arxiv:journal_ref'?: string | number;
+}
+
+interface ArxivFeed {
+  entry?: ArxivEntry | ArxivEntry[];
+  title?: string;
+  id?: string;
+  updated?: string;
+  link?: ArxivLinkAttribute[];
+  'opensearch:totalResults'?: number | { '#text'?: number }; // xmlns 属性付きで返るためオブジェクトになることがある
+  'opensearch:startIndex'?: number;
+  'opensearch:itemsPerPage'?: number;
+}
+
+interface ArxivRawData {
+  feed?: ArxivFeed;
+}
+
+const parserOptions: Partial<X2jOptions> = {
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseAttributeValue: true,
+  parseTagValue: true,
+  trimValues: true,
+};
+
+function isArxivRawData(data: unknown): data is ArxivRawData {
+  if (typeof data !== 'object' || data === null) {
+    console.error('Type guard failed: Parsed data is not an object or is null.');
+    return false;
+  }
+  return true;
+}
+
+// parseTagValue により "12" のようなコメントは数値になるので文字列に戻す
+function optionalText(value: unknown): string | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const text = String(value).trim().replace(/\s\s+/g, ' ');
+  return text || undefined;
+}
+
+const ARXIV_API_URL = 'http://export.arxiv.org/api/query';
+const DEFAULT_CATEGORY = 'cat:cs.AI';
+// 新形式 (2401.12345) と旧形式 (hep-th/9901001) の arXiv ID
+const ARXIV_ID_PATTERN = /^(\d{4}\.\d{4,5}|[a-z-]+(\.[A-Z]{2})?\/\d{7})(v\d+)?$/;
+
+function transformEntryToPaperSummary(entryItem: ArxivEntry): PaperSummary | null {
+    if (!entryItem) return null;
+
+    const idUrl = typeof entryItem.id === 'string' ? entryItem.id : undefined;
+    let arxivId: string | undefined;
+    if (idUrl) { const match = idUrl.match(/\/abs\/([^v]+)/); arxivId = match?.[1]; }
+    if (!arxivId) { console.warn('API: Could not extract valid arXiv ID from:', idUrl ?? 'N/A', '. Skipping entry.'); return null; }
+
+    let pdfLink: string = '';
+    const entryLinks = Array.isArray(entryItem.link) ? entryItem.link : (entryItem.link ? [entryItem.link] : []);
+    const pdfEntry = entryLinks.find(
+        (link): link is { '@_title': 'pdf', '@_href': string } =>
+        link !== null && typeof link === 'object' && '@_title' in link && link['@_title'] === 'pdf' && typeof link['@_href'] === 'string'
+    );
+    pdfLink = pdfEntry?.['@_href'] ?? '';
+
+    if (!pdfLink && idUrl?.includes('/abs/')) {
+        const potentialPdfLink = idUrl.replace('/abs/', '/pdf/') + '.pdf';
+        if (potentialPdfLink.startsWith('http://') || potentialPdfLink.startsWith('https://')) {
+            pdfLink = potentialPdfLink;
+        }
+    }
+    if (!pdfLink) { console.warn(`API: Could not find or generate PDF link for entry ID: ${arxivId}`); }
+
+    let authors: string[] = [];
+    const authorList = Array.isArray(entryItem.author) ? entryItem.author : (entryItem.author ? [entryItem.author] : []);
+    authors = authorList
+        .map((auth) => (auth && typeof auth.name === 'string' ? auth.name.trim() : null))
+        .filter((name): name is string => name !== null && name.length > 0);
+
+    let categories: string[] = [];
+    const categoryList = Array.isArray(entryItem.category) ? entryItem.category : (entryItem.category ? [entryItem.category] : []);
+    categories = categoryList
+        .map((cat) => (cat && typeof cat['@_term'] === 'string' ? cat['@_term'] : null))
+        .filter((term): term is string => term !== null && term.length > 0);
+
+    const title = (typeof entryItem.title === 'string' ? cleanMarkup(entryItem.title) : undefined) || 'タイトルなし';
+    const summaryRaw = typeof entryItem.summary === 'string' ? cleanMarkup(entryItem.summary) : undefined;
+    const summary = summaryRaw || '要約なし';
+    const published = (typeof entryItem.published === 'string' ? entryItem.published : undefined) ?? '';
+    const updated = (typeof entryItem.updated === 'string' ? entryItem.updated : undefined) ?? '';
+    
+    return {
+        id: arxivId,
+        title,
+        summary,
+        authors,
+        published,
+        updated,
+        pdfLink: pdfLink,
+        categories,
+        source: 'arxiv',
+        doi: typeof entryItem['arxiv:doi'] === 'string' ? entryItem['arxiv:doi'] : undefined,
+        journalRef: optionalText(entryItem['arxiv:journal_ref']),
+        comment: optionalText(entryItem['arxiv:comment']),
+    };
+}
+
+// entryCount は変換できなかったエントリも含めたフィードの件数
+interface ArxivFeedPage {
+  papers: PaperSummary[];
+  entryCount: number;
+  totalResults?: number;
+}
+
+async function fetchArxivFeed(queryParams: URLSearchParams, revalidate: number): Promise<ArxivFeedPage> {
+    const url = `${ARXIV_API_URL}?${queryParams.toString()}`;
+    console.log(`arXiv source: Constructed arXiv API URL: ${url}`);
+
+    const response = await fetch(url, {
+        next: { revalidate }
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`arXiv source: Failed to fetch papers from arXiv: ${response.status} ${response.statusText}`, { url, errorText });
+      throw new PaperSourceError(`arXiv API Error: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    const xmlData = await response.text();
+    const parser = new XMLParser(parserOptions);
+    const parsedData: unknown = parser.parse(xmlData);
+
+    if (!isArxivRawData(parsedData) || !parsedData.feed) {
+      console.error('arXiv source: Parsed XML data does not match expected structure or feed is missing. Data:', JSON.stringify(parsedData, null, 2));
+      throw new PaperSourceError('Failed to parse arXiv data. Unexpected format received.', 500);
+    }
+
+    const totalRaw = parsedData.feed['opensearch:totalResults'];
+    const totalResults = Number(typeof totalRaw === 'object' ? totalRaw['#text'] : totalRaw);
+    const entriesRaw = parsedData.feed.entry;
+    const entriesArray: ArxivEntry[] = Array.isArray(entriesRaw) ? entriesRaw : (entriesRaw ? [entriesRaw] : []);
+    if (entriesArray.length === 0) {
+        console.log('arXiv source: No entries found in feed.');
+    }
+    const papers = entriesArray
+        .map(transformEntryToPaperSummary)
+        .filter((paper): paper is PaperSummary => paper !== null);
+    return { papers, entryCount: entriesArray.length, totalResults: Number.isFinite(totalResults) ? totalResults : undefined };
+}
+
+export const arxivSource: PaperSource = {
+  id: 'arxiv',
+  label: 'arXiv',
+
+  async search(criteria: PaperSearchCriteria, { start, maxResults }: PaperSearchOptions) {
+    const compiledQuery = compileArxivQuery(criteria);
+    let searchQueryValue: string;
+    let sortByValue: 'submittedDate' | 'relevance' = 'submittedDate';
+
+    if (compiledQuery) {
+      searchQueryValue = compiledQuery;
+      // キーワード条件がある場合は関連度順、カテゴリや期間だけの場合は新着順
+      if (hasTextCriteria(criteria)) sortByValue = 'relevance';
+      console.log(`arXiv source: Fetching papers with structured query: "${searchQueryValue}", sortBy: ${sortByValue}, start: ${start}, max_results: ${maxResults}`);
+    } else {
+      searchQueryValue = DEFAULT_CATEGORY;
+      console.log(`arXiv source: Fetching papers with default category: "${searchQueryValue}", sortBy: ${sortByValue}, start: ${start}, max_results: ${maxResults}`);
+    }
+
+    const queryParams = new URLSearchParams({
+      search_query: searchQueryValue,
+      sortBy: sortByValue,
+      sortOrder: 'descending',
+      start: String(start),
+      max_results: String(maxResults),
+    });
+    const { papers, entryCount, totalResults } = await fetchArxivFeed(queryParams, compiledQuery ? 600 : 3600);
+    return {
+      papers,
+      consumed: entryCount,
+      exhausted: totalResults !== undefined ? start + entryCount >= totalResults : entryCount < maxResults,
+    };
+  },
+
+  async fetchByIds(ids: string[]) {
+    // 形式が不正なIDが1つでもあると arXiv API 全体がエラーになるため事前に除外する
+    const validIds = ids.filter(id => ARXIV_ID_PATTERN.test(id));
+    if (validIds.length < ids.length) {
+      console.warn(`arXiv source: Skipping ${ids.length - validIds.length} malformed arXiv IDs.`);
+    }
+    if (validIds.length === 0) return [];
+    // バージョン付きID (2401.12345v2) もそのまま id_list に渡せる
+    const queryParams = new URLSearchParams({
+      id_list: validIds.join(','),
+      max_results: String(validIds.length),
+    });
+    console.log(`arXiv source: Fetching ${validIds.length} papers by id_list.`);
+    return (await fetchArxivFeed(queryParams, 3600)).papers;
+  },
+};
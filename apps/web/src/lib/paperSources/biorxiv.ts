@@ -0,0 +1,128 @@
+// apps/web/src/lib/paperSources/biorxiv.ts
+// bioRxiv / medRxiv (https://api.biorxiv.org) のプロバイダ。
+// この API にはキーワード検索が無いため、期間内の新着を取得してローカルで条件を適用する。
+import type { PaperSearchCriteria } from '@/lib/paperSearch';
+import { matchesSearchCriteria } from './filtering';
+import { fetchSourceJson } from './http';
+import { buildPaperId } from './catalog';
+import { cleanMarkup } from './markup';
+import { PaperSourceError, type PaperSearchOptions, type PaperSource, type PaperSummary } from './types';
+
+interface BiorxivRecord {
+  doi?: string;
+  title?: string;
+  authors?: string;
+  date?: string;
+  version?: string | number;
+  category?: string;
+  abstract?: string;
+  server?: string;
+}
+
+interface BiorxivResponse {
+  messages?: { status?: string; total?: number | string; count?: number }[];
+  collection?: BiorxivRecord[];
+}
+
+const BIORXIV_API_URL = 'https://api.biorxiv.org/details';
+const BIORXIV_DOI_PREFIX = '10.1101/';
+const PAGE_SIZE = 100; // API が1リクエストで返す件数
+const MAX_PAGES_PER_SEARCH = 5; // ローカルフィルタのために遡るページ数の上限
+const DEFAULT_INTERVAL_DAYS = 30;
+
+function normalizeCategory(category: string): string {
+  return category.trim().toLowerCase().replace(/\s+/g, '_');
+}
+
+function transformRecord(server: 'biorxiv' | 'medrxiv', record: BiorxivRecord): PaperSummary | null {
+  if (!record.doi || !record.doi.startsWith(BIORXIV_DOI_PREFIX) || !record.title) return null;
+  const suffix = record.doi.slice(BIORXIV_DOI_PREFIX.length);
+  const version = record.version ? String(record.version) : '1';
+  const date = record.date ?? '';
+  return {
+    id: buildPaperId(server, suffix),
+    title: cleanMarkup(record.title),
+    summary: (record.abstract && cleanMarkup(record.abstract)) || '要約なし',
+    authors: (record.authors ?? '').split(';').map(author => author.trim()).filter(Boolean),
+    published: date,
+    updated: date,
+    pdfLink: `https://www.${server}.org/content/${record.doi}v${version}.full.pdf`,
+    categories: record.category ? [normalizeCategory(record.category)] : [],
+    source: server,
+    doi: record.doi,
+  };
+}
+
+function resolveInterval(criteria: PaperSearchCriteria): string {
+  if (criteria.from || criteria.to) {
+    const today = new Date().toISOString().slice(0, 10);
+    return `${criteria.from ?? '2013-11-01'}/${criteria.to ?? today}`;
+  }
+  return `${DEFAULT_INTERVAL_DAYS}d`;
+}
+
+export function createBiorxivSource(server: 'biorxiv' | 'medrxiv'): PaperSource {
+  const label = server === 'biorxiv' ? 'bioRxiv' : 'medRxiv';
+
+  const fetchPage = async (interval: string, cursor: number, category?: string) => {
+    const query = category ? `?category=${encodeURIComponent(category)}` : '';
+    return fetchSourceJson<BiorxivResponse>(label, `${BIORXIV_API_URL}/${server}/${interval}/${cursor}/json${query}`, 1800);
+  };
+
+  return {
+    id: server,
+    label,
+
+    async search(criteria: PaperSearchCriteria, { start, maxResults }: PaperSearchOptions) {
+      const interval = resolveInterval(criteria);
+      // API のカテゴリ絞り込みは1つだけ指定できる。複数指定時はローカルフィルタに任せる
+      const apiCategory = criteria.categories?.length === 1 ? criteria.categories[0].replace(/_/g, ' ') : undefined;
+
+      const firstPage = await fetchPage(interval, 0, apiCategory);
+      const total = Number(firstPage.messages?.[0]?.total ?? 0);
+      if (!total) {
+        console.log(`${label} source: No records in interval ${interval}.`);
+        return { papers: [], consumed: 0, exhausted: true };
+      }
+
+      // API は古い順に返すため、末尾のページから遡って新しい順に集める。start は新しい順に数えて読み終えたレコード数
+      const matched: PaperSummary[] = [];
+      let scanned = start;
+      let reachedEnd = scanned >= total;
+      for (let page = 0; page < MAX_PAGES_PER_SEARCH && !reachedEnd && matched.length < maxResults; page++) {
+        const end = total - scanned;
+        const cursor = Math.max(0, end - PAGE_SIZE);
+        const response = cursor === 0 ? firstPage : await fetchPage(interval, cursor, apiCategory);
+        const records = (response.collection ?? []).slice(0, end - cursor).reverse();
+        for (const record of records) {
+          scanned++;
+          const paper = transformRecord(server, record);
+          if (paper && matchesSearchCriteria(paper, criteria)) matched.push(paper);
+          if (matched.length >= maxResults) break;
+        }
+        // 空のページが返った場合も、それ以上は遡れない
+        reachedEnd = scanned >= total || records.length === 0;
+      }
+      console.log(`${label} source: ${matched.length} records matched the criteria after scanning ${scanned - start} records (interval ${interval}).`);
+      return { papers: matched, consumed: scanned - start, exhausted: reachedEnd };
+    },
+
+    async fetchByIds(ids: string[]) {
+      const results = await Promise.all(ids.map(async (suffix) => {
+        try {
+          const response = await fetchSourceJson<BiorxivResponse>(label, `${BIORXIV_API_URL}/${server}/${BIORXIV_DOI_PREFIX}${suffix}/na/json`, 3600);
+          const versions = response.collection ?? [];
+          // 複数バージョンがある場合は最新版を使い、初版の日付を published とする
+          const latest = versions[versions.length - 1];
+          const paper = latest ? transformRecord(server, latest) : null;
+          if (paper && versions[0]?.date) paper.published = versions[0].date;
+          return paper;
+        } catch (error) {
+          if (error instanceof PaperSourceError && error.status === 404) return null;
+          throw error;
+        }
+      }));
+      return results.filter((paper): paper is PaperSummary => paper !== null);
+    },
+  };
+}
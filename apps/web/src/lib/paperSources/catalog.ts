@@ -0,0 +1,41 @@
+// apps/web/src/lib/paperSources/catalog.ts
+// クライアントからも参照する論文ソースの一覧 (サーバー専用の実装は含めない)
+
+export const PAPER_SOURCE_CATALOG = [
+  { id: 'arxiv', label: 'arXiv' },
+  { id: 'biorxiv', label: 'bioRxiv' },
+  { id: 'medrxiv', label: 'medRxiv' },
+  { id: 'openalex', label: 'OpenAlex' },
+  { id: 'pubmed', label: 'PubMed' },
+  { id: 'fixture', label: 'ローカル (オフライン)' },
+] as const;
+
+export type PaperSourceId = (typeof PAPER_SOURCE_CATALOG)[number]['id'];
+
+export const DEFAULT_PAPER_SOURCE_ID: PaperSourceId = 'arxiv';
+
+export function isPaperSourceId(value: string): value is PaperSourceId {
+  return PAPER_SOURCE_CATALOG.some(source => source.id === value);
+}
+
+export function getPaperSourceLabel(id: string | undefined): string {
+  return PAPER_SOURCE_CATALOG.find(source => source.id === id)?.label ?? 'arXiv';
+}
+
+/**
+ * 論文IDからソースを判定する。"openalex:W123" のような前置詞が無いIDは arXiv とみなす。
+ */
+export function splitPaperId(paperId: string): { source: PaperSourceId; localId: string } {
+  const separatorIndex = paperId.indexOf(':');
+  if (separatorIndex > 0) {
+    const prefix = paperId.slice(0, separatorIndex);
+    if (isPaperSourceId(prefix)) {
+      return { source: prefix, localId: paperId.slice(separatorIndex + 1) };
+    }
+  }
+  return { source: DEFAULT_PAPER_SOURCE_ID, localId: paperId };
+}
+
+export function buildPaperId(source: PaperSourceId, localId: string): string {
+  return source === DEFAULT_PAPER_SOURCE_ID ? localId : `${source}:${localId}`;
+}
@@ -0,0 +1,91 @@
+// apps/web/src/lib/paperSources/filtering.ts
+// 検索APIを持たない (または条件の一部しか解釈できない) ソース向けに、
+// 取得済みの論文へ検索条件をローカルで適用するヘルパー。
+import { parseSearchExpression, tokenizeSearchText, type PaperSearchCriteria, type SearchExpression } from '@/lib/paperSearch';
+import type { PaperSummary } from './types';
+
+type TextField = 'all' | 'title' | 'author' | 'abstract';
+
+function fieldText(paper: PaperSummary, field: TextField): string {
+  switch (field) {
+    case 'title': return paper.title.toLowerCase();
+    case 'author': return paper.authors.join(' ').toLowerCase();
+    case 'abstract': return paper.summary.toLowerCase();
+    default: return `${paper.title} ${paper.summary} ${paper.authors.join(' ')} ${paper.categories.join(' ')}`.toLowerCase();
+  }
+}
+
+const EXPLICIT_FIELD_MAP: Record<string, TextField> = { all: 'all', ti: 'title', au: 'author', abs: 'abstract' };
+
+function tokenMatches(paper: PaperSummary, field: TextField, token: string): boolean {
+  let targetField = field;
+  let term = token;
+  const explicitField = token.match(/^([a-z]+):(.+)$/);
+  if (field === 'all' && explicitField && EXPLICIT_FIELD_MAP[explicitField[1]]) {
+    targetField = EXPLICIT_FIELD_MAP[explicitField[1]];
+    term = explicitField[2];
+  }
+  const needle = term.replace(/"/g, '').toLowerCase();
+  return needle === '' || fieldText(paper, targetField).includes(needle);
+}
+
+function expressionMatches(expression: SearchExpression, termMatches: (term: string) => boolean): boolean {
+  if (expression.type === 'term') return termMatches(expression.term);
+  const left = expressionMatches(expression.left, termMatches);
+  const right = expressionMatches(expression.right, termMatches);
+  switch (expression.operator) {
+    case 'OR': return left || right;
+    case 'ANDNOT': return left && !right;
+    default: return left && right;
+  }
+}
+
+function textFieldMatches(paper: PaperSummary, field: TextField, value: string | undefined): boolean | null {
+  if (!value) return null;
+  if (field === 'author') {
+    const names = value.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+    return names.every(name => fieldText(paper, 'author').includes(name));
+  }
+  const expression = parseSearchExpression(value);
+  return expression ? expressionMatches(expression, token => tokenMatches(paper, field, token)) : true;
+}
+
+/**
+ * 論文が検索条件に一致するかを判定する (compileArxivQuery と同じ意味論)。
+ */
+export function matchesSearchCriteria(paper: PaperSummary, criteria: PaperSearchCriteria): boolean {
+  const textResults = [
+    textFieldMatches(paper, 'all', criteria.query),
+    textFieldMatches(paper, 'title', criteria.title),
+    textFieldMatches(paper, 'author', criteria.author),
+    textFieldMatches(paper, 'abstract', criteria.abstract),
+  ].filter((result): result is boolean => result !== null);
+
+  if (textResults.length > 0) {
+    const textMatched = criteria.operator === 'OR' ? textResults.some(Boolean) : textResults.every(Boolean);
+    if (!textMatched) return false;
+  }
+
+  const categories = criteria.categories ?? [];
+  if (categories.length > 0) {
+    const paperCategories = paper.categories.map(category => category.toLowerCase());
+    if (!categories.some(category => paperCategories.includes(category.toLowerCase()))) return false;
+  }
+
+  const publishedDate = paper.published.slice(0, 10);
+  if (criteria.from && (!publishedDate || publishedDate < criteria.from)) return false;
+  if (criteria.to && (!publishedDate || publishedDate > criteria.to)) return false;
+
+  if (criteria.exclude) {
+    const excluded = tokenizeSearchText(criteria.exclude).some(token => tokenMatches(paper, 'all', token));
+    if (excluded) return false;
+  }
+  return true;
+}
+
+/** 除外キーワードのみをローカルで適用する (検索APIが NOT をサポートしないソース用) */
+export function applyExcludeFilter(papers: PaperSummary[], criteria: PaperSearchCriteria): PaperSummary[] {
+  if (!criteria.exclude) return papers;
+  const tokens = tokenizeSearchText(criteria.exclude);
+  return papers.filter(paper => !tokens.some(token => tokenMatches(paper, 'all', token)));
+}
@@ -0,0 +1,34 @@
+// apps/web/src/lib/paperSources/fixture.ts
+// ネットワークに接続せずに検索〜表示の流れを確認するためのローカルプロバイダ。
+import { hasTextCriteria, type PaperSearchCriteria } from '@/lib/paperSearch';
+import { matchesSearchCriteria } from './filtering';
+import { buildPaperId } from './catalog';
+import type { PaperSearchOptions, PaperSource, PaperSummary } from './types';
+import fixturePapers from './fixtures/papers.json';
+
+const FIXTURE_PAPERS: PaperSummary[] = fixturePapers.map(paper => ({
+  ...paper,
+  id: buildPaperId('fixture', paper.id),
+  source: 'fixture',
+}));
+
+export const fixtureSource: PaperSource = {
+  id: 'fixture',
+  label: 'ローカル (オフライン)',
+
+  async search(criteria: PaperSearchCriteria, { start, maxResults }: PaperSearchOptions) {
+    const matched = FIXTURE_PAPERS.filter(paper => matchesSearchCriteria(paper, criteria));
+    // キーワード検索でなければ arXiv のデフォルトフィードと同じく新しい順
+    if (!hasTextCriteria(criteria)) {
+      matched.sort((a, b) => b.published.localeCompare(a.published));
+    }
+    console.log(`Fixture source: ${matched.length} papers matched, returning from ${start}.`);
+    const papers = matched.slice(start, start + maxResults);
+    return { papers, consumed: papers.length, exhausted: start + maxResults >= matched.length };
+  },
+
+  async fetchByIds(ids: string[]) {
+    const wanted = new Set(ids.map(id => buildPaperId('fixture', id)));
+    return FIXTURE_PAPERS.filter(paper => wanted.has(paper.id));
+  },
+};
@@ -0,0 +1,31 @@
+// apps/web/src/lib/paperSources/http.ts
+import { PaperSourceError } from './types';
+
+/**
+ * 外部APIを呼び出してレスポンス本文を返す。失敗時は PaperSourceError を投げる。
+ * revalidate は Next.js の fetch キャッシュ (秒)。
+ */
+export async function fetchSourceText(sourceLabel: string, url: string, revalidate: number): Promise<string> {
+  console.log(`${sourceLabel} source: Requesting ${url}`);
+  const response = await fetch(url, {
+    next: { revalidate },
+    headers: { 'User-Agent': 'Kiga-ers (paper discovery app)' },
+  });
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    console.error(`${sourceLabel} source: Request failed: ${response.status} ${response.statusText}`, { url, errorText });
+    // 404 は「見つからない」として呼び出し側で扱えるようにそのまま返す
+    throw new PaperSourceError(`${sourceLabel} API Error: ${response.status} ${response.statusText}`, response.status === 404 ? 404 : 502);
+  }
+  return response.text();
+}
+
+export async function fetchSourceJson<T>(sourceLabel: string, url: string, revalidate: number): Promise<T> {
+  const text = await fetchSourceText(sourceLabel, url, revalidate);
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    console.error(`${sourceLabel} source: Failed to parse JSON response.`, error);
+    throw new PaperSourceError(`${sourceLabel} API returned malformed JSON.`, 502);
+  }
+}
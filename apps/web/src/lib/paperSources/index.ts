@@ -0,0 +1,176 @@
+// apps/web/src/lib/paperSources/index.ts
+// 論文ソースのレジストリと、複数ソースを1つのフィードにまとめる処理。
+import type { PaperSearchCriteria } from '@/lib/paperSearch';
+import { arxivSource } from './arxiv';
+import { createBiorxivSource } from './biorxiv';
+import { openAlexSource } from './openalex';
+import { pubmedSource } from './pubmed';
+import { fixtureSource } from './fixture';
+import { DEFAULT_PAPER_SOURCE_ID, isPaperSourceId, splitPaperId, type PaperSourceId } from './catalog';
+import { PaperSourceError, type PaperSearchOptions, type PaperSource, type PaperSummary } from './types';
+
+export { PaperSourceError } from './types';
+export type { PaperSource, PaperSummary } from './types';
+
+const PAPER_SOURCES: Record<PaperSourceId, PaperSource> = {
+  arxiv: arxivSource,
+  biorxiv: createBiorxivSource('biorxiv'),
+  medrxiv: createBiorxivSource('medrxiv'),
+  openalex: openAlexSource,
+  pubmed: pubmedSource,
+  fixture: fixtureSource,
+};
+
+/**
+ * source パラメータ (カンマ区切り・複数指定可) を解決する。
+ * 未指定の場合は環境変数 PAPER_SOURCES (例: "fixture" でオフライン動作) か arXiv を使う。
+ */
+export function resolvePaperSources(values: string[]): PaperSource[] {
+  const requested = values.flatMap(value => value.split(',')).map(value => value.trim().toLowerCase()).filter(Boolean);
+  const ids = requested.length > 0
+    ? requested
+    : (process.env.PAPER_SOURCES ?? DEFAULT_PAPER_SOURCE_ID).split(',').map(value => value.trim()).filter(Boolean);
+
+  const unknown = ids.filter(id => !isPaperSourceId(id));
+  if (unknown.length > 0) {
+    throw new PaperSourceError(`不明な論文ソースです: ${unknown.join(', ')}`, 400);
+  }
+  return Array.from(new Set(ids as PaperSourceId[])).map(id => PAPER_SOURCES[id]);
+}
+
+// 検索結果の1ページ分
+export interface PaperSearchPage {
+  papers: PaperSummary[];
+  hasMore: boolean; // どれかのソースにまだ続きがある
+  cursor: string | null; // 次のページを取得する時に渡す (続きが無ければ null)
+}
+
+// 次のページの位置はソースごとのオフセットで表す ("arxiv:12,openalex:8")。取り尽くしたソースは含めない
+function serializeSourceOffsets(offsets: Map<PaperSourceId, number>): string | null {
+  if (offsets.size === 0) return null;
+  return Array.from(offsets.entries()).map(([sourceId, offset]) => `${sourceId}:${offset}`).join(',');
+}
+
+function parseSourceOffsets(cursor: string, sources: PaperSource[]): Map<PaperSourceId, number> {
+  const offsets = new Map<PaperSourceId, number>();
+  for (const entry of cursor.split(',').filter(Boolean)) {
+    const match = entry.match(/^([a-z]+):(\d+)$/);
+    const sourceId = match?.[1];
+    if (!match || !sourceId || !isPaperSourceId(sourceId) || !sources.some(source => source.id === sourceId)) {
+      throw new PaperSourceError('cursor の形式が正しくありません。', 400);
+    }
+    offsets.set(sourceId, Number(match[2]));
+  }
+  return offsets;
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+// 同じ論文が複数のソースに存在する場合 (arXiv と OpenAlex など) は先に現れた方を残す
+function dedupePapers(papers: PaperSummary[]): PaperSummary[] {
+  const seenKeys = new Set<string>();
+  return papers.filter(paper => {
+    const keys = [paper.id, paper.doi ? `doi:${paper.doi.toLowerCase()}` : null, `title:${normalizeTitle(paper.title)}`]
+      .filter((key): key is string => key !== null);
+    if (keys.some(key => seenKeys.has(key))) return false;
+    keys.forEach(key => seenKeys.add(key));
+    return true;
+  });
+}
+
+// 各ソースの結果を交互に並べて、特定のソースにフィードが偏らないようにする
+function interleave(lists: PaperSummary[][]): PaperSummary[] {
+  const merged: PaperSummary[] = [];
+  const longest = Math.max(0, ...lists.map(list => list.length));
+  for (let i = 0; i < longest; i++) {
+    for (const list of lists) {
+      if (i < list.length) merged.push(list[i]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * 1つ以上のソースで検索してフィードを作る。
+ * maxResults は続きのあるソースで分け合い、各ソースは自分のオフセットから取得する (結果を切り捨てないので、ページ間で重複・欠落しない)。
+ * cursor を省略した場合は start から始める (複数ソースの場合は start をソース数で等分する)。
+ * 一部のソースが失敗しても他の結果は返し (失敗したソースは次のページで同じ位置から取得し直す)、全て失敗した場合のみエラーにする。
+ */
+export async function searchPaperSources(
+  sources: PaperSource[],
+  criteria: PaperSearchCriteria,
+  { start, maxResults }: PaperSearchOptions,
+  cursor?: string | null,
+): Promise<PaperSearchPage> {
+  const offsets = cursor
+    ? parseSourceOffsets(cursor, sources)
+    : new Map(sources.map(source => [source.id, Math.floor(start / sources.length)]));
+  const activeSources = sources.filter(source => offsets.has(source.id));
+  if (activeSources.length === 0) return { papers: [], hasMore: false, cursor: null };
+
+  // 割り切れない分は先頭のソースから1件ずつ多く取得する
+  const requests = activeSources.map((source, index) => ({
+    source,
+    start: offsets.get(source.id)!,
+    maxResults: Math.max(1, Math.floor(maxResults / activeSources.length) + (index < maxResults % activeSources.length ? 1 : 0)),
+  }));
+  const settled = await Promise.allSettled(requests.map(({ source, ...options }) => source.search(criteria, options)));
+  const lists: PaperSummary[][] = [];
+  const errors: unknown[] = [];
+  const nextOffsets = new Map<PaperSourceId, number>();
+  settled.forEach((result, index) => {
+    const { source, start: sourceStart } = requests[index];
+    if (result.status === 'fulfilled') {
+      lists.push(result.value.papers);
+      // 返した件数ではなく、ソースが実際に読み進めた件数だけ進める
+      if (!result.value.exhausted) nextOffsets.set(source.id, sourceStart + result.value.consumed);
+    } else {
+      console.error(`paperSources: Source "${source.id}" failed in merged feed:`, result.reason);
+      errors.push(result.reason);
+      nextOffsets.set(source.id, sourceStart);
+    }
+  });
+  if (lists.length === 0) {
+    throw errors[0] instanceof PaperSourceError ? errors[0] : new PaperSourceError('全ての論文ソースで取得に失敗しました。');
+  }
+  return {
+    papers: dedupePapers(interleave(lists)),
+    hasMore: nextOffsets.size > 0,
+    cursor: serializeSourceOffsets(nextOffsets),
+  };
+}
+
+/**
+ * 論文ID ("2401.12345", "openalex:W123", "pubmed:123" ...) の一覧を各ソースに振り分けて取得する。
+ * 返り値は入力の順序に揃え、見つからなかったIDは含めない。
+ * 一部のソースが失敗しても他のソースの論文は返し、全て失敗した場合のみエラーにする。
+ */
+export async function fetchPapersByIds(paperIds: string[]): Promise<PaperSummary[]> {
+  const idsBySource = new Map<PaperSourceId, string[]>();
+  for (const paperId of paperIds) {
+    const { source, localId } = splitPaperId(paperId);
+    idsBySource.set(source, [...(idsBySource.get(source) ?? []), localId]);
+  }
+
+  const entries = Array.from(idsBySource.entries());
+  const settled = await Promise.allSettled(entries.map(([sourceId, ids]) => PAPER_SOURCES[sourceId].fetchByIds(ids)));
+  const papers: PaperSummary[] = [];
+  const errors: unknown[] = [];
+  settled.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      papers.push(...result.value);
+    } else {
+      console.error(`paperSources: Source "${entries[index][0]}" failed to fetch ${entries[index][1].length} papers by id:`, result.reason);
+      errors.push(result.reason);
+    }
+  });
+  if (errors.length > 0 && errors.length === settled.length) {
+    throw errors[0] instanceof PaperSourceError ? errors[0] : new PaperSourceError('全ての論文ソースで取得に失敗しました。');
+  }
+  const order = new Map(paperIds.map((paperId, index) => [paperId, index]));
+  // バージョン付きIDやDOI指定で取得した論文は入力と一致しないので末尾に回す
+  const orderOf = (paper: PaperSummary) => order.get(paper.id) ?? paperIds.length;
+  return papers.sort((a, b) => orderOf(a) - orderOf(b));
+}
@@ -0,0 +1,22 @@
+// apps/web/src/lib/paperSources/markup.ts
+// 外部ソースのタイトル・Abstract に含まれる HTML/XML タグを、FormattedTextRenderer が扱える装飾タグだけに絞るヘルパー。
+
+// FormattedTextRenderer が HTML として描画する装飾タグ
+export const ALLOWED_MARKUP_TAG_PATTERN = /^<\/?(i|b|sup|sub)>$/;
+
+// タグ名 (jats:p のような名前空間付きも含む) の直後が空白・/・> のものだけをタグとみなす ("$a<b$ and $c>d$" のような数式は残す)
+const TAG_PATTERN = /<\/?[A-Za-z][A-Za-z0-9:-]*(\s[^<>]*)?\/?>/g;
+
+/**
+ * 許可した装飾タグ (i/b/sup/sub) 以外のタグを取り除き、空白を詰める。
+ * 取り除いた結果として新しいタグが組み上がらないよう、変化がなくなるまで繰り返す。
+ */
+export function cleanMarkup(text: string): string {
+  let cleaned = text;
+  let previous;
+  do {
+    previous = cleaned;
+    cleaned = cleaned.replace(TAG_PATTERN, tag => (ALLOWED_MARKUP_TAG_PATTERN.test(tag) ? tag : ''));
+  } while (cleaned !== previous);
+  return cleaned.trim().replace(/\s\s+/g, ' ');
+}
@@ -0,0 +1,163 @@
+// apps/web/src/lib/paperSources/openalex.ts
+// OpenAlex (https://api.openalex.org) のプロバイダ。
+import { formatSearchExpression, parseSearchExpression, type PaperSearchCriteria } from '@/lib/paperSearch';
+import { applyExcludeFilter } from './filtering';
+import { fetchSourceJson } from './http';
+import { buildPaperId } from './catalog';
+import { cleanMarkup } from './markup';
+import { PaperSourceError, type PaperSearchOptions, type PaperSource, type PaperSummary } from './types';
+
+interface OpenAlexWork {
+  id?: string;
+  doi?: string | null;
+  display_name?: string | null;
+  title?: string | null;
+  publication_date?: string | null;
+  updated_date?: string | null;
+  authorships?: { author?: { display_name?: string | null } }[];
+  abstract_inverted_index?: Record<string, number[]> | null;
+  best_oa_location?: { pdf_url?: string | null } | null;
+  primary_location?: { pdf_url?: string | null; source?: { display_name?: string | null } | null } | null;
+  topics?: { display_name?: string }[];
+  concepts?: { display_name?: string; score?: number }[];
+}
+
+interface OpenAlexListResponse {
+  meta?: { count?: number };
+  results?: OpenAlexWork[];
+}
+
+const OPENALEX_API_URL = 'https://api.openalex.org/works';
+const ARTIFICIAL_INTELLIGENCE_CONCEPT = 'C154945302'; // デフォルトフィード用 (arXiv の cs.AI 相当)
+const MAX_CATEGORIES_PER_WORK = 3;
+
+// OpenAlex は Abstract を「単語 → 出現位置」の転置インデックスで返すので文章に戻す
+function rebuildAbstract(index: Record<string, number[]> | null | undefined): string | undefined {
+  if (!index) return undefined;
+  const words: string[] = [];
+  for (const [word, positions] of Object.entries(index)) {
+    for (const position of positions) words[position] = word;
+  }
+  const text = words.filter(Boolean).join(' ').trim();
+  return text || undefined;
+}
+
+function transformWork(work: OpenAlexWork): PaperSummary | null {
+  const workId = work.id?.replace('https://openalex.org/', '');
+  const rawTitle = work.display_name ?? work.title;
+  const title = rawTitle ? cleanMarkup(rawTitle) : undefined;
+  if (!workId || !title) return null;
+
+  const topicNames = (work.topics ?? []).map(topic => topic.display_name).filter((name): name is string => Boolean(name));
+  const conceptNames = (work.concepts ?? [])
+    .filter(concept => (concept.score ?? 0) > 0.3)
+    .map(concept => concept.display_name)
+    .filter((name): name is string => Boolean(name));
+
+  return {
+    id: buildPaperId('openalex', workId),
+    title,
+    summary: cleanMarkup(rebuildAbstract(work.abstract_inverted_index) ?? '') || '要約なし',
+    authors: (work.authorships ?? [])
+      .map(authorship => authorship.author?.display_name?.trim())
+      .filter((name): name is string => Boolean(name)),
+    published: work.publication_date ?? '',
+    updated: work.updated_date ?? work.publication_date ?? '',
+    pdfLink: work.best_oa_location?.pdf_url ?? work.primary_location?.pdf_url ?? '',
+    categories: (topicNames.length > 0 ? topicNames : conceptNames).slice(0, MAX_CATEGORIES_PER_WORK),
+    source: 'openalex',
+    doi: work.doi?.replace('https://doi.org/', '') || undefined,
+    journalRef: work.primary_location?.source?.display_name?.trim() || undefined,
+  };
+}
+
+function withMailto(params: URLSearchParams): URLSearchParams {
+  // polite pool を使うための連絡先 (任意)
+  if (process.env.OPENALEX_MAILTO) params.set('mailto', process.env.OPENALEX_MAILTO);
+  return params;
+}
+
+// フィルタの区切り文字であるカンマは空白に置き換える。OpenAlex の否定は NOT で書く
+function toSearchText(value: string): string {
+  const expression = parseSearchExpression(value.replace(/,/g, ' '));
+  return expression ? formatSearchExpression(expression, term => term, { AND: 'AND', OR: 'OR', ANDNOT: 'NOT' }) : '';
+}
+
+function buildListParams(criteria: PaperSearchCriteria, page: number, perPage: number): URLSearchParams {
+  const filters: string[] = [];
+  const searchTerms: string[] = [];
+
+  if (criteria.operator === 'OR') {
+    // フィールドをまたぐ OR はフィルタで表現できないので全文検索の OR にまとめる
+    const terms = [criteria.query, criteria.title, criteria.abstract, criteria.author]
+      .filter((value): value is string => Boolean(value))
+      .map(value => `(${toSearchText(value)})`);
+    if (terms.length > 0) searchTerms.push(terms.join(' OR '));
+  } else {
+    if (criteria.query) searchTerms.push(toSearchText(criteria.query));
+    if (criteria.title) filters.push(`title.search:${toSearchText(criteria.title)}`);
+    if (criteria.abstract) filters.push(`abstract.search:${toSearchText(criteria.abstract)}`);
+    for (const name of (criteria.author ?? '').split(',').map(value => value.trim()).filter(Boolean)) {
+      filters.push(`raw_author_name.search:${name}`);
+    }
+  }
+  if (criteria.from) filters.push(`from_publication_date:${criteria.from}`);
+  filters.push(`to_publication_date:${criteria.to ?? new Date().toISOString().slice(0, 10)}`);
+
+  const hasQuery = searchTerms.length > 0 || filters.some(filter => filter.includes('.search:'));
+  if (!hasQuery && !criteria.from) filters.push(`concepts.id:${ARTIFICIAL_INTELLIGENCE_CONCEPT}`);
+
+  const params = new URLSearchParams({
+    'per-page': String(perPage),
+    page: String(page),
+    filter: filters.join(','),
+  });
+  if (searchTerms.length > 0) params.set('search', searchTerms.join(' '));
+  if (!hasQuery) params.set('sort', 'publication_date:desc');
+  return withMailto(params);
+}
+
+export const openAlexSource: PaperSource = {
+  id: 'openalex',
+  label: 'OpenAlex',
+
+  async search(criteria: PaperSearchCriteria, options: PaperSearchOptions) {
+    if (criteria.categories && criteria.categories.length > 0) {
+      // arXiv のカテゴリ体系は OpenAlex に無いため無視する
+      console.log(`OpenAlex source: Ignoring arXiv categories: ${criteria.categories.join(', ')}`);
+    }
+    // ページ番号でしか取得できないので、start がページの途中の場合は次のページも取得して切り出す
+    const { start, maxResults } = options;
+    const firstPage = Math.floor(start / maxResults) + 1;
+    const skip = start % maxResults;
+    const responses = await Promise.all((skip > 0 ? [firstPage, firstPage + 1] : [firstPage]).map(page => {
+      const params = buildListParams(criteria, page, maxResults);
+      return fetchSourceJson<OpenAlexListResponse>('OpenAlex', `${OPENALEX_API_URL}?${params.toString()}`, 600);
+    }));
+    const works = responses.flatMap(response => response.results ?? []).slice(skip, skip + maxResults);
+    const papers = works.map(transformWork).filter((paper): paper is PaperSummary => paper !== null);
+    const total = responses[0].meta?.count;
+    return {
+      papers: applyExcludeFilter(papers, criteria),
+      consumed: works.length,
+      exhausted: works.length === 0 || (total !== undefined ? start + works.length >= total : works.length < maxResults),
+    };
+  },
+
+  async fetchByIds(ids: string[]) {
+    // "W123..." または "doi:10.xxxx/..." を受け付ける
+    const results = await Promise.all(ids.map(async (id) => {
+      try {
+        const query = withMailto(new URLSearchParams()).toString();
+        // DOI はスラッシュを含んだまま渡す (/works/doi:10.7717/peerj.4375)
+        const path = id.startsWith('doi:') ? `doi:${encodeURI(id.slice(4))}` : encodeURIComponent(id);
+        const work = await fetchSourceJson<OpenAlexWork>('OpenAlex', `${OPENALEX_API_URL}/${path}${query ? `?${query}` : ''}`, 3600);
+        return transformWork(work);
+      } catch (error) {
+        if (error instanceof PaperSourceError && error.status === 404) return null;
+        throw error;
+      }
+    }));
+    return results.filter((paper): paper is PaperSummary => paper !== null);
+  },
+};
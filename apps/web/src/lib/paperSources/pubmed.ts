@@ -0,0 +1,192 @@
+// apps/web/src/lib/paperSources/pubmed.ts
+// PubMed (NCBI E-utilities) のプロバイダ。esearch でPMIDを検索し、efetch の XML から論文情報を組み立てる。
+import { XMLParser, X2jOptions } from 'fast-xml-parser';
+import { formatSearchExpression, hasTextCriteria, parseSearchExpression, tokenizeSearchText, type PaperSearchCriteria } from '@/lib/paperSearch';
+import { fetchSourceJson, fetchSourceText } from './http';
+import { buildPaperId } from './catalog';
+import { cleanMarkup } from './markup';
+import type { PaperSearchOptions, PaperSource, PaperSummary } from './types';
+
+interface PubmedDate {
+  Year?: string | number;
+  Month?: string | number;
+  Day?: string | number;
+  MedlineDate?: string;
+}
+
+interface PubmedArticle {
+  MedlineCitation?: {
+    PMID?: string | number | { '#text'?: string | number };
+    Article?: {
+      ArticleTitle?: string;
+      Abstract?: { AbstractText?: string[] };
+      AuthorList?: { Author?: { LastName?: string; ForeName?: string; CollectiveName?: string }[] };
+      Journal?: { Title?: string; JournalIssue?: { Volume?: string; Issue?: string; PubDate?: PubmedDate } };
+    };
+    MeshHeadingList?: { MeshHeading?: { DescriptorName?: string | { '#text'?: string } }[] };
+    DateRevised?: PubmedDate;
+  };
+  PubmedData?: {
+    ArticleIdList?: { ArticleId?: { '#text'?: string | number; '@_IdType'?: string }[] };
+  };
+}
+
+interface EsearchResponse {
+  esearchresult?: { count?: string; idlist?: string[] };
+}
+
+const EUTILS_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils';
+const DEFAULT_TERM = '"artificial intelligence"[MeSH Terms]';
+const MAX_CATEGORIES_PER_ARTICLE = 4;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const parserOptions: Partial<X2jOptions> = {
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseTagValue: false,
+  trimValues: true,
+  // 本文中の <i> や <sup> を保持したまま文字列として受け取る
+  stopNodes: ['*.ArticleTitle', '*.AbstractText'],
+  isArray: (name) => ['PubmedArticle', 'Author', 'AbstractText', 'MeshHeading', 'ArticleId'].includes(name),
+};
+
+function withApiKey(params: URLSearchParams): URLSearchParams {
+  if (process.env.NCBI_API_KEY) params.set('api_key', process.env.NCBI_API_KEY);
+  return params;
+}
+
+function textOf(value: unknown): string | undefined {
+  if (typeof value === 'string' || typeof value === 'number') return String(value);
+  if (value && typeof value === 'object' && '#text' in value) return textOf((value as { '#text'?: unknown })['#text']);
+  return undefined;
+}
+
+function formatDate(date: PubmedDate | undefined): string {
+  if (!date) return '';
+  const year = textOf(date.Year) ?? date.MedlineDate?.match(/\d{4}/)?.[0];
+  if (!year) return '';
+  const monthRaw = textOf(date.Month)?.toLowerCase();
+  const monthIndex = monthRaw ? (/^\d+$/.test(monthRaw) ? Number(monthRaw) : MONTHS.indexOf(monthRaw.slice(0, 3)) + 1) : 1;
+  const day = Number(textOf(date.Day) ?? 1);
+  return `${year}-${String(Math.max(monthIndex, 1)).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function transformArticle(article: PubmedArticle): PaperSummary | null {
+  const citation = article.MedlineCitation;
+  const pmid = textOf(citation?.PMID);
+  const titleRaw = citation?.Article?.ArticleTitle;
+  if (!pmid || typeof titleRaw !== 'string') return null;
+
+  const abstract = (citation?.Article?.Abstract?.AbstractText ?? [])
+    .map(part => (typeof part === 'string' ? cleanMarkup(part) : ''))
+    .filter(Boolean)
+    .join(' ');
+  const authors = (citation?.Article?.AuthorList?.Author ?? [])
+    .map(author => author.CollectiveName ?? [author.ForeName, author.LastName].filter(Boolean).join(' '))
+    .map(name => name.trim())
+    .filter(Boolean);
+  const articleIds = article.PubmedData?.ArticleIdList?.ArticleId ?? [];
+  const findArticleId = (type: string) => textOf(articleIds.find(id => id['@_IdType'] === type));
+  const pmcId = findArticleId('pmc');
+  const journal = citation?.Article?.Journal;
+  const published = formatDate(journal?.JournalIssue?.PubDate);
+  // 掲載誌は "Nature 612(7938)" の形式にまとめる
+  const volume = journal?.JournalIssue?.Volume ? ` ${journal.JournalIssue.Volume}` : '';
+  const issue = journal?.JournalIssue?.Issue ? `(${journal.JournalIssue.Issue})` : '';
+  const journalRef = journal?.Title ? `${journal.Title}${volume}${issue}` : undefined;
+
+  return {
+    id: buildPaperId('pubmed', pmid),
+    title: cleanMarkup(titleRaw),
+    summary: abstract || '要約なし',
+    authors,
+    published,
+    updated: formatDate(citation?.DateRevised) || published,
+    // PMC に全文がある場合のみ PDF を開ける
+    pdfLink: pmcId ? `https://www.ncbi.nlm.nih.gov/pmc/articles/${pmcId}/pdf/` : '',
+    categories: (citation?.MeshHeadingList?.MeshHeading ?? [])
+      .map(heading => textOf(heading.DescriptorName))
+      .filter((name): name is string => Boolean(name))
+      .slice(0, MAX_CATEGORIES_PER_ARTICLE),
+    source: 'pubmed',
+    doi: findArticleId('doi'),
+    journalRef,
+  };
+}
+
+// PubMed の否定は二項演算子の NOT で書く
+function compileFieldTerms(value: string, tag: string): string | null {
+  const expression = parseSearchExpression(value);
+  return expression ? formatSearchExpression(expression, term => `${term}${tag}`, { AND: 'AND', OR: 'OR', ANDNOT: 'NOT' }) : null;
+}
+
+/**
+ * 検索条件を PubMed の検索式に変換する。arXiv のカテゴリは対応する概念が無いため使わない。
+ */
+function compilePubmedTerm(criteria: PaperSearchCriteria): string {
+  const textClauses = [
+    criteria.query ? compileFieldTerms(criteria.query, '') : null,
+    criteria.title ? compileFieldTerms(criteria.title, '[ti]') : null,
+    criteria.abstract ? compileFieldTerms(criteria.abstract, '[tiab]') : null,
+    ...(criteria.author ?? '').split(',').map(name => name.trim()).filter(Boolean).map(name => `"${name}"[au]`),
+  ].filter((clause): clause is string => clause !== null);
+
+  const parts: string[] = [];
+  if (textClauses.length > 0) {
+    parts.push(textClauses.length === 1 ? textClauses[0] : `(${textClauses.join(` ${criteria.operator ?? 'AND'} `)})`);
+  }
+  if (criteria.from || criteria.to) {
+    const from = (criteria.from ?? '1800-01-01').replace(/-/g, '/');
+    const to = (criteria.to ?? '3000-12-31').replace(/-/g, '/');
+    parts.push(`("${from}"[dp] : "${to}"[dp])`);
+  }
+  let term = parts.length > 0 ? parts.join(' AND ') : DEFAULT_TERM;
+  for (const token of criteria.exclude ? tokenizeSearchText(criteria.exclude) : []) {
+    term = `${term} NOT ${token}`;
+  }
+  return term;
+}
+
+async function fetchArticles(pmids: string[]): Promise<PaperSummary[]> {
+  if (pmids.length === 0) return [];
+  const params = withApiKey(new URLSearchParams({ db: 'pubmed', retmode: 'xml', id: pmids.join(',') }));
+  const xmlData = await fetchSourceText('PubMed', `${EUTILS_URL}/efetch.fcgi?${params.toString()}`, 3600);
+  const parsed = new XMLParser(parserOptions).parse(xmlData) as { PubmedArticleSet?: { PubmedArticle?: PubmedArticle[] } };
+  const papers = (parsed.PubmedArticleSet?.PubmedArticle ?? [])
+    .map(transformArticle)
+    .filter((paper): paper is PaperSummary => paper !== null);
+  // efetch の返却順は保証されないため esearch の順序に並べ直す
+  const order = new Map(pmids.map((pmid, index) => [buildPaperId('pubmed', pmid), index]));
+  return papers.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+}
+
+export const pubmedSource: PaperSource = {
+  id: 'pubmed',
+  label: 'PubMed',
+
+  async search(criteria: PaperSearchCriteria, { start, maxResults }: PaperSearchOptions) {
+    const term = compilePubmedTerm(criteria);
+    const params = withApiKey(new URLSearchParams({
+      db: 'pubmed',
+      retmode: 'json',
+      term,
+      retstart: String(start),
+      retmax: String(maxResults),
+      sort: hasTextCriteria(criteria) ? 'relevance' : 'pub_date',
+    }));
+    console.log(`PubMed source: Searching with term: ${term}`);
+    const response = await fetchSourceJson<EsearchResponse>('PubMed', `${EUTILS_URL}/esearch.fcgi?${params.toString()}`, 600);
+    const pmids = response.esearchresult?.idlist ?? [];
+    const total = Number(response.esearchresult?.count ?? 0);
+    // efetch で読めなかった論文があっても、esearch で受け取ったPMIDの分だけ読み進める
+    return {
+      papers: await fetchArticles(pmids),
+      consumed: pmids.length,
+      exhausted: pmids.length === 0 || start + pmids.length >= total,
+    };
+  },
+
+  async fetchByIds(ids: string[]) {
+    return fetchArticles(ids.filter(id => /^\d+$/.test(id)));
+  },
+};
@@ -0,0 +1,52 @@
+// apps/web/src/lib/paperSources/types.ts
+import type { PaperSearchCriteria } from '@/lib/paperSearch';
+import type { PaperSourceId } from './catalog';
+
+// 各プロバイダの論文を正規化した共通フォーマット (/api/papers のレスポンス要素)
+export interface PaperSummary {
+  id: string; // arXiv はそのままのID、それ以外は "openalex:W123" のようにソース名を前置
+  title: string;
+  summary: string;
+  authors: string[];
+  published: string;
+  updated: string;
+  pdfLink: string;
+  categories: string[];
+  source: PaperSourceId;
+  doi?: string;
+  journalRef?: string; // 掲載誌 (arXiv の journal_ref、PubMed / OpenAlex の掲載誌名)
+  comment?: string; // arXiv の著者コメント ("12 pages, 3 figures" など)
+}
+
+export interface PaperSearchOptions {
+  start: number; // ソース上の読み出し位置 (前回の PaperSearchResult.consumed を足していった値)
+  maxResults: number;
+}
+
+// search の結果。除外キーワードやローカルフィルタで落とした分があるので、papers の件数では続きの有無を判断できない
+export interface PaperSearchResult {
+  papers: PaperSummary[];
+  consumed: number; // start から読み進めた件数 (落とした分も含む)。次は start + consumed から取得する
+  exhausted: boolean; // これ以上の結果が無い
+}
+
+// 論文ソース (arXiv, bioRxiv, OpenAlex, PubMed, ローカルフィクスチャ...) の共通インターフェース
+export interface PaperSource {
+  id: PaperSourceId;
+  label: string;
+  /** 検索条件に一致する論文を取得する。条件が空の場合はソースごとのデフォルトフィードを返す。 */
+  search(criteria: PaperSearchCriteria, options: PaperSearchOptions): Promise<PaperSearchResult>;
+  /** ソース固有ID (前置詞なし) の一覧から論文を取得する。見つからなかったIDは結果に含めない。 */
+  fetchByIds(ids: string[]): Promise<PaperSummary[]>;
+}
+
+// 外部APIの失敗など、ソース側で発生したエラー (API では status をそのまま返す)
+export class PaperSourceError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = 'PaperSourceError';
+    this.status = status;
+  }
+}
@@ -0,0 +1,32 @@
+// apps/web/src/lib/paperTags.ts
+// ライブラリの論文に付けるタグの正規化
+
+export const MAX_TAG_LENGTH = 30;
+export const MAX_TAGS_PER_PAPER = 20;
+
+/** 前後の空白と先頭の # を取り除き、連続する空白を1つにまとめる */
+export function normalizeTag(tag: string): string {
+  return tag.replace(/^[#＃\s]+/, '').replace(/\s+/g, ' ').trim().slice(0, MAX_TAG_LENGTH);
+}
+
+/** "tag1, tag2、tag3" のような入力をタグの配列にする */
+export function parseTagInput(input: string): string[] {
+  return mergeTags([], input.split(/[,、，]/));
+}
+
+/** 大文字小文字を区別せずに重複を除いてタグを追加する (既存のタグの表記を優先) */
+export function mergeTags(existing: string[], added: string[]): string[] {
+  const merged = [...existing];
+  const seen = new Set(existing.map(tag => tag.toLowerCase()));
+  for (const rawTag of added) {
+    const tag = normalizeTag(rawTag);
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    merged.push(tag);
+  }
+  return merged.slice(0, MAX_TAGS_PER_PAPER);
+}
+
+export function hasTag(tags: string[] | undefined, tag: string): boolean {
+  return (tags ?? []).some(t => t.toLowerCase() === tag.toLowerCase());
+}
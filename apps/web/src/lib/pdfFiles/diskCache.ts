@@ -0,0 +1,102 @@
+// apps/web/src/lib/pdfFiles/diskCache.ts
+// ダウンロードした論文PDFをディスクに残し、要約・質問で使い回す (サーバー専用)。
+// 合計サイズが上限を超えたら、最後に使ってから時間が経ったものから消す (LRU)。
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+const DEFAULT_MAX_CACHE_BYTES = 500 * 1024 * 1024;
+
+export interface CachedPdf {
+  filePath: string;
+  release: () => void; // 使い終わったら呼ぶ (使用中のファイルは削除しない)
+}
+
+function cacheDir(): string {
+  return process.env.PDF_CACHE_DIR ?? path.join(os.tmpdir(), 'kigaers-pdf-cache');
+}
+
+function maxCacheBytes(): number {
+  const configured = Number(process.env.PDF_CACHE_MAX_BYTES);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_CACHE_BYTES;
+}
+
+const cacheFilePath = (url: string) =>
+  path.join(cacheDir(), `${createHash('sha256').update(url).digest('hex')}.pdf`);
+
+const inUseCounts = new Map<string, number>();
+const pendingDownloads = new Map<string, Promise<void>>();
+
+async function downloadFile(url: string, outputPath: string): Promise<void> {
+  console.log(`pdfFiles/downloadFile: Attempting to download from ${url} to ${outputPath}`);
+  const response = await fetch(url);
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`pdfFiles/downloadFile: Failed to download file (${response.status}): ${errorText} from ${url}`);
+    throw new Error(`Failed to download file: ${response.status} ${response.statusText}`);
+  }
+  const buffer = await response.arrayBuffer();
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  // 書き込み途中のファイルを他のリクエストが読まないように、一時ファイルに書いてから置き換える
+  const tempPath = `${outputPath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tempPath, Buffer.from(buffer));
+  await fs.rename(tempPath, outputPath);
+  console.log(`pdfFiles/downloadFile: File downloaded successfully to ${outputPath} (${buffer.byteLength} bytes)`);
+}
+
+async function evictLeastRecentlyUsed(): Promise<void> {
+  const dir = cacheDir();
+  const names = await fs.readdir(dir).catch(() => [] as string[]);
+  const files = (await Promise.all(
+    names
+      .filter(name => name.endsWith('.pdf'))
+      .map(async (name) => {
+        const filePath = path.join(dir, name);
+        const stat = await fs.stat(filePath).catch(() => null);
+        return stat ? { filePath, size: stat.size, lastUsedAt: stat.mtimeMs } : null;
+      })
+  )).filter((file): file is { filePath: string; size: number; lastUsedAt: number } => file !== null);
+
+  let totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+  const limit = maxCacheBytes();
+  if (totalBytes <= limit) return;
+  for (const file of files.sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+    if (totalBytes <= limit) break;
+    if (inUseCounts.has(file.filePath)) continue;
+    await fs.unlink(file.filePath).catch(() => undefined);
+    totalBytes -= file.size;
+    console.log(`pdfFiles: Evicted ${path.basename(file.filePath)} from the PDF cache.`);
+  }
+}
+
+/** PDF をキャッシュから取り出す (無ければダウンロードする)。最終使用日時はファイルの mtime で管理する */
+export async function acquirePdf(url: string): Promise<CachedPdf> {
+  const filePath = cacheFilePath(url);
+  inUseCounts.set(filePath, (inUseCounts.get(filePath) ?? 0) + 1);
+  const release = () => {
+    const count = (inUseCounts.get(filePath) ?? 1) - 1;
+    if (count > 0) inUseCounts.set(filePath, count);
+    else inUseCounts.delete(filePath);
+  };
+
+  try {
+    const now = new Date();
+    const isCached = await fs.utimes(filePath, now, now).then(() => true, () => false);
+    if (isCached) {
+      console.log(`pdfFiles: Cache hit for ${url}`);
+    } else {
+      let pending = pendingDownloads.get(filePath);
+      if (!pending) {
+        pending = downloadFile(url, filePath).finally(() => pendingDownloads.delete(filePath));
+        pendingDownloads.set(filePath, pending);
+      }
+      await pending;
+      evictLeastRecentlyUsed().catch((error) => console.error('pdfFiles: Failed to evict cached PDFs:', error));
+    }
+    return { filePath, release };
+  } catch (error) {
+    release();
+    throw error;
+  }
+}
@@ -0,0 +1,128 @@
+// apps/web/src/lib/pdfFiles/geminiFiles.ts
+// Gemini にアップロードした論文PDFを一定時間使い回す (サーバー専用)。
+// 同じ論文への質問が続く間は再アップロードせず、使われなくなったものから削除する。
+import type { GoogleGenAI } from '@google/genai';
+import { acquirePdf } from './diskCache';
+
+const DEFAULT_FILE_TTL_MS = 30 * 60 * 1000; // 最後に使ってから30分 (Gemini 側でも48時間で自動削除される)
+const MAX_LIVE_FILES = 50;
+
+export interface GeminiPdfHandle {
+  uri: string;
+  mimeType: string;
+  release: () => void; // 使い終わったら呼ぶ
+  invalidate: () => void; // 生成に失敗した場合など、次回はアップロードし直す
+}
+
+interface LiveFile {
+  name: string;
+  uri: string;
+  mimeType: string;
+  lastUsedAt: number;
+  activeCount: number;
+}
+
+function fileTtlMs(): number {
+  const configured = Number(process.env.GEMINI_FILE_TTL_MS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_FILE_TTL_MS;
+}
+
+// ルートごとにモジュールが読み込まれても (開発時のリロードでも) 同じ一覧を使うように globalThis に置く
+const registry = globalThis as typeof globalThis & {
+  kigaersGeminiFiles?: { liveFiles: Map<string, LiveFile>; pendingUploads: Map<string, Promise<LiveFile>> };
+};
+registry.kigaersGeminiFiles ??= { liveFiles: new Map(), pendingUploads: new Map() };
+const { liveFiles, pendingUploads } = registry.kigaersGeminiFiles; // liveFiles: PDF の URL → アップロード済みのファイル
+
+async function deleteRemoteFile(ai: GoogleGenAI, file: LiveFile): Promise<void> {
+  try {
+    await ai.files.delete({ name: file.name });
+    console.log(`geminiFiles: Deleted Gemini file ${file.name}.`);
+  } catch (error) {
+    console.error(`geminiFiles: Error deleting Gemini file ${file.name}:`, error);
+  }
+}
+
+// 期限切れのもの・上限を超えた古いものを削除する (使用中のものは残す)
+function sweepLiveFiles(ai: GoogleGenAI) {
+  const now = Date.now();
+  const ttl = fileTtlMs();
+  const idleFiles = Array.from(liveFiles.entries())
+    .filter(([, file]) => file.activeCount === 0)
+    .sort(([, a], [, b]) => a.lastUsedAt - b.lastUsedAt);
+  let overflow = liveFiles.size - MAX_LIVE_FILES;
+  for (const [url, file] of idleFiles) {
+    if (now - file.lastUsedAt <= ttl && overflow <= 0) continue;
+    liveFiles.delete(url);
+    overflow--;
+    deleteRemoteFile(ai, file);
+  }
+}
+
+async function uploadPdf(ai: GoogleGenAI, pdfUrl: string): Promise<LiveFile> {
+  const pdf = await acquirePdf(pdfUrl);
+  try {
+    console.log(`geminiFiles: Uploading file "${pdf.filePath}" to Gemini.`);
+    const uploaded = await ai.files.upload({
+      file: pdf.filePath,
+      config: { mimeType: 'application/pdf' },
+    });
+    if (!uploaded.name || !uploaded.uri) {
+      throw new Error('Gemini へのファイルのアップロードに失敗しました。');
+    }
+    console.log(`geminiFiles: File uploaded to Gemini. Name: ${uploaded.name}, URI: ${uploaded.uri}`);
+    return { name: uploaded.name, uri: uploaded.uri, mimeType: uploaded.mimeType ?? 'application/pdf', lastUsedAt: Date.now(), activeCount: 0 };
+  } finally {
+    pdf.release();
+  }
+}
+
+/** 論文PDFを Gemini で参照できる状態にする。アップロード済みで期限内ならそれを使う */
+export async function acquireGeminiPdf(ai: GoogleGenAI, pdfUrl: string): Promise<GeminiPdfHandle> {
+  sweepLiveFiles(ai);
+
+  let file = liveFiles.get(pdfUrl);
+  if (file) {
+    console.log(`geminiFiles: Reusing Gemini file ${file.name} for ${pdfUrl}`);
+  } else {
+    let pending = pendingUploads.get(pdfUrl);
+    if (!pending) {
+      pending = uploadPdf(ai, pdfUrl)
+        .then((uploaded) => {
+          liveFiles.set(pdfUrl, uploaded);
+          return uploaded;
+        })
+        .finally(() => pendingUploads.delete(pdfUrl));
+      pendingUploads.set(pdfUrl, pending);
+    }
+    file = await pending;
+  }
+
+  const activeFile = file;
+  activeFile.activeCount++;
+  activeFile.lastUsedAt = Date.now();
+  let isReleased = false;
+  return {
+    uri: activeFile.uri,
+    mimeType: activeFile.mimeType,
+    release: () => {
+      if (isReleased) return;
+      isReleased = true;
+      activeFile.activeCount--;
+      activeFile.lastUsedAt = Date.now();
+    },
+    invalidate: () => {
+      if (liveFiles.get(pdfUrl) !== activeFile) return;
+      liveFiles.delete(pdfUrl);
+      // 他のリクエストが使い終わってから削除する
+      const deleteWhenIdle = () => {
+        if (activeFile.activeCount > 0) {
+          setTimeout(deleteWhenIdle, 1000).unref?.();
+        } else {
+          deleteRemoteFile(ai, activeFile);
+        }
+      };
+      deleteWhenIdle();
+    },
+  };
+}
@@ -0,0 +1,169 @@
+// apps/web/src/lib/recommendation.ts
+// いいね / 興味なしの履歴からブラウザ内で興味プロファイルを作り、取得した論文を並べ替える。
+// タイトル・Abstract の TF-IDF ベクトルのコサイン類似度に、カテゴリと著者の一致をボーナスとして加える。
+
+export interface RecommendablePaper {
+  id: string;
+  title: string;
+  summary: string;
+  authors: string[];
+  categories: string[];
+}
+
+export interface RecommendationProfile {
+  likedDocuments: Map<string, number>[]; // 論文ごとの語の出現頻度 (TF)
+  dislikedDocuments: Map<string, number>[];
+  categoryWeights: Map<string, number>; // 正ならいいね側、負なら興味なし側
+  authorWeights: Map<string, number>;
+}
+
+// 「なぜこの論文？」の表示用
+export interface RecommendationExplanation {
+  score: number;
+  matchedTerms: string[];
+  matchedCategories: string[];
+  matchedAuthors: string[];
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'our', 'which', 'these', 'their', 'its', 'have', 'has',
+  'been', 'was', 'were', 'can', 'not', 'but', 'also', 'than', 'more', 'such', 'into', 'using', 'use', 'used', 'based',
+  'show', 'shows', 'propose', 'proposed', 'paper', 'results', 'method', 'methods', 'approach', 'new', 'via', 'both',
+  'however', 'while', 'over', 'between', 'each', 'other', 'well', 'two', 'one', 'under', 'they', 'them', 'only',
+  'present', 'work', 'study', 'model', 'models', 'data', 'task', 'tasks', 'existing', 'through', 'further', 'thus',
+  'all', 'any', 'some', 'introduce', 'designed', 'range', 'significantly', 'first', 'when', 'where', 'what', 'how',
+]);
+const TITLE_WEIGHT = 2; // タイトルの語は Abstract の語より重視する
+const DISLIKE_WEIGHT = 0.5; // 興味なしの影響はいいねより弱くする
+const CATEGORY_BONUS = 0.15;
+const AUTHOR_BONUS = 0.25;
+const MAX_EXPLANATION_TERMS = 5;
+
+function normalizeAuthor(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/** 英文を語に分割する (LaTeX の数式やストップワードは除く) */
+export function tokenizeForRecommendation(text: string): string[] {
+  return text
+    .replace(/\$[^$]*\$/g, ' ')
+    .toLowerCase()
+    .split(/[^a-z0-9-]+/)
+    .map(token => token.replace(/^-+|-+$/g, ''))
+    .filter(token => token.length >= 3 && !STOP_WORDS.has(token) && !/^\d+$/.test(token));
+}
+
+function termFrequencies(paper: RecommendablePaper): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  const add = (token: string, weight: number) => frequencies.set(token, (frequencies.get(token) ?? 0) + weight);
+  tokenizeForRecommendation(paper.title).forEach(token => add(token, TITLE_WEIGHT));
+  tokenizeForRecommendation(paper.summary).forEach(token => add(token, 1));
+  return frequencies;
+}
+
+export function buildRecommendationProfile(likedPapers: RecommendablePaper[], dislikedPapers: RecommendablePaper[]): RecommendationProfile {
+  const categoryWeights = new Map<string, number>();
+  const authorWeights = new Map<string, number>();
+  const accumulate = (papers: RecommendablePaper[], weight: number) => {
+    for (const paper of papers) {
+      paper.categories.forEach(category => categoryWeights.set(category, (categoryWeights.get(category) ?? 0) + weight));
+      paper.authors.forEach(author => {
+        const key = normalizeAuthor(author);
+        authorWeights.set(key, (authorWeights.get(key) ?? 0) + weight);
+      });
+    }
+  };
+  accumulate(likedPapers, 1);
+  accumulate(dislikedPapers, -DISLIKE_WEIGHT);
+
+  return {
+    likedDocuments: likedPapers.map(termFrequencies),
+    dislikedDocuments: dislikedPapers.map(termFrequencies),
+    categoryWeights,
+    authorWeights,
+  };
+}
+
+export function isProfileEmpty(profile: RecommendationProfile): boolean {
+  return profile.likedDocuments.length === 0 && profile.dislikedDocuments.length === 0;
+}
+
+function computeIdf(documents: Map<string, number>[]): Map<string, number> {
+  const documentFrequency = new Map<string, number>();
+  for (const document of documents) {
+    for (const term of document.keys()) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }
+  const idf = new Map<string, number>();
+  for (const [term, frequency] of documentFrequency) {
+    idf.set(term, Math.log((1 + documents.length) / (1 + frequency)) + 1);
+  }
+  return idf;
+}
+
+function toTfIdf(document: Map<string, number>, idf: Map<string, number>): Map<string, number> {
+  const vector = new Map<string, number>();
+  let norm = 0;
+  for (const [term, frequency] of document) {
+    const value = (1 + Math.log(frequency)) * (idf.get(term) ?? 1);
+    vector.set(term, value);
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm) || 1;
+  for (const [term, value] of vector) vector.set(term, value / norm);
+  return vector;
+}
+
+function addScaled(target: Map<string, number>, source: Map<string, number>, scale: number) {
+  for (const [term, value] of source) target.set(term, (target.get(term) ?? 0) + value * scale);
+}
+
+/**
+ * 論文を興味プロファイルとの近さで並べ替える。
+ * プロファイルが空の場合は元の順序のまま返し、説明も付けない。
+ */
+export function rankPapers<T extends RecommendablePaper>(
+  papers: T[],
+  profile: RecommendationProfile,
+): { papers: T[]; explanations: Record<string, RecommendationExplanation> } {
+  if (papers.length === 0 || isProfileEmpty(profile)) {
+    return { papers, explanations: {} };
+  }
+
+  // IDF は「プロファイルの論文 + 今回のバッチ」をコーパスとして計算する
+  const candidateDocuments = papers.map(termFrequencies);
+  const idf = computeIdf([...profile.likedDocuments, ...profile.dislikedDocuments, ...candidateDocuments]);
+
+  const profileVector = new Map<string, number>();
+  profile.likedDocuments.forEach(document => addScaled(profileVector, toTfIdf(document, idf), 1 / profile.likedDocuments.length));
+  profile.dislikedDocuments.forEach(document => addScaled(profileVector, toTfIdf(document, idf), -DISLIKE_WEIGHT / profile.dislikedDocuments.length));
+
+  const explanations: Record<string, RecommendationExplanation> = {};
+  const scored = papers.map((paper, index) => {
+    const vector = toTfIdf(candidateDocuments[index], idf);
+    const contributions: [string, number][] = [];
+    let similarity = 0;
+    for (const [term, value] of vector) {
+      const contribution = value * (profileVector.get(term) ?? 0);
+      similarity += contribution;
+      if (contribution > 0) contributions.push([term, contribution]);
+    }
+
+    const matchedCategories = paper.categories.filter(category => (profile.categoryWeights.get(category) ?? 0) > 0);
+    const categoryScore = paper.categories.reduce((sum, category) => sum + Math.tanh(profile.categoryWeights.get(category) ?? 0), 0);
+    const matchedAuthors = paper.authors.filter(author => (profile.authorWeights.get(normalizeAuthor(author)) ?? 0) > 0);
+    const authorScore = paper.authors.reduce((sum, author) => sum + Math.tanh(profile.authorWeights.get(normalizeAuthor(author)) ?? 0), 0);
+
+    const score = similarity + CATEGORY_BONUS * categoryScore + AUTHOR_BONUS * authorScore;
+    explanations[paper.id] = {
+      score,
+      matchedTerms: contributions.sort((a, b) => b[1] - a[1]).slice(0, MAX_EXPLANATION_TERMS).map(([term]) => term),
+      matchedCategories,
+      matchedAuthors,
+    };
+    return { paper, score, index };
+  });
+
+  // 同点の場合は元の (API の) 順序を保つ
+  scored.sort((a, b) => b.score - a.score || a.index - b.index);
+  return { papers: scored.map(item => item.paper), explanations };
+}
@@ -0,0 +1,122 @@
+// apps/web/src/lib/structuredSummary.ts
+// 項目ごとに分けたAI要約 (/api/summarize が JSON で返す)。サーバー・クライアントの両方で使う。
+
+export interface StructuredSummary {
+  tldr: string; // 1文の要点 (カードの表面に表示する)
+  purpose: string;
+  method: string;
+  keyResults: string[];
+  contributions: string[];
+  limitations: string[];
+}
+
+type StructuredSummaryTextKey = 'purpose' | 'method';
+type StructuredSummaryListKey = 'keyResults' | 'contributions' | 'limitations';
+
+export const STRUCTURED_SUMMARY_SECTIONS: { key: StructuredSummaryTextKey | StructuredSummaryListKey; label: string }[] = [
+  { key: 'purpose', label: '目的' },
+  { key: 'method', label: '手法' },
+  { key: 'keyResults', label: '主な結果' },
+  { key: 'contributions', label: '貢献・新規性' },
+  { key: 'limitations', label: '限界・課題' },
+];
+
+const TEXT_KEYS: StructuredSummaryTextKey[] = ['purpose', 'method'];
+const LIST_KEYS: StructuredSummaryListKey[] = ['keyResults', 'contributions', 'limitations'];
+const TLDR_LABEL = 'TL;DR';
+
+const SECTION_LABELS: Record<string, string> = {
+  tldr: TLDR_LABEL,
+  ...Object.fromEntries(STRUCTURED_SUMMARY_SECTIONS.map(section => [section.key, section.label])),
+};
+
+const toText = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+/** 形式を確認し、空白を整える。tldr が無いなど要約として使えない場合は null */
+export function normalizeStructuredSummary(value: unknown): StructuredSummary | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+  const record = value as Record<string, unknown>;
+  const tldr = toText(record.tldr);
+  if (!tldr) return null;
+  const summary: StructuredSummary = { tldr, purpose: '', method: '', keyResults: [], contributions: [], limitations: [] };
+  for (const key of TEXT_KEYS) summary[key] = toText(record[key]);
+  for (const key of LIST_KEYS) {
+    const items = record[key];
+    // 1つの文字列で返された場合も受け付ける
+    summary[key] = (Array.isArray(items) ? items : [items]).map(toText).filter(Boolean);
+  }
+  return summary;
+}
+
+/** LLM の応答を読み取る。```json のコードブロックで囲まれていても受け付ける */
+export function parseStructuredSummary(text: string): StructuredSummary | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end < start) return null;
+  try {
+    return normalizeStructuredSummary(JSON.parse(text.slice(start, end + 1)));
+  } catch {
+    return null;
+  }
+}
+
+/** エクスポートやハイライトで使うテキスト形式 (Paper.aiSummary に保存する) */
+export function formatStructuredSummary(summary: StructuredSummary): string {
+  const blocks = [`${TLDR_LABEL}: ${summary.tldr}`];
+  for (const { key, label } of STRUCTURED_SUMMARY_SECTIONS) {
+    const value = summary[key];
+    const body = Array.isArray(value) ? value.map(item => `・${item}`).join('\n') : value;
+    if (body) blocks.push(`【${label}】\n${body}`);
+  }
+  return blocks.join('\n\n');
+}
+
+function decodeJsonString(raw: string): string {
+  try {
+    return JSON.parse(`"${raw}"`);
+  } catch {
+    // 途中で切れたエスケープ (\u30 など) を除いてから読む
+    try {
+      return JSON.parse(`"${raw.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '')}"`);
+    } catch {
+      return raw;
+    }
+  }
+}
+
+/**
+ * 生成途中の JSON を読みやすいテキストにする (ストリーミング表示用)。
+ * 文字列の直前の記号で、キー・値・配列の要素のどれかを判断する。
+ */
+export function formatStructuredSummaryDraft(draft: string): string {
+  const lines: string[] = [];
+  const headingIndexes = new Set<number>();
+  let isInList = false;
+  let previousEnd = 0;
+  for (const match of draft.matchAll(/"((?:[^"\\]|\\.)*)("?)/g)) {
+    const between = draft.slice(previousEnd, match.index);
+    previousEnd = match.index + match[0].length;
+    if (between.includes(']')) isInList = false;
+    const punctuation = between.slice(between.lastIndexOf(']') + 1);
+    const text = decodeJsonString(match[1]);
+    const isClosed = match[2] === '"';
+    if (punctuation.includes(':')) {
+      isInList = punctuation.includes('[');
+      if (isInList) {
+        lines.push(`・${text}`);
+      } else if (text && lines.length > 0) {
+        const heading = lines[lines.length - 1];
+        lines[lines.length - 1] = heading.endsWith(':') ? `${heading} ${text}` : `${heading}\n${text}`;
+        headingIndexes.delete(lines.length - 1);
+      }
+    } else if (isInList) {
+      lines.push(`・${text}`);
+    } else if (isClosed) { // 途中までのキーは表示しない
+      const label = SECTION_LABELS[text] ?? text;
+      headingIndexes.add(lines.length);
+      lines.push(text === 'tldr' ? `${label}:` : `${lines.length > 0 ? '\n' : ''}【${label}】`);
+    }
+  }
+  // 中身が空のまま次の項目に進んだ見出しは出さない
+  return lines.filter((_, index) => !(headingIndexes.has(index) && headingIndexes.has(index + 1))).join('\n');
+}
@@ -0,0 +1,213 @@
+// apps/web/src/lib/summaryCache.ts
+// 生成したAI要約をディスクにキャッシュする (サーバー専用)。
+// 論文ID・版・要約した内容・モデル・要約の設定・要約元・プロンプトが同じなら、PDF のダウンロードや Gemini の呼び出しをせずに返す。
+// 合計サイズが上限を超えたら、最後に使ってから時間が経ったものから消す (LRU)。
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { SummarySource } from '@/lib/summaryOptions';
+
+export interface SummaryCacheKeyParts {
+  paperId: string;
+  version: string; // arXiv の版 (v2 など)。分からない場合は更新日
+  input: string; // 要約した内容 (PDF の URL または Abstract)。論文IDはクライアントが送るものなので、それだけでは区別しない
+  model: string;
+  variant: string; // 要約の言語・長さ・対象読者 (summaryVariantKey)
+  source: SummarySource; // 全文 (PDF) と Abstract のどちらから生成したか
+  promptVersion: number; // プロンプトを変えたら上げる
+}
+
+interface CachedSummary extends SummaryCacheKeyParts {
+  summary: string;
+  createdAt: string; // ISO 8601
+}
+
+// API のレスポンスに含めるキャッシュの情報
+export interface SummaryCacheInfo {
+  hit: boolean;
+  version: string;
+  model: string;
+  variant: string;
+  source: SummarySource;
+  promptVersion: number;
+  createdAt: string;
+}
+
+/** 書き込めない環境では SUMMARY_CACHE_ENABLED=false で無効にする */
+export function isSummaryCacheEnabled(): boolean {
+  return process.env.SUMMARY_CACHE_ENABLED !== 'false';
+}
+
+const DEFAULT_MAX_CACHE_BYTES = 100 * 1024 * 1024;
+
+function cacheDir(): string {
+  return process.env.SUMMARY_CACHE_DIR ?? path.join(process.cwd(), '.data', 'summaries');
+}
+
+function maxCacheBytes(): number {
+  const configured = Number(process.env.SUMMARY_CACHE_MAX_BYTES);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_CACHE_BYTES;
+}
+
+/** PDF の URL (arxiv.org/pdf/2401.12345v2) から版を取り出す。無ければ論文の更新日を使う */
+export function resolvePaperVersion(pdfUrl: string, updated?: string): string {
+  const match = pdfUrl.match(/v(\d+)(?:\.pdf)?$/);
+  if (match) return `v${match[1]}`;
+  return updated?.trim() || 'unknown';
+}
+
+function buildCacheKey(parts: SummaryCacheKeyParts): string {
+  return createHash('sha256')
+    .update(JSON.stringify([parts.paperId, parts.version, parts.input, parts.model, parts.variant, parts.source, parts.promptVersion]))
+    .digest('hex');
+}
+
+const cacheFilePath = (key: string) => path.join(cacheDir(), key.slice(0, 2), `${key}.json`);
+
+// 最終使用日時はファイルの mtime で管理する
+async function readCachedSummary(key: string): Promise<CachedSummary | null> {
+  try {
+    const filePath = cacheFilePath(key);
+    const cached = JSON.parse(await fs.readFile(filePath, 'utf8')) as CachedSummary;
+    if (typeof cached.summary !== 'string' || !cached.summary) return null;
+    const now = new Date();
+    await fs.utimes(filePath, now, now).catch(() => undefined);
+    return cached;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`summaryCache: Ignoring unreadable cache entry ${key}:`, error);
+    }
+    return null;
+  }
+}
+
+// 書き込み途中のファイルを読まないように、一時ファイルに書いてから置き換える
+async function writeCachedSummary(key: string, entry: CachedSummary): Promise<void> {
+  const filePath = cacheFilePath(key);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(entry), 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+let isEvicting = false;
+
+async function evictLeastRecentlyUsed(): Promise<void> {
+  if (isEvicting) return;
+  isEvicting = true;
+  try {
+    const dir = cacheDir();
+    const subdirs = await fs.readdir(dir).catch(() => [] as string[]);
+    const files = (await Promise.all(subdirs.map(async (subdir) => {
+      const names = await fs.readdir(path.join(dir, subdir)).catch(() => [] as string[]);
+      return Promise.all(
+        names
+          .filter(name => name.endsWith('.json'))
+          .map(async (name) => {
+            const filePath = path.join(dir, subdir, name);
+            const stat = await fs.stat(filePath).catch(() => null);
+            return stat ? { filePath, size: stat.size, lastUsedAt: stat.mtimeMs } : null;
+          })
+      );
+    }))).flat().filter((file): file is { filePath: string; size: number; lastUsedAt: number } => file !== null);
+
+    let totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    const limit = maxCacheBytes();
+    if (totalBytes <= limit) return;
+    for (const file of files.sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+      if (totalBytes <= limit) break;
+      await fs.unlink(file.filePath).catch(() => undefined);
+      totalBytes -= file.size;
+      console.log(`summaryCache: Evicted ${path.basename(file.filePath)} from the summary cache.`);
+    }
+  } finally {
+    isEvicting = false;
+  }
+}
+
+function toCacheInfo(entry: CachedSummary, hit: boolean): SummaryCacheInfo {
+  return { hit, version: entry.version, model: entry.model, variant: entry.variant, source: entry.source, promptVersion: entry.promptVersion, createdAt: entry.createdAt };
+}
+
+// 同じ論文の要約を同時に頼まれた場合は、1回の生成結果を共有する。
+// 生成は最初のリクエストとは別の signal で行い、待っているリクエストが全て中止された時だけ止める
+interface PendingSummary {
+  promise: Promise<CachedSummary>;
+  controller: AbortController;
+  waiting: number;
+}
+
+const pendingSummaries = new Map<string, PendingSummary>();
+
+// 呼び出し元が中止したら待つのをやめる (生成を止めるのは、他に待っている呼び出し元が居ない場合だけ)
+function waitForPendingSummary(key: string, pending: PendingSummary, signal?: AbortSignal): Promise<CachedSummary> {
+  pending.waiting += 1;
+  return new Promise((resolve, reject) => {
+    const handleAbort = () => {
+      pending.waiting -= 1;
+      if (pending.waiting === 0) {
+        console.log(`summaryCache: All requests for ${key} were cancelled. Stopping the generation.`);
+        if (pendingSummaries.get(key) === pending) pendingSummaries.delete(key); // 後から来たリクエストは新しく生成する
+        pending.controller.abort();
+      }
+      reject(signal?.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    if (signal?.aborted) {
+      handleAbort();
+      return;
+    }
+    signal?.addEventListener('abort', handleAbort, { once: true });
+    pending.promise
+      .then(resolve, reject)
+      .finally(() => signal?.removeEventListener('abort', handleAbort));
+  });
+}
+
+/**
+ * キャッシュがあればそれを返し、無ければ generate で作ってキャッシュする。
+ * regenerate の場合はキャッシュを読まずに作り直し、上書きする。
+ * onDelta には生成中のテキストが届く (同じ要約を生成中の別リクエストに相乗りした場合は届かない)。
+ * signal を中止すると AbortError を投げる。
+ */
+export async function getOrCreateSummary(
+  parts: SummaryCacheKeyParts,
+  generate: (onDelta: (text: string) => void, signal: AbortSignal) => Promise<string>,
+  { regenerate = false, onDelta, signal }: { regenerate?: boolean; onDelta?: (text: string) => void; signal?: AbortSignal } = {},
+): Promise<{ summary: string; cache: SummaryCacheInfo }> {
+  const key = buildCacheKey(parts);
+  const isEnabled = isSummaryCacheEnabled();
+  if (isEnabled && !regenerate) {
+    const cached = await readCachedSummary(key);
+    if (cached) {
+      console.log(`summaryCache: Hit for ${parts.paperId} (${parts.version}, ${parts.model}).`);
+      return { summary: cached.summary, cache: toCacheInfo(cached, true) };
+    }
+  }
+
+  let pending = pendingSummaries.get(key);
+  if (!pending) {
+    const controller = new AbortController();
+    const created: PendingSummary = {
+      controller,
+      waiting: 0,
+      promise: generate((text) => { if (!signal?.aborted) onDelta?.(text); }, controller.signal)
+        .then(async (summary) => {
+          const entry: CachedSummary = { ...parts, summary, createdAt: new Date().toISOString() };
+          if (isEnabled) {
+            await writeCachedSummary(key, entry).catch((error) => {
+              console.error(`summaryCache: Failed to write cache entry for ${parts.paperId}:`, error);
+            });
+            evictLeastRecentlyUsed().catch((error) => console.error('summaryCache: Failed to evict cached summaries:', error));
+          }
+          return entry;
+        })
+        .finally(() => {
+          if (pendingSummaries.get(key) === created) pendingSummaries.delete(key);
+        }),
+    };
+    pending = created;
+    pendingSummaries.set(key, pending);
+  }
+  const entry = await waitForPendingSummary(key, pending, signal);
+  return { summary: entry.summary, cache: toCacheInfo(entry, false) };
+}
@@ -0,0 +1,129 @@
+// apps/web/src/lib/summaryClient.ts
+// /api/summarize を呼び出すクライアント側の処理 (ホーム・ライブラリで共通)
+import type { Paper } from '@/contexts/LikedPapersContext';
+import type { SummaryCacheInfo } from '@/lib/summaryCache';
+import { isAbortError, readAiStream } from '@/lib/aiStream';
+import { formatStructuredSummary, formatStructuredSummaryDraft, type StructuredSummary } from '@/lib/structuredSummary';
+import {
+  DEFAULT_SUMMARY_OPTIONS, summaryVariantKey, type PaperSummaryVariant, type SummaryOptions, type SummarySource,
+} from '@/lib/summaryOptions';
+
+export interface PaperSummaryResult {
+  variant: PaperSummaryVariant;
+  cache?: SummaryCacheInfo; // サーバーのキャッシュを使ったかどうか
+}
+
+// /api/summarize が失敗した (status はエラーで返った場合の HTTP ステータス。ストリームの途中で失敗した場合は無し)
+export class SummaryRequestError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'SummaryRequestError';
+    this.status = status;
+  }
+}
+
+/** 再試行すれば成功するかもしれない失敗か (通信エラー・タイムアウト・混雑・サーバーエラー、生成途中の失敗) */
+export function isTransientSummaryError(error: unknown): boolean {
+  if (isAbortError(error)) return false;
+  if (error instanceof SummaryRequestError && error.status !== undefined) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  return true;
+}
+
+interface RequestPaperSummaryOptions {
+  options?: SummaryOptions; // 言語・長さ・対象読者 (省略時は既定の設定)
+  source?: SummarySource; // 省略時は全文 (PDF) から生成する
+  regenerate?: boolean;
+  onDelta?: (draft: string) => void; // 生成途中の要約 (それまでに届いた JSON を読める形にしたもの)
+  signal?: AbortSignal; // 中止すると AbortError を投げる
+}
+
+export async function requestPaperSummary(
+  paper: Pick<Paper, 'id' | 'title' | 'summary' | 'pdfLink' | 'updated'>,
+  { options = DEFAULT_SUMMARY_OPTIONS, source = 'pdf', regenerate = false, onDelta, signal }: RequestPaperSummaryOptions = {},
+): Promise<PaperSummaryResult> {
+  const response = await fetch('/api/summarize', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      pdfUrl: paper.pdfLink,
+      abstract: source === 'abstract' ? paper.summary : undefined,
+      source,
+      paperTitle: paper.title,
+      paperId: paper.id,
+      paperUpdated: paper.updated,
+      options,
+      regenerate,
+      stream: true,
+    }),
+    signal,
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new SummaryRequestError(errorData.error || `要約の生成に失敗しました (Status: ${response.status})`, response.status);
+  }
+  const { meta } = await readAiStream<{ cache: SummaryCacheInfo; structured: StructuredSummary }>(
+    response,
+    (_, fullText) => onDelta?.(formatStructuredSummaryDraft(fullText)),
+  );
+  if (!meta?.structured) throw new SummaryRequestError('要約の生成に失敗しました。サーバーの応答が正しくありません。');
+  if (meta.cache.hit) {
+    console.log(`summaryClient: Used cached summary for ${paper.id} (created ${meta.cache.createdAt}).`);
+  }
+  return {
+    variant: {
+      options,
+      summary: formatStructuredSummary(meta.structured),
+      structured: meta.structured,
+      ...(source === 'abstract' ? { source } : {}),
+      createdAt: meta.cache.createdAt,
+    },
+    cache: meta.cache,
+  };
+}
+
+/** 指定した設定で生成済みの要約。設定を選べなかった頃の要約 (項目別になっていないテキストも含む) は既定の設定のものとして扱う */
+export function findSummaryVariant(
+  paper: Pick<Paper, 'aiSummary' | 'aiSummaryStructured' | 'aiSummaryOptions' | 'aiSummaryVariants'>,
+  options: SummaryOptions,
+): PaperSummaryVariant | undefined {
+  const key = summaryVariantKey(options);
+  const stored = paper.aiSummaryVariants?.[key];
+  if (stored) return stored;
+  if (paper.aiSummary && summaryVariantKey(paper.aiSummaryOptions ?? DEFAULT_SUMMARY_OPTIONS) === key) {
+    return { options, summary: paper.aiSummary, structured: paper.aiSummaryStructured, createdAt: '' };
+  }
+  return undefined;
+}
+
+/** 指定した設定・要約元で要約を生成する必要があるか (Abstract だけから作った要約しか無い場合、全文の要約は生成する) */
+export function needsSummary(
+  paper: Pick<Paper, 'aiSummary' | 'aiSummaryStructured' | 'aiSummaryOptions' | 'aiSummaryVariants'>,
+  options: SummaryOptions,
+  source: SummarySource,
+): boolean {
+  const existing = findSummaryVariant(paper, options);
+  return !existing || (existing.source === 'abstract' && source === 'pdf');
+}
+
+/** 要約を表示中のものにし、設定ごとの要約にも残す (他の設定の要約は消さない) */
+export function applySummaryVariant<T extends Paper>(paper: T, variant: PaperSummaryVariant): T {
+  // 全文から生成した要約を、Abstract だけから生成した要約で置き換えない
+  const existing = findSummaryVariant(paper, variant.options);
+  if (variant.source === 'abstract' && existing && existing.source !== 'abstract') return paper;
+  // 設定ごとに残すようになる前の要約も、切り替えで失わないように残しておく
+  const previousOptions = paper.aiSummaryOptions ?? DEFAULT_SUMMARY_OPTIONS;
+  const previous = paper.aiSummary
+    ? { [summaryVariantKey(previousOptions)]: { options: previousOptions, summary: paper.aiSummary, structured: paper.aiSummaryStructured, createdAt: '' } }
+    : {};
+  return {
+    ...paper,
+    aiSummary: variant.summary,
+    aiSummaryStructured: variant.structured,
+    aiSummaryOptions: variant.options,
+    aiSummaryVariants: { ...previous, ...paper.aiSummaryVariants, [summaryVariantKey(variant.options)]: variant },
+  };
+}
@@ -0,0 +1,90 @@
+// apps/web/src/lib/summaryOptions.ts
+// AI要約の言語・長さ・対象読者。設定ごとに生成した要約を Paper に残しておく (サーバー・クライアントの両方で使う)。
+import { normalizeStructuredSummary, type StructuredSummary } from '@/lib/structuredSummary';
+
+export type SummaryLanguage = 'ja' | 'en';
+export type SummaryLength = 'tldr' | 'short' | 'detailed';
+export type SummaryAudience = 'expert' | 'newcomer';
+
+// pdf: 全文 (PDF) から生成 / abstract: Abstract だけから生成 (速いが、全文にしか無い内容は含まない)
+export type SummarySource = 'pdf' | 'abstract';
+
+export interface SummaryOptions {
+  language: SummaryLanguage;
+  length: SummaryLength;
+  audience: SummaryAudience;
+}
+
+// 設定ごとに生成した要約
+export interface PaperSummaryVariant {
+  options: SummaryOptions;
+  summary: string; // structured をテキストにしたもの
+  structured?: StructuredSummary; // 項目別の要約を生成するようになる前の要約には無い
+  source?: SummarySource; // 未設定は全文から生成した要約
+  createdAt: string; // ISO 8601
+}
+
+// 以前の (設定を選べなかった頃の) 要約に近い設定
+export const DEFAULT_SUMMARY_OPTIONS: SummaryOptions = { language: 'ja', length: 'short', audience: 'newcomer' };
+
+export const SUMMARY_LANGUAGE_LABELS: Record<SummaryLanguage, string> = {
+  ja: '日本語',
+  en: 'English',
+};
+
+export const SUMMARY_LENGTH_LABELS: Record<SummaryLength, string> = {
+  tldr: 'TL;DR (3行)',
+  short: '短め',
+  detailed: '詳細',
+};
+
+export const SUMMARY_AUDIENCE_LABELS: Record<SummaryAudience, string> = {
+  newcomer: '初学者向け',
+  expert: '専門家向け',
+};
+
+const pickOption = <T extends string>(labels: Record<T, string>, value: unknown, fallback: T): T =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(labels, value) ? value as T : fallback;
+
+/** リクエストや保存データから読み取る。不明な値は既定値にする */
+export function parseSummaryOptions(value: unknown): SummaryOptions {
+  const record = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+  return {
+    language: pickOption(SUMMARY_LANGUAGE_LABELS, record.language, DEFAULT_SUMMARY_OPTIONS.language),
+    length: pickOption(SUMMARY_LENGTH_LABELS, record.length, DEFAULT_SUMMARY_OPTIONS.length),
+    audience: pickOption(SUMMARY_AUDIENCE_LABELS, record.audience, DEFAULT_SUMMARY_OPTIONS.audience),
+  };
+}
+
+export function summaryVariantKey(options: SummaryOptions): string {
+  return `${options.language}-${options.length}-${options.audience}`;
+}
+
+export function describeSummaryOptions(options: SummaryOptions): string {
+  return [
+    SUMMARY_LANGUAGE_LABELS[options.language],
+    SUMMARY_LENGTH_LABELS[options.length],
+    SUMMARY_AUDIENCE_LABELS[options.audience],
+  ].join('・');
+}
+
+/** 保存されていた要約のうち、読めるものだけを残す */
+export function normalizeSummaryVariants(value: unknown): Record<string, PaperSummaryVariant> | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return undefined;
+  const variants: Record<string, PaperSummaryVariant> = {};
+  for (const entry of Object.values(value)) {
+    if (typeof entry !== 'object' || entry === null) continue;
+    const { options, summary, structured, source, createdAt } = entry as Partial<PaperSummaryVariant>;
+    if (typeof summary !== 'string' || !summary) continue;
+    const normalizedStructured = normalizeStructuredSummary(structured) ?? undefined;
+    const normalizedOptions = parseSummaryOptions(options);
+    variants[summaryVariantKey(normalizedOptions)] = {
+      options: normalizedOptions,
+      summary,
+      ...(normalizedStructured ? { structured: normalizedStructured } : {}),
+      ...(source === 'abstract' ? { source } : {}),
+      createdAt: typeof createdAt === 'string' ? createdAt : '',
+    };
+  }
+  return Object.keys(variants).length > 0 ? variants : undefined;
+}
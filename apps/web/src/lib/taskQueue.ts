@@ -0,0 +1,112 @@
+// apps/web/src/lib/taskQueue.ts
+// 同時に実行する数を制限して、項目を順番に処理するキュー (クライアント専用)。
+// 一時的な失敗は間隔を空けて再試行し、一時停止・再開・中止ができる。
+
+export type TaskQueueState = 'running' | 'paused' | 'done' | 'cancelled';
+
+export interface TaskQueueProgress {
+  state: TaskQueueState;
+  total: number;
+  completed: number; // 成功した数
+  failed: number; // 再試行しても失敗した数
+  running: number; // 実行中の数
+  retrying: number; // 再試行を待っている数
+}
+
+export interface TaskQueueOptions<T> {
+  concurrency: number;
+  maxRetries: number; // 1つの項目を再試行する回数
+  retryDelayMs: number; // 最初の再試行までの間隔 (再試行のたびに倍にする)
+  isRetryable: (error: unknown) => boolean; // 一時的な失敗かどうか
+  onProgress: (progress: TaskQueueProgress) => void;
+  onFailure?: (item: T, error: unknown) => void; // 再試行しても失敗した項目
+}
+
+export interface TaskQueue {
+  pause: () => void; // 新しい項目を始めない (実行中の項目は最後まで続ける)
+  resume: () => void;
+  cancel: () => void; // 実行中の項目も中止する
+}
+
+interface QueuedTask<T> {
+  item: T;
+  attempts: number;
+}
+
+/** 項目の処理を始めて、操作用のオブジェクトを返す。run は中止されたら signal で知らされる */
+export function runTaskQueue<T>(
+  items: T[],
+  run: (item: T, signal: AbortSignal) => Promise<void>,
+  options: TaskQueueOptions<T>,
+): TaskQueue {
+  const pending: QueuedTask<T>[] = items.map(item => ({ item, attempts: 0 }));
+  const abortController = new AbortController();
+  const retryTimers = new Set<ReturnType<typeof setTimeout>>();
+  let state: TaskQueueState = 'running';
+  let running = 0;
+  let completed = 0;
+  let failed = 0;
+
+  const report = () => {
+    if (state !== 'cancelled' && pending.length === 0 && running === 0 && retryTimers.size === 0) state = 'done';
+    options.onProgress({ state, total: items.length, completed, failed, running, retrying: retryTimers.size });
+  };
+
+  const runTask = async (task: QueuedTask<T>) => {
+    running++;
+    try {
+      await run(task.item, abortController.signal);
+      completed++;
+    } catch (error) {
+      if (state === 'cancelled') return;
+      if (task.attempts < options.maxRetries && options.isRetryable(error)) {
+        const delay = options.retryDelayMs * 2 ** task.attempts;
+        task.attempts++;
+        console.warn(`taskQueue: Retrying in ${delay}ms (attempt ${task.attempts}/${options.maxRetries}):`, error);
+        const timer = setTimeout(() => {
+          retryTimers.delete(timer);
+          pending.unshift(task);
+          pump();
+        }, delay);
+        retryTimers.add(timer);
+      } else {
+        failed++;
+        options.onFailure?.(task.item, error);
+      }
+    } finally {
+      running--;
+      pump(); // 中止・一時停止の後は新しい項目を始めず、実行中の数が減ったことだけを知らせる
+    }
+  };
+
+  const pump = () => {
+    while (state === 'running' && running < options.concurrency && pending.length > 0) {
+      void runTask(pending.shift()!);
+    }
+    report();
+  };
+
+  pump();
+
+  return {
+    pause: () => {
+      if (state !== 'running') return;
+      state = 'paused';
+      report();
+    },
+    resume: () => {
+      if (state !== 'paused') return;
+      state = 'running';
+      pump();
+    },
+    cancel: () => {
+      if (state === 'done' || state === 'cancelled') return;
+      state = 'cancelled';
+      pending.length = 0;
+      retryTimers.forEach(timer => clearTimeout(timer));
+      retryTimers.clear();
+      abortController.abort();
+      report();
+    },
+  };
+}
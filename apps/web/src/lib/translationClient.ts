@@ -0,0 +1,24 @@
+// apps/web/src/lib/translationClient.ts
+// /api/translate を呼び出すクライアント側の処理 (ホーム・ライブラリ・詳細ページで共通)
+import type { Paper } from '@/contexts/LikedPapersContext';
+import { normalizeAbstractTranslation, type AbstractTranslation } from '@/lib/abstractTranslation';
+
+export async function requestAbstractTranslation(
+  paper: Pick<Paper, 'id' | 'title' | 'summary'>,
+  signal?: AbortSignal,
+): Promise<AbstractTranslation> {
+  const response = await fetch('/api/translate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ abstract: paper.summary, paperTitle: paper.title }),
+    signal,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `翻訳に失敗しました (Status: ${response.status})`);
+  }
+  const translation = normalizeAbstractTranslation(data.translation);
+  if (!translation) throw new Error('翻訳に失敗しました。サーバーの応答が正しくありません。');
+  console.log(`translationClient: Translated abstract of ${paper.id} (${translation.sentences.length} sentences).`);
+  return translation;
+}